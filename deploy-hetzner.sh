@@ -76,8 +76,6 @@ OPENAI_API_KEY=your_openai_api_key_here
 GEMINI_API_KEY=your_gemini_api_key_here
 YOUTUBE_API_KEY=your_youtube_api_key_here
 RAPIDAPI_KEY=your_rapidapi_key_here
-ADMIN_API_KEY=your_admin_api_key_here
-ADMIN_SECRET=your_admin_secret_here
 
 # App Configuration
 NODE_ENV=production
@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+
+type Scope = "analyze" | "trending" | "scripts" | "admin";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Scope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  analyze: "Analyze videos",
+  trending: "Trending videos",
+  scripts: "Scripts and niche ideas",
+  admin: "Admin (monitoring, users)",
+};
+
+const INPUT_CLASS = "w-full px-4 py-3 bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors";
+
+export default function AccountPage() {
+  const { user, loading } = useAuth();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>(["analyze"]);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const availableScopes: Scope[] = user?.role === "admin"
+    ? ["analyze", "trending", "scripts", "admin"]
+    : ["analyze", "trending", "scripts"];
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/keys");
+      const result = await response.json();
+      if (!result?.success) throw new Error(result?.error || `HTTP ${response.status}`);
+      setKeys(result.data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) fetchKeys();
+  }, [user, fetchKeys]);
+
+  const toggleScope = (scope: Scope) => {
+    setScopes((current) => current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]);
+  };
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes }),
+      });
+      const result = await response.json();
+      if (!result?.success) throw new Error(result?.error || `HTTP ${response.status}`);
+      setNewKey(result.data.key);
+      setName("");
+      fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const revokeKey = async (id: string) => {
+    if (!confirm("Revoke this key? Scripts using it will stop working immediately.")) return;
+    try {
+      const response = await fetch(`/api/keys/${id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!result?.success) throw new Error(result?.error || `HTTP ${response.status}`);
+      fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    }
+  };
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Link href="/login?next=/account" className="px-6 py-3 bg-accent text-white rounded-lg font-medium">
+          Sign in to manage your account
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-3xl mx-auto space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">API keys</h1>
+          <p className="text-muted">
+            Call the analyzer from scripts with <code>Authorization: Bearer &lt;key&gt;</code>.
+            A key can only do what its scopes and your role allow.
+          </p>
+        </div>
+
+        {newKey && (
+          <div className="p-4 bg-card border border-accent rounded-lg space-y-2">
+            <p className="text-sm font-medium text-foreground">Copy your new key now. It will not be shown again.</p>
+            <code className="block break-all text-sm">{newKey}</code>
+            <button onClick={() => setNewKey(null)} className="text-sm text-muted hover:text-foreground">
+              Done
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={createKey} className="p-6 bg-card border border-default rounded-lg space-y-4">
+          <div>
+            <label htmlFor="key-name" className="block text-sm font-medium text-foreground mb-2">
+              Name
+            </label>
+            <input
+              id="key-name"
+              required
+              maxLength={100}
+              placeholder="e.g. Weekly report script"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-foreground mb-2">Scopes</legend>
+            <div className="space-y-2">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-foreground">
+                  <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                  {SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting || !name.trim() || scopes.length === 0}
+            className="px-6 py-3 bg-accent text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Creating..." : "Create key"}
+          </button>
+        </form>
+
+        <div className="space-y-3">
+          {keys.length === 0 && <p className="text-sm text-muted">You have no API keys yet.</p>}
+          {keys.map((key) => (
+            <div key={key.id} className="flex items-center justify-between p-4 bg-card border border-default rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground">
+                  {key.name} <span className="text-sm text-muted font-mono">sa_{key.prefix}_…</span>
+                </p>
+                <p className="text-sm text-muted">
+                  {key.scopes.join(", ")} • created {new Date(key.createdAt).toLocaleDateString()}
+                  {" • "}
+                  {key.lastUsedAt ? `last used ${new Date(key.lastUsedAt).toLocaleString()}` : "never used"}
+                </p>
+              </div>
+              {key.revokedAt ? (
+                <span className="text-sm text-muted">Revoked</span>
+              ) : (
+                <button onClick={() => revokeKey(key.id)} className="text-sm font-medium text-red-600 hover:text-red-700">
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@/lib/accounts';
+import { deleteStoredAnalysis, getStoredAnalysis, StoredAnalysis } from '@/lib/analysis-library';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const endpoint = '/api/analyses/[id]';
+
+// Other users' analyses are reported as missing rather than forbidden, so IDs cannot be probed
+async function getOwnAnalysis(id: string, user: User): Promise<StoredAnalysis> {
+  const analysis = await getStoredAnalysis(id);
+  if (!analysis || (analysis.userId !== user.id && user.role !== 'admin')) {
+    throw new NotFoundError('Analysis not found');
+  }
+  return analysis;
+}
+
+export const GET = withApi<undefined, RouteContext>(endpoint, { auth: 'member', scope: 'analyze' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  const analysis = await getOwnAnalysis(id, user!);
+
+  return NextResponse.json({
+    success: true,
+    data: analysis
+  });
+});
+
+export const DELETE = withApi<undefined, RouteContext>(endpoint, { auth: 'member', scope: 'analyze' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  await getOwnAnalysis(id, user!);
+  await deleteStoredAnalysis(id);
+
+  return NextResponse.json({
+    success: true,
+    data: { id }
+  });
+});
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { listStoredAnalyses } from '@/lib/analysis-library';
+import { withApi } from '@/lib/api';
+import { ANALYSES_QUERY_SCHEMA } from '@/lib/security';
+
+const endpoint = '/api/analyses';
+
+// Members browse their own library; admins see everyone's and may narrow it with userId
+export const GET = withApi<z.infer<typeof ANALYSES_QUERY_SCHEMA>>(endpoint, { schema: ANALYSES_QUERY_SCHEMA, auth: 'member', scope: 'analyze' }, async (request: NextRequest, { input, user }) => {
+  const userId = user!.role === 'admin' ? input.userId : user!.id;
+  const page = await listStoredAnalyses({ ...input, userId, q: input.q || undefined });
+
+  return NextResponse.json({
+    success: true,
+    data: page
+  });
+});
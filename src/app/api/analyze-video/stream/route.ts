@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server';
+import { logError, logPerformance } from '@/lib/monitoring';
+import { runAnalysisPipeline, PipelineError } from '@/lib/analysis-pipeline';
+import { recordAnalysis } from '@/lib/analysis-library';
+import { platformManager } from '@/lib/platforms/manager';
+import { withApi } from '@/lib/api';
+import { AppError, toAppError, toErrorEnvelope } from '@/lib/errors';
+import { ANALYZE_REQUEST_SCHEMA } from '@/lib/security';
+import { RATE_LIMIT_COSTS } from '@/lib/rate-limit';
+
+const endpoint = '/api/analyze-video/stream';
+
+// Streams analysis progress as Server-Sent Events:
+// stage, metadata, transcript-source, audio-downloaded, transcript-partial, transcript, analysis, idea, done | failed
+// Request errors are returned as JSON before the stream opens; pipeline errors arrive as a "failed" event in the error envelope
+export const GET = withApi(endpoint, { schema: ANALYZE_REQUEST_SCHEMA, rateLimit: { cost: RATE_LIMIT_COSTS.analysis }, auth: 'member', scope: 'analyze' }, async (request: NextRequest, { input, user, apiKey }) => {
+  const startTime = Date.now();
+  const method = 'GET';
+  const { url: videoUrl, refresh, video, vision } = input;
+  const providedTranscript = input.transcript ?? null;
+
+  if (!platformManager.isUrlSupported(videoUrl)) {
+    throw new AppError('UNSUPPORTED_PLATFORM', 'Unsupported video URL. Please use a YouTube, Instagram, or TikTok link.');
+  }
+
+  const encoder = new TextEncoder();
+  // Closing the EventSource aborts the request, which kills yt-dlp and stops the pipeline
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  const stream = new ReadableStream({
+    async start(streamController) {
+      const send = (event: string, data: unknown) => {
+        if (controller.signal.aborted) return;
+        streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const result = await runAnalysisPipeline(videoUrl, {
+          providedTranscript,
+          refresh,
+          video,
+          vision,
+          signal: controller.signal,
+          onStageUpdate: ({ stage, status }) => send('stage', { stage, status }),
+          onEvent: ({ type, ...data }) => send(type, data),
+        });
+
+        await recordAnalysis(videoUrl, result, { userId: user!.id, apiKeyId: apiKey?.id ?? null });
+        send('done', result);
+
+        logPerformance({
+          endpoint,
+          method,
+          duration: Date.now() - startTime,
+          success: true,
+          platform: result.platform,
+          cacheHit: result.cacheHit
+        });
+      } catch (error) {
+        const appError = toAppError(error);
+        if (appError.code !== 'CANCELLED') {
+          console.error('[SSE] ❌ Analysis stream failed:', error);
+
+          logError({
+            endpoint,
+            method,
+            code: appError.code,
+            error: appError.message,
+            stack: error instanceof Error ? error.stack : undefined,
+            ip: request.headers.get('x-forwarded-for') || 'unknown',
+            userAgent: request.headers.get('user-agent') || 'unknown'
+          });
+
+          send('failed', {
+            ...toErrorEnvelope(appError),
+            stage: error instanceof PipelineError ? error.stage : undefined
+          });
+        }
+
+        logPerformance({
+          endpoint,
+          method,
+          duration: Date.now() - startTime,
+          success: false,
+          platform: platformManager.getAdapterForUrl(videoUrl)?.platform
+        });
+      } finally {
+        try {
+          streamController.close();
+        } catch {}
+      }
+    },
+    cancel() {
+      controller.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Disable nginx response buffering so events arrive immediately
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession, verifyCredentials } from '@/lib/accounts';
+import { setSessionCookie } from '@/lib/auth';
+import { withApi } from '@/lib/api';
+import { UnauthorizedError } from '@/lib/errors';
+import { LOGIN_SCHEMA } from '@/lib/security';
+import { AUTH_RATE_LIMIT } from '@/lib/rate-limit';
+
+const endpoint = '/api/auth/login';
+
+export const POST = withApi(endpoint, { schema: LOGIN_SCHEMA, rateLimit: AUTH_RATE_LIMIT }, async (request: NextRequest, { input }) => {
+  const user = await verifyCredentials(input.email, input.password);
+  if (!user) {
+    throw new UnauthorizedError('Invalid email or password');
+  }
+
+  const { token, expiresAt } = await createSession(user.id, {
+    ip: request.headers.get('x-forwarded-for') || undefined,
+    userAgent: request.headers.get('user-agent') || undefined
+  });
+  console.log(`[AUTH] 🔑 ${user.email} signed in`);
+
+  const response = NextResponse.json({
+    success: true,
+    data: { user }
+  });
+  setSessionCookie(response, token, expiresAt);
+  return response;
+});
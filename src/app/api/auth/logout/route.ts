@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSession } from '@/lib/accounts';
+import { clearSessionCookie, SESSION_COOKIE } from '@/lib/auth';
+import { withApi } from '@/lib/api';
+
+const endpoint = '/api/auth/logout';
+
+export const POST = withApi(endpoint, {}, async (request: NextRequest, { user }) => {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token && user) {
+    await deleteSession(token);
+  }
+
+  const response = NextResponse.json({
+    success: true,
+    data: { user: null }
+  });
+  clearSessionCookie(response);
+  return response;
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { countUsers } from '@/lib/accounts';
+import { getDb } from '@/lib/db';
+import { withApi } from '@/lib/api';
+
+const endpoint = '/api/auth/me';
+
+// Anonymous requests get user: null rather than a 401 so pages can render their signed-out state
+export const GET = withApi(endpoint, {}, async (request, { user }) => {
+  const accountsEnabled = !!(await getDb());
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      user,
+      accountsEnabled,
+      // No accounts yet: the first registration creates the admin
+      needsSetup: accountsEnabled && !user ? (await countUsers()) === 0 : false
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { countUsers, createFirstAdmin, createSession, createUser } from '@/lib/accounts';
+import { assertRole, assertScope, setSessionCookie } from '@/lib/auth';
+import { withApi } from '@/lib/api';
+import { REGISTER_SCHEMA } from '@/lib/security';
+import { AUTH_RATE_LIMIT } from '@/lib/rate-limit';
+
+const endpoint = '/api/auth/register';
+
+// The very first account becomes the admin and is signed in; after that only admins create accounts
+export const POST = withApi(endpoint, { schema: REGISTER_SCHEMA, rateLimit: AUTH_RATE_LIMIT }, async (request: NextRequest, { input, user, apiKey }) => {
+  // The count skips hashing on ordinary registrations; createFirstAdmin re-checks under a lock
+  const admin = (await countUsers()) === 0
+    ? await createFirstAdmin({ email: input.email, password: input.password })
+    : null;
+  if (admin) {
+    const { token, expiresAt } = await createSession(admin.id, {
+      ip: request.headers.get('x-forwarded-for') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      data: { user: admin }
+    }, { status: 201 });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  }
+
+  assertRole(user, 'admin');
+  assertScope({ user, apiKey }, 'admin');
+  const created = await createUser({ email: input.email, password: input.password, role: input.role || 'member' });
+
+  return NextResponse.json({
+    success: true,
+    data: { user: created }
+  }, { status: 201 });
+});
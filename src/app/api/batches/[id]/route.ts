@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@/lib/accounts';
+import { AnalysisBatch, cancelAnalysisBatch, getAnalysisBatch } from '@/lib/batches';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const endpoint = '/api/batches/[id]';
+
+// Other users' batches are reported as missing, like their analyses
+async function getOwnBatch(id: string, user: User): Promise<AnalysisBatch> {
+  const batch = await getAnalysisBatch(id);
+  if (!batch || (batch.owner.userId !== user.id && user.role !== 'admin')) {
+    throw new NotFoundError('Batch not found');
+  }
+  return batch;
+}
+
+export const GET = withApi<undefined, RouteContext>(endpoint, { auth: 'member', scope: 'analyze' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  const batch = await getOwnBatch(id, user!);
+
+  return NextResponse.json({
+    success: true,
+    data: batch
+  });
+});
+
+export const DELETE = withApi<undefined, RouteContext>(endpoint, { auth: 'member', scope: 'analyze' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  await getOwnBatch(id, user!);
+  const batch = await cancelAnalysisBatch(id);
+
+  return NextResponse.json({
+    success: true,
+    data: batch
+  });
+});
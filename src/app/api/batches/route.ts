@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAnalysisBatch } from '@/lib/batches';
+import { withApi } from '@/lib/api';
+import { BATCH_REQUEST_SCHEMA } from '@/lib/security';
+import { RATE_LIMIT_COSTS } from '@/lib/rate-limit';
+
+const endpoint = '/api/batches';
+
+export const POST = withApi<z.infer<typeof BATCH_REQUEST_SCHEMA>>(endpoint, { schema: BATCH_REQUEST_SCHEMA, rateLimit: { cost: RATE_LIMIT_COSTS.batch }, auth: 'member', scope: 'analyze' }, async (request: NextRequest, { input, user, apiKey }) => {
+  const batch = await createAnalysisBatch(input, { userId: user!.id, apiKeyId: apiKey?.id ?? null });
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      id: batch.id,
+      status: batch.status,
+      total: batch.items.length,
+      statusUrl: `/api/batches/${batch.id}`
+    }
+  }, { status: 202 });
+});
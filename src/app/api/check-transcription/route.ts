@@ -1,84 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { checkAssemblyAIStatus } from '@/lib/assemblyai';
+import { withApi } from '@/lib/api';
+import { AppError, UpstreamError, ValidationError } from '@/lib/errors';
 
-export async function GET(request: NextRequest) {
+export const GET = withApi('/api/check-transcription', { auth: 'member', scope: 'analyze' }, async (request: NextRequest) => {
   console.log('[DEBUG-CHECK] 🚀 check-transcription endpoint called');
-  
-  try {
-    const url = new URL(request.url);
-    const transcriptId = url.searchParams.get('id');
 
-    console.log(`[DEBUG-CHECK] 📝 Transcript ID: ${transcriptId}`);
+  const url = new URL(request.url);
+  const transcriptId = url.searchParams.get('id');
 
-    if (!transcriptId) {
-      console.log('[DEBUG-CHECK] ❌ Missing transcript ID');
-      return NextResponse.json({
-        success: false,
-        error: 'Missing transcript ID'
-      }, { status: 400 });
-    }
+  console.log(`[DEBUG-CHECK] 📝 Transcript ID: ${transcriptId}`);
 
-    console.log(`[DEBUG-CHECK] 🔍 Checking AssemblyAI status for: ${transcriptId}`);
+  if (!transcriptId) {
+    throw new ValidationError('Missing transcript ID');
+  }
 
-    let status;
-    try {
-      status = await checkAssemblyAIStatus(transcriptId);
-      console.log(`[DEBUG-CHECK] ✅ AssemblyAI status check successful:`, status);
-    } catch (assemblyError) {
-      console.error('[DEBUG-CHECK] ❌ AssemblyAI status check failed:', assemblyError);
-      
-      // Return a more specific error instead of 500
-      return NextResponse.json({
-        success: false,
-        status: 'error',
-        error: `AssemblyAI status check failed: ${assemblyError instanceof Error ? assemblyError.message : 'Unknown error'}`,
-        message: 'Transcription service temporarily unavailable. Please try again in a few minutes.'
-      }, { status: 200 }); // Use 200 instead of 500 to avoid frontend errors
-    }
-    
-    if (!status) {
-      console.log('[DEBUG-CHECK] ❌ No status returned from AssemblyAI');
-      return NextResponse.json({
-        success: false,
-        status: 'unknown',
-        error: 'No status information available',
-        message: 'Transcription status unknown. Please try again.'
-      }, { status: 200 }); // Use 200 instead of 500
-    }
+  console.log(`[DEBUG-CHECK] 🔍 Checking AssemblyAI status for: ${transcriptId}`);
 
-    if (status.status === 'completed' && status.text) {
-      console.log(`[DEBUG-CHECK] 🎉 Transcription completed! Text length: ${status.text.length}`);
-      return NextResponse.json({
-        success: true,
-        status: 'completed',
-        transcript: status.text,
-        message: 'Transcription completed successfully!'
-      });
-    } else if (status.status === 'error') {
-      console.log(`[DEBUG-CHECK] ❌ Transcription error: ${status.error}`);
-      return NextResponse.json({
-        success: false,
-        status: 'error',
-        error: status.error || 'Transcription failed',
-        message: 'Transcription failed. Please try a different video.'
-      }, { status: 200 }); // Use 200 instead of 500
-    } else {
-      console.log(`[DEBUG-CHECK] ⏳ Transcription in progress: ${status.status}`);
-      return NextResponse.json({
-        success: true,
-        status: status.status,
-        message: `Transcription is ${status.status}. Please wait...`
-      });
-    }
+  let status;
+  try {
+    status = await checkAssemblyAIStatus(transcriptId);
+    console.log(`[DEBUG-CHECK] ✅ AssemblyAI status check successful:`, status);
+  } catch (assemblyError) {
+    throw new UpstreamError(
+      `AssemblyAI status check failed: ${assemblyError instanceof Error ? assemblyError.message : 'Unknown error'}`,
+      'assemblyai'
+    );
+  }
 
-  } catch (error) {
-    console.error('[DEBUG-CHECK] ❌ Unexpected error:', error);
+  // checkAssemblyAIStatus returns null only when no API key is configured
+  if (!status) {
+    throw new AppError('NOT_CONFIGURED', 'AssemblyAI transcription is not configured');
+  }
+
+  if (status.status === 'completed' && status.text) {
+    console.log(`[DEBUG-CHECK] 🎉 Transcription completed! Text length: ${status.text.length}`);
     return NextResponse.json({
-      success: false,
-      status: 'error',
-      error: 'Unexpected error occurred',
-      details: error instanceof Error ? error.message : 'Unknown error',
-      message: 'Something went wrong. Please try again.'
-    }, { status: 200 }); // Use 200 instead of 500
+      success: true,
+      status: 'completed',
+      transcript: status.text,
+      message: 'Transcription completed successfully!'
+    });
+  }
+
+  if (status.status === 'error') {
+    throw new AppError('TRANSCRIPTION_FAILED', status.error || 'Transcription failed');
   }
-}
+
+  console.log(`[DEBUG-CHECK] ⏳ Transcription in progress: ${status.status}`);
+  return NextResponse.json({
+    success: true,
+    status: status.status,
+    message: `Transcription is ${status.status}. Please wait...`
+  });
+});
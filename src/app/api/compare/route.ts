@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { compareVideos } from '@/lib/comparison';
+import { platformManager } from '@/lib/platforms/manager';
+import { withApi } from '@/lib/api';
+import { AppError } from '@/lib/errors';
+import { COMPARE_REQUEST_SCHEMA } from '@/lib/security';
+import { RATE_LIMIT_COSTS } from '@/lib/rate-limit';
+
+const endpoint = '/api/compare';
+
+export const POST = withApi<z.infer<typeof COMPARE_REQUEST_SCHEMA>>(endpoint, { schema: COMPARE_REQUEST_SCHEMA, rateLimit: { cost: RATE_LIMIT_COSTS.comparison }, auth: 'member', scope: 'analyze' }, async (request: NextRequest, { input, user, apiKey }) => {
+  const unsupported = input.urls.find(url => !platformManager.isUrlSupported(url));
+  if (unsupported) {
+    throw new AppError('UNSUPPORTED_PLATFORM', `Unsupported video URL: ${unsupported}. Please use YouTube, Instagram, or TikTok links.`);
+  }
+
+  const comparison = await compareVideos(input, user!, { userId: user!.id, apiKeyId: apiKey?.id ?? null });
+
+  return NextResponse.json({
+    success: true,
+    data: comparison
+  });
+});
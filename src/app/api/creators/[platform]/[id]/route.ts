@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { buildCreatorProfile } from '@/lib/creators';
+import { withApi } from '@/lib/api';
+import { CREATOR_PARAMS_SCHEMA, CREATOR_QUERY_SCHEMA } from '@/lib/security';
+import { RATE_LIMIT_COSTS } from '@/lib/rate-limit';
+
+type RouteContext = { params: Promise<{ platform: string; id: string }> };
+
+const endpoint = '/api/creators/[platform]/[id]';
+
+export const GET = withApi<z.infer<typeof CREATOR_QUERY_SCHEMA>, RouteContext>(endpoint, { schema: CREATOR_QUERY_SCHEMA, rateLimit: { cost: RATE_LIMIT_COSTS.creatorProfile }, auth: 'member', scope: 'analyze' }, async (request: NextRequest, { input, context, user, apiKey }) => {
+  // Next.js hands over the segment still percent-encoded, e.g. %40handle
+  const params = await context.params;
+  const { platform, id } = CREATOR_PARAMS_SCHEMA.parse({ platform: params.platform, id: decodeURIComponent(params.id) });
+
+  const profile = await buildCreatorProfile(platform, id, input, { userId: user!.id, apiKeyId: apiKey?.id ?? null });
+
+  return NextResponse.json({
+    success: true,
+    data: profile
+  });
+});
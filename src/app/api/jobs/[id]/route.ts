@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@/lib/accounts';
+import { AnalysisJob, getAnalysisJob, cancelAnalysisJob } from '@/lib/jobs';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const endpoint = '/api/jobs/[id]';
+
+// Other users' jobs are reported as missing, like their analyses and batches
+async function getOwnJob(id: string, user: User): Promise<AnalysisJob> {
+  const job = await getAnalysisJob(id);
+  if (!job || (job.owner.userId !== user.id && user.role !== 'admin')) {
+    throw new NotFoundError('Job not found');
+  }
+  return job;
+}
+
+export const GET = withApi<undefined, RouteContext>(endpoint, { auth: 'member', scope: 'analyze' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  const job = await getOwnJob(id, user!);
+
+  return NextResponse.json({
+    success: true,
+    data: job
+  });
+});
+
+export const DELETE = withApi<undefined, RouteContext>(endpoint, { auth: 'member', scope: 'analyze' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  await getOwnJob(id, user!);
+  const job = await cancelAnalysisJob(id);
+
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: job
+  });
+});
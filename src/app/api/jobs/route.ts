@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAnalysisJob, getJobQueueStats } from '@/lib/jobs';
+import { platformManager } from '@/lib/platforms/manager';
+import { withApi } from '@/lib/api';
+import { AppError } from '@/lib/errors';
+import { ANALYZE_REQUEST_SCHEMA } from '@/lib/security';
+import { RATE_LIMIT_COSTS } from '@/lib/rate-limit';
+
+const endpoint = '/api/jobs';
+
+export const POST = withApi(endpoint, { schema: ANALYZE_REQUEST_SCHEMA, rateLimit: { cost: RATE_LIMIT_COSTS.analysis }, auth: 'member', scope: 'analyze' }, async (request: NextRequest, { input, user, apiKey }) => {
+  const { url: videoUrl, transcript, refresh, video, vision } = input;
+
+  if (!platformManager.isUrlSupported(videoUrl)) {
+    throw new AppError('UNSUPPORTED_PLATFORM', 'Unsupported video URL. Please use a YouTube, Instagram, or TikTok link.');
+  }
+
+  const job = await createAnalysisJob({ url: videoUrl, transcript: transcript || null, refresh, video, vision }, { userId: user!.id, apiKeyId: apiKey?.id ?? null });
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      id: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`
+    }
+  }, { status: 202 });
+});
+
+// Worker load is operational detail, for admins only
+export const GET = withApi(endpoint, { auth: 'admin', scope: 'admin' }, async () => {
+  return NextResponse.json({
+    success: true,
+    data: getJobQueueStats()
+  });
+});
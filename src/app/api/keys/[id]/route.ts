@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeApiKey } from '@/lib/api-keys';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const endpoint = '/api/keys/[id]';
+
+export const DELETE = withApi<undefined, RouteContext>(endpoint, { auth: 'member' }, async (request: NextRequest, { context, user }) => {
+  const { id } = await context.params;
+  const apiKey = await revokeApiKey(user!, id);
+
+  if (!apiKey) {
+    throw new NotFoundError('API key not found');
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { apiKey }
+  });
+});
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createApiKey, listApiKeys } from '@/lib/api-keys';
+import { withApi } from '@/lib/api';
+import { API_KEY_CREATE_SCHEMA } from '@/lib/security';
+
+const endpoint = '/api/keys';
+
+// Key management needs a signed-in session; an API key cannot mint or list keys
+export const GET = withApi(endpoint, { auth: 'member' }, async (request: NextRequest, { user }) => {
+  const keys = await listApiKeys(user!.id);
+
+  return NextResponse.json({
+    success: true,
+    data: { keys }
+  });
+});
+
+// The plaintext key is only ever returned here
+export const POST = withApi<z.infer<typeof API_KEY_CREATE_SCHEMA>>(endpoint, { schema: API_KEY_CREATE_SCHEMA, auth: 'member' }, async (request: NextRequest, { input, user }) => {
+  const { key, apiKey } = await createApiKey(user!, input);
+
+  return NextResponse.json({
+    success: true,
+    data: { key, apiKey }
+  }, { status: 201 });
+});
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getMockMode } from '@/lib/mock-external';
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,6 +10,7 @@ export async function GET(request: NextRequest) {
       GEMINI_API_KEY: !!process.env.GEMINI_API_KEY,
       RAPIDAPI_KEY: !!process.env.RAPIDAPI_KEY,
       NODE_ENV: process.env.NODE_ENV,
+      MOCK_EXTERNAL: getMockMode(),
     };
 
     // Check if basic imports work
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { deleteUser, updateUserRole } from '@/lib/accounts';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+import { USER_UPDATE_SCHEMA } from '@/lib/security';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const endpoint = '/api/users/[id]';
+
+export const PATCH = withApi<z.infer<typeof USER_UPDATE_SCHEMA>, RouteContext>(endpoint, { schema: USER_UPDATE_SCHEMA, auth: 'admin', scope: 'admin' }, async (request: NextRequest, { input, context }) => {
+  const { id } = await context.params;
+  const user = await updateUserRole(id, input.role);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { user }
+  });
+});
+
+export const DELETE = withApi<undefined, RouteContext>(endpoint, { auth: 'admin', scope: 'admin' }, async (request: NextRequest, { context }) => {
+  const { id } = await context.params;
+
+  if (!(await deleteUser(id))) {
+    throw new NotFoundError('User not found');
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { id }
+  });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listUsers } from '@/lib/accounts';
+import { withApi } from '@/lib/api';
+
+const endpoint = '/api/users';
+
+export const GET = withApi(endpoint, { auth: 'admin', scope: 'admin' }, async () => {
+  const users = await listUsers();
+
+  return NextResponse.json({
+    success: true,
+    data: { users }
+  });
+});
@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuthGuard } from "@/contexts/AuthContext";
+
+type SourceType = "playlist" | "channel" | "tiktok" | "csv";
+type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+interface BatchReport {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  averages: {
+    views: number | null;
+    engagementRate: number | null;
+    lengthSeconds: number | null;
+    wordsPerMinute: number | null;
+    hookScore: number | null;
+  };
+  distributions: Record<"pace" | "emotion" | "niche" | "entryStyle" | "transcriptSource", Record<string, number>>;
+  topVideos: Array<{ url: string; title: string; views: number | null; engagementRate: number | null; hook: string }>;
+  failures: Array<{ url: string; code: string; message: string }>;
+}
+
+interface AnalysisBatch {
+  id: string;
+  status: "running" | "completed" | "cancelled";
+  items: Array<{ url: string; title?: string; jobId: string }>;
+  progress: Record<JobStatus, number>;
+  report: BatchReport | null;
+}
+
+const SOURCES: Array<{ value: SourceType; label: string; placeholder: string }> = [
+  { value: "playlist", label: "YouTube playlist", placeholder: "https://www.youtube.com/playlist?list=..." },
+  { value: "channel", label: "YouTube channel (latest shorts)", placeholder: "https://www.youtube.com/@channel" },
+  { value: "tiktok", label: "TikTok profile", placeholder: "https://www.tiktok.com/@username" },
+  { value: "csv", label: "CSV of video URLs", placeholder: "" },
+];
+
+const POLL_INTERVAL_MS = 3000;
+
+const INPUT_CLASS = "w-full px-4 py-3 bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors text-sm";
+
+const formatNumber = (value: number | null, digits = 0) =>
+  value === null ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const formatRate = (value: number | null) => value === null ? "—" : `${(value * 100).toFixed(2)}%`;
+
+export default function BulkPage() {
+  const [type, setType] = useState<SourceType>("playlist");
+  const [url, setUrl] = useState("");
+  const [limit, setLimit] = useState(20);
+  const [csv, setCsv] = useState<{ name: string; content: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [batch, setBatch] = useState<AnalysisBatch | null>(null);
+  const { protectedClick } = useAuthGuard();
+
+  const batchId = batch?.id;
+  const finished = !!batch?.report;
+
+  // Poll until every job has finished and the report is in
+  useEffect(() => {
+    if (!batchId || finished) return;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/batches/${batchId}`);
+        const result = await response.json();
+        if (result?.success) setBatch(result.data);
+      } catch {
+        // Keep polling; the next request may succeed
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [batchId, finished]);
+
+  const readCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setCsv({ name: file.name, content: String(reader.result ?? "") });
+    reader.onerror = () => setError("Could not read the CSV file");
+    reader.readAsText(file);
+  };
+
+  const start = async () => {
+    setSubmitting(true);
+    setError(null);
+    setBatch(null);
+    try {
+      const body = type === "csv" ? { type, csv: csv?.content ?? "" } : { type, url, limit };
+      const response = await fetch("/api/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!result?.success) throw new Error(result?.error || `HTTP ${response.status}`);
+
+      const status = await fetch(result.data.statusUrl).then((res) => res.json());
+      if (!status?.success) throw new Error(status?.error || "Failed to load batch");
+      setBatch(status.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start batch");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancel = async () => {
+    if (!batch) return;
+    const response = await fetch(`/api/batches/${batch.id}`, { method: "DELETE" }).catch(() => null);
+    const result = await response?.json().catch(() => null);
+    if (result?.success) setBatch(result.data);
+    else setError("Failed to cancel batch");
+  };
+
+  const source = SOURCES.find((item) => item.value === type)!;
+  const canStart = type === "csv" ? !!csv?.content : url.trim().length > 0;
+  const done = batch ? batch.progress.completed + batch.progress.failed + batch.progress.cancelled : 0;
+  const report = batch?.report;
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Bulk analysis</h1>
+          <p className="text-muted">
+            Analyze a whole playlist, a channel&apos;s latest shorts, a TikTok profile or a CSV of URLs, and get one report.
+          </p>
+        </div>
+
+        <div className="bg-card border border-default rounded-lg p-4 space-y-3">
+          <select value={type} onChange={(e) => setType(e.target.value as SourceType)} className={INPUT_CLASS}>
+            {SOURCES.map((item) => <option key={item.value} value={item.value}>{item.label}</option>)}
+          </select>
+
+          {type === "csv" ? (
+            <div className="space-y-1">
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={readCsv} className="text-sm" />
+              <p className="text-xs text-muted">
+                {csv ? csv.name : "Any column may hold the URLs; up to 50 videos per batch."}
+              </p>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <input
+                placeholder={source.placeholder}
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className={INPUT_CLASS}
+              />
+              <input
+                type="number"
+                min={1}
+                max={50}
+                aria-label="Number of videos"
+                value={limit}
+                onChange={(e) => setLimit(Number(e.target.value))}
+                className={`${INPUT_CLASS} w-24`}
+              />
+            </div>
+          )}
+
+          <button
+            onClick={protectedClick(start)}
+            disabled={submitting || !canStart || (!!batch && !finished)}
+            className="px-6 py-3 bg-accent text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Collecting videos..." : "Start batch"}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {batch && (
+          <div className="bg-card border border-default rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-foreground">
+                {done} of {batch.items.length} finished
+                {batch.progress.running > 0 && ` • ${batch.progress.running} running`}
+                {batch.progress.failed > 0 && ` • ${batch.progress.failed} failed`}
+                {batch.status === "cancelled" && " • cancelled"}
+              </p>
+              {!finished && (
+                <button onClick={cancel} className="text-sm text-red-600 hover:text-red-700">
+                  Cancel
+                </button>
+              )}
+            </div>
+            <div className="h-2 bg-muted/20 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-accent transition-all"
+                style={{ width: `${batch.items.length ? (done / batch.items.length) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="bg-card border border-default rounded-lg p-4 space-y-4">
+              <h2 className="text-xl font-semibold text-foreground">Report</h2>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                <p><span className="text-muted block">Avg views</span>{formatNumber(report.averages.views)}</p>
+                <p><span className="text-muted block">Avg engagement</span>{formatRate(report.averages.engagementRate)}</p>
+                <p><span className="text-muted block">Avg length</span>{report.averages.lengthSeconds === null ? "—" : `${formatNumber(report.averages.lengthSeconds)}s`}</p>
+                <p><span className="text-muted block">Avg words/min</span>{formatNumber(report.averages.wordsPerMinute)}</p>
+                <p><span className="text-muted block">Avg hook score</span>{formatNumber(report.averages.hookScore, 1)}</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                {(["pace", "emotion", "niche"] as const).map((key) => (
+                  <div key={key}>
+                    <h3 className="font-medium text-foreground mb-1 capitalize">{key}</h3>
+                    <ul className="text-muted space-y-0.5">
+                      {Object.entries(report.distributions[key])
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([value, count]) => <li key={value}>{value}: {count}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {report.topVideos.length > 0 && (
+              <div className="bg-card border border-default rounded-lg p-4">
+                <h2 className="text-xl font-semibold text-foreground mb-3">Top videos</h2>
+                <ol className="space-y-3 text-sm">
+                  {report.topVideos.map((video) => (
+                    <li key={video.url}>
+                      <a href={video.url} target="_blank" rel="noopener noreferrer" className="font-medium text-foreground hover:text-accent">
+                        {video.title}
+                      </a>
+                      <p className="text-muted">
+                        {formatNumber(video.views)} views • {formatRate(video.engagementRate)} engagement
+                      </p>
+                      <p className="text-muted">Hook: {video.hook}</p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {report.failures.length > 0 && (
+              <div className="bg-card border border-default rounded-lg p-4 text-sm">
+                <p className="font-medium text-foreground mb-1">Failed</p>
+                {report.failures.map((failure) => (
+                  <p key={failure.url} className="text-muted break-all">{failure.url}: {failure.message}</p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuthGuard } from "@/contexts/AuthContext";
+
+interface ComparisonRow {
+  analysisId: string | null;
+  url: string;
+  platform: string;
+  title: string;
+  creator: string;
+  views: number | null;
+  likes: number | null;
+  comments: number | null;
+  engagementRate: number | null;
+  hook: string;
+  entryStyle: string;
+  structure: string;
+  pace: string;
+  emotion: string;
+  lengthSeconds: number;
+  niche: string;
+  rank: number;
+  topPerformer: boolean;
+}
+
+interface ComparisonResult {
+  rows: ComparisonRow[];
+  synthesis: {
+    summary: string;
+    patterns: Array<{ aspect: string; pattern: string }>;
+    differences: string[];
+    recommendations: string[];
+  } | null;
+  failed: Array<{ url: string; error: string }>;
+}
+
+// Table rows: one per compared field, one column per video
+const FIELDS: Array<{ label: string; value: (row: ComparisonRow) => string }> = [
+  { label: "Views", value: (row) => row.views?.toLocaleString() ?? "—" },
+  { label: "Engagement", value: (row) => row.engagementRate === null ? "—" : `${(row.engagementRate * 100).toFixed(2)}%` },
+  { label: "Length", value: (row) => `${row.lengthSeconds}s` },
+  { label: "Pace", value: (row) => row.pace },
+  { label: "Emotion", value: (row) => row.emotion },
+  { label: "Hook", value: (row) => row.hook },
+  { label: "Entry style", value: (row) => row.entryStyle },
+  { label: "Structure", value: (row) => row.structure },
+  { label: "Niche", value: (row) => row.niche },
+];
+
+export default function ComparePage() {
+  const [urls, setUrls] = useState("");
+  const [analysisIds, setAnalysisIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const { protectedClick } = useAuthGuard();
+
+  // The History page links here with ?ids=<analysis id>,<analysis id>
+  useEffect(() => {
+    const ids = new URLSearchParams(window.location.search).get("ids");
+    if (ids) setAnalysisIds(ids.split(",").filter(Boolean));
+  }, []);
+
+  const urlList = urls.split(/\s+/).map((url) => url.trim()).filter(Boolean);
+  const count = analysisIds.length + urlList.length;
+
+  const compare = async () => {
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisIds, urls: urlList }),
+      });
+      const data = await response.json();
+      if (!data?.success) throw new Error(data?.error || `HTTP ${response.status}`);
+      setResult(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Comparison failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Compare videos</h1>
+          <p className="text-muted">
+            Line up 2–10 shorts side by side and see what the best performers have in common.
+          </p>
+        </div>
+
+        <div className="bg-card border border-default rounded-lg p-4 space-y-3">
+          {analysisIds.length > 0 && (
+            <p className="text-sm text-muted">
+              {analysisIds.length} {analysisIds.length === 1 ? "video" : "videos"} from your history.{" "}
+              <button onClick={() => setAnalysisIds([])} className="underline hover:text-foreground">Clear</button>
+            </p>
+          )}
+          <textarea
+            rows={5}
+            placeholder="Paste video URLs, one per line"
+            value={urls}
+            onChange={(e) => setUrls(e.target.value)}
+            className="w-full px-4 py-3 bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors text-sm"
+          />
+          <button
+            onClick={protectedClick(compare)}
+            disabled={loading || count < 2 || count > 10}
+            className="px-6 py-3 bg-accent text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Analyzing and comparing..." : `Compare ${count} videos`}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {result && (
+          <>
+            {result.failed.length > 0 && (
+              <div className="bg-card border border-default rounded-lg p-4 text-sm">
+                <p className="font-medium text-foreground mb-1">Skipped</p>
+                {result.failed.map((failure) => (
+                  <p key={failure.url} className="text-muted break-all">{failure.url}: {failure.error}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-card border border-default rounded-lg overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-default">
+                    <th className="p-3 text-left text-muted font-medium w-32"></th>
+                    {result.rows.map((row) => (
+                      <th key={row.url} className={`p-3 text-left align-top min-w-[14rem] ${row.topPerformer ? "bg-accent/10" : ""}`}>
+                        <span className="text-xs text-muted">#{row.rank}{row.topPerformer ? " • top performer" : ""}</span>
+                        <a href={row.url} target="_blank" rel="noopener noreferrer" className="block font-semibold text-foreground hover:text-accent line-clamp-2">
+                          {row.title}
+                        </a>
+                        <span className="text-xs text-muted">{row.creator} • {row.platform}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {FIELDS.map((field) => (
+                    <tr key={field.label} className="border-b border-default last:border-0">
+                      <td className="p-3 text-muted font-medium align-top">{field.label}</td>
+                      {result.rows.map((row) => (
+                        <td key={row.url} className={`p-3 align-top text-foreground ${row.topPerformer ? "bg-accent/10" : ""}`}>
+                          {field.value(row)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {result.synthesis ? (
+              <div className="bg-card border border-default rounded-lg p-4 space-y-4">
+                <h2 className="text-xl font-semibold text-foreground">What the top performers share</h2>
+                <p className="text-foreground">{result.synthesis.summary}</p>
+                <ul className="space-y-2 text-sm">
+                  {result.synthesis.patterns.map((pattern, index) => (
+                    <li key={index}>
+                      <span className="font-medium capitalize">{pattern.aspect}:</span>{" "}
+                      <span className="text-muted">{pattern.pattern}</span>
+                    </li>
+                  ))}
+                </ul>
+                {result.synthesis.differences.length > 0 && (
+                  <div>
+                    <h3 className="font-medium text-foreground mb-1">Where the others differ</h3>
+                    <ul className="list-disc pl-5 text-sm text-muted space-y-1">
+                      {result.synthesis.differences.map((difference, index) => <li key={index}>{difference}</li>)}
+                    </ul>
+                  </div>
+                )}
+                <div>
+                  <h3 className="font-medium text-foreground mb-1">Recommendations</h3>
+                  <ul className="list-disc pl-5 text-sm text-muted space-y-1">
+                    {result.synthesis.recommendations.map((recommendation, index) => <li key={index}>{recommendation}</li>)}
+                  </ul>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted">No LLM is configured for comparisons, so only the table is shown.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
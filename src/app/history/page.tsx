@@ -0,0 +1,285 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+
+type Pace = "slow" | "moderate" | "fast";
+
+interface AnalysisSummary {
+  id: string;
+  url: string;
+  platform: string;
+  metadata: { title: string; creator: string; viewCount?: number; thumbnailUrl?: string };
+  analysis: { hook: string; niche: string; emotion: string; pace: Pace; lengthSeconds: number };
+  excerpt: string;
+  analyzedAt: string;
+}
+
+interface StoredAnalysis extends AnalysisSummary {
+  transcript: string;
+  analysis: AnalysisSummary["analysis"] & { entryStyle: string; structure: string };
+  ideas: Array<{ title: string; hook: string; outline: string }>;
+}
+
+interface Filters {
+  q: string;
+  platform: string;
+  niche: string;
+  creator: string;
+  emotion: string;
+  pace: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: "", platform: "", niche: "", creator: "", emotion: "", pace: "", from: "", to: "" };
+const PAGE_SIZE = 20;
+
+const INPUT_CLASS = "w-full px-3 py-2 bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors text-sm";
+
+export default function HistoryPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<AnalysisSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<StoredAnalysis | null>(null);
+  // Entries ticked for /compare
+  const [checked, setChecked] = useState<string[]>([]);
+
+  const fetchPage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      for (const [key, value] of Object.entries(applied)) {
+        if (!value) continue;
+        // Date inputs give days; include the whole "to" day
+        params.set(key, key === "to" ? `${value}T23:59:59.999Z` : value);
+      }
+      const response = await fetch(`/api/analyses?${params}`);
+      const result = await response.json();
+      if (!result?.success) throw new Error(result?.error || `HTTP ${response.status}`);
+      setItems(result.data.items);
+      setTotal(result.data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, page]);
+
+  useEffect(() => {
+    if (user) fetchPage();
+  }, [user, fetchPage]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const openAnalysis = async (id: string) => {
+    try {
+      const response = await fetch(`/api/analyses/${id}`);
+      const result = await response.json();
+      if (!result?.success) throw new Error(result?.error || `HTTP ${response.status}`);
+      setSelected(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load analysis");
+    }
+  };
+
+  const deleteAnalysis = async (id: string) => {
+    if (!confirm("Remove this analysis from your library?")) return;
+    const response = await fetch(`/api/analyses/${id}`, { method: "DELETE" }).catch(() => null);
+    if (!response?.ok) {
+      setError("Failed to delete analysis");
+      return;
+    }
+    if (selected?.id === id) setSelected(null);
+    fetchPage();
+  };
+
+  const toggleChecked = (id: string) => {
+    setChecked((current) => current.includes(id) ? current.filter((item) => item !== id) : [...current, id]);
+  };
+
+  const setFilter = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters((current) => ({ ...current, [key]: e.target.value }));
+
+  if (authLoading) return null;
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Link href="/login?next=/history" className="px-6 py-3 bg-accent text-white rounded-lg font-medium">
+          Sign in to see your analyses
+        </Link>
+      </div>
+    );
+  }
+
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">History</h1>
+            <p className="text-muted">Every video you have analyzed, searchable by transcript.</p>
+          </div>
+          {checked.length > 0 && (
+            <Link
+              href={`/compare?ids=${checked.join(",")}`}
+              aria-disabled={checked.length < 2 || checked.length > 10}
+              className={`px-4 py-2 bg-accent text-white rounded-lg text-sm font-medium whitespace-nowrap ${checked.length < 2 || checked.length > 10 ? "opacity-50 pointer-events-none" : ""}`}
+            >
+              Compare {checked.length} selected
+            </Link>
+          )}
+        </div>
+
+        <form onSubmit={applyFilters} className="bg-card border border-default rounded-lg p-4 space-y-3">
+          <input
+            placeholder="Search titles and transcripts"
+            value={filters.q}
+            onChange={setFilter("q")}
+            className={INPUT_CLASS}
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <select value={filters.platform} onChange={setFilter("platform")} className={INPUT_CLASS}>
+              <option value="">All platforms</option>
+              <option value="youtube">YouTube</option>
+              <option value="instagram">Instagram</option>
+              <option value="tiktok">TikTok</option>
+            </select>
+            <select value={filters.pace} onChange={setFilter("pace")} className={INPUT_CLASS}>
+              <option value="">Any pace</option>
+              <option value="slow">Slow</option>
+              <option value="moderate">Moderate</option>
+              <option value="fast">Fast</option>
+            </select>
+            <input placeholder="Niche" value={filters.niche} onChange={setFilter("niche")} className={INPUT_CLASS} />
+            <input placeholder="Creator" value={filters.creator} onChange={setFilter("creator")} className={INPUT_CLASS} />
+            <input placeholder="Emotion" value={filters.emotion} onChange={setFilter("emotion")} className={INPUT_CLASS} />
+            <input type="date" aria-label="From" value={filters.from} onChange={setFilter("from")} className={INPUT_CLASS} />
+            <input type="date" aria-label="To" value={filters.to} onChange={setFilter("to")} className={INPUT_CLASS} />
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 px-4 py-2 bg-accent text-white rounded-lg text-sm font-medium">
+                Apply
+              </button>
+              <button
+                type="button"
+                onClick={() => { setFilters(EMPTY_FILTERS); setApplied(EMPTY_FILTERS); setPage(1); }}
+                className="px-4 py-2 border border-default rounded-lg text-sm text-muted hover:text-foreground"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <p className="text-sm text-muted">{loading ? "Loading..." : `${total} ${total === 1 ? "analysis" : "analyses"}`}</p>
+            {items.map((item) => (
+              <div key={item.id} className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  aria-label="Select for comparison"
+                  checked={checked.includes(item.id)}
+                  onChange={() => toggleChecked(item.id)}
+                  className="mt-5"
+                />
+                <button
+                  onClick={() => openAnalysis(item.id)}
+                  className={`flex-1 min-w-0 text-left bg-card border rounded-lg p-4 transition-colors ${selected?.id === item.id ? "border-accent" : "border-default hover:border-accent/50"}`}
+                >
+                  <p className="font-medium text-foreground line-clamp-1">{item.metadata.title}</p>
+                  <p className="text-sm text-muted">
+                    {item.metadata.creator} • {item.platform} • {new Date(item.analyzedAt).toLocaleDateString()}
+                  </p>
+                  <p className="text-sm text-muted mt-1">
+                    {item.analysis.niche} • {item.analysis.emotion} • {item.analysis.pace}
+                  </p>
+                  <p className="text-xs text-muted mt-2 line-clamp-2">{item.excerpt}</p>
+                </button>
+              </div>
+            ))}
+            {pages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <button
+                  disabled={page <= 1 || loading}
+                  onClick={() => setPage(page - 1)}
+                  className="px-4 py-2 border border-default rounded-lg text-sm disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-muted">Page {page} of {pages}</span>
+                <button
+                  disabled={page >= pages || loading}
+                  onClick={() => setPage(page + 1)}
+                  className="px-4 py-2 border border-default rounded-lg text-sm disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+
+          {selected && (
+            <div className="bg-card border border-default rounded-lg p-4 space-y-4 lg:sticky lg:top-4 self-start">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <a href={selected.url} target="_blank" rel="noopener noreferrer" className="font-semibold text-foreground hover:text-accent">
+                    {selected.metadata.title}
+                  </a>
+                  <p className="text-sm text-muted">{selected.metadata.creator}</p>
+                </div>
+                <button onClick={() => deleteAnalysis(selected.id)} className="text-sm text-red-600 hover:text-red-700">
+                  Delete
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p><span className="text-muted">Niche:</span> {selected.analysis.niche}</p>
+                <p><span className="text-muted">Emotion:</span> {selected.analysis.emotion}</p>
+                <p><span className="text-muted">Pace:</span> {selected.analysis.pace}</p>
+                <p><span className="text-muted">Length:</span> {selected.analysis.lengthSeconds}s</p>
+                <p className="col-span-2"><span className="text-muted">Hook:</span> {selected.analysis.hook}</p>
+                <p className="col-span-2"><span className="text-muted">Structure:</span> {selected.analysis.structure}</p>
+              </div>
+
+              {selected.ideas.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-foreground mb-2">Ideas</h3>
+                  <ul className="space-y-2 text-sm">
+                    {selected.ideas.map((idea, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{idea.title}</span>
+                        <span className="text-muted"> — {idea.hook}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h3 className="font-medium text-foreground mb-2">Transcript</h3>
+                <p className="text-sm text-muted whitespace-pre-wrap max-h-64 overflow-y-auto">{selected.transcript}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { Open_Sans, Inter } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
 import { NicheProvider } from "@/contexts/NicheContext";
-import { ProtectionProvider } from "@/contexts/ProtectionContext";
+import { AuthProvider } from "@/contexts/AuthContext";
 import { LayoutClient } from "@/components/layout-client";
 
 const openSans = Open_Sans({
@@ -35,13 +35,13 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange={false}
         >
-          <ProtectionProvider>
+          <AuthProvider>
             <NicheProvider>
               <LayoutClient>
                 {children}
               </LayoutClient>
             </NicheProvider>
-          </ProtectionProvider>
+          </AuthProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+
+export default function LoginPage() {
+  const { user, loading, accountsEnabled, needsSetup, login, register } = useAuth();
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [next, setNext] = useState("/");
+
+  useEffect(() => {
+    const target = new URLSearchParams(window.location.search).get("next");
+    // Only same-site paths, never an open redirect
+    if (target && target.startsWith("/") && !target.startsWith("//")) {
+      setNext(target);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) router.replace(next);
+  }, [user, next, router]);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const message = needsSetup ? await register(email, password) : await login(email, password);
+    setSubmitting(false);
+    if (message) setError(message);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <div className="max-w-md w-full space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-foreground mb-4">
+            {needsSetup ? "Create the admin account" : "Sign in"}
+          </h1>
+          <p className="text-muted">
+            {needsSetup
+              ? "No accounts exist yet. The first account manages everyone else's access."
+              : "Sign in to use the AI analysis and writing tools."}
+          </p>
+        </div>
+
+        {!loading && !accountsEnabled ? (
+          <div className="p-4 bg-card border border-default rounded-lg text-sm text-muted text-center">
+            Accounts are not available because the server has no database configured.
+          </div>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-foreground mb-2">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-foreground mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                required
+                minLength={needsSetup ? 10 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting || loading}
+              className="w-full px-6 py-3 bg-accent text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Please wait..." : needsSetup ? "Create account" : "Sign in"}
+            </button>
+          </form>
+        )}
+
+        {!needsSetup && accountsEnabled && (
+          <p className="text-center text-sm text-muted">
+            Need an account? Ask an admin to create one for you.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
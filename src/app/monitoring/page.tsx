@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
 interface MonitoringData {
@@ -10,7 +11,7 @@ interface MonitoringData {
       total: number;
       recent: number;
       byEndpoint: Record<string, number>;
-      byType: Record<string, number>;
+      byCode: Record<string, number>;
     };
     performance: {
       total: number;
@@ -38,6 +39,7 @@ interface MonitoringData {
     errors: Array<{
       endpoint: string;
       method: string;
+      code?: string;
       error: string;
       timestamp: string;
       ip?: string;
@@ -70,8 +72,8 @@ export default function MonitoringPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
-  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
-  const [adminKey, setAdminKey] = useState<string>('');
+  // 'unauthorized' = signed out, 'forbidden' = signed in without the admin role
+  const [access, setAccess] = useState<'checking' | 'granted' | 'unauthorized' | 'forbidden'>('checking');
 
   // Check admin access on component mount
   useEffect(() => {
@@ -81,38 +83,16 @@ export default function MonitoringPage() {
   const checkAdminAccess = async () => {
     try {
       const response = await fetch('/api/monitoring');
-      if (response.status === 403) {
-        setIsAdmin(false);
+      if (response.status === 401) {
+        setAccess('unauthorized');
       } else if (response.status === 200) {
-        setIsAdmin(true);
+        setAccess('granted');
         fetchData();
       } else {
-        setIsAdmin(false);
+        setAccess('forbidden');
       }
     } catch (error) {
-      setIsAdmin(false);
-    }
-  };
-
-  const authenticateAdmin = async () => {
-    if (!adminKey.trim()) return;
-    
-    try {
-      const response = await fetch('/api/monitoring', {
-        headers: {
-          'x-admin-key': adminKey
-        }
-      });
-      
-      if (response.status === 200) {
-        setIsAdmin(true);
-        setAdminKey('');
-        fetchData();
-      } else {
-        alert('Invalid admin key');
-      }
-    } catch (error) {
-      alert('Authentication failed');
+      setAccess('forbidden');
     }
   };
 
@@ -152,49 +132,35 @@ export default function MonitoringPage() {
     }
   };
 
-  // Show admin authentication form if not authenticated
-  if (isAdmin === false) {
+  // Ask for an admin session if the current one is missing or not an admin
+  if (access === 'unauthorized' || access === 'forbidden') {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="max-w-md w-full space-y-8 p-8">
           <div className="text-center">
             <h1 className="text-3xl font-bold text-gray-900 mb-4">Admin Access Required</h1>
-            <p className="text-gray-600 mb-6">This page requires administrative privileges.</p>
+            <p className="text-gray-600 mb-6">
+              {access === 'unauthorized'
+                ? 'Sign in with an admin account to view monitoring data.'
+                : 'Your account does not have administrative privileges.'}
+            </p>
           </div>
-          
-          <div className="space-y-4">
-            <div>
-              <label htmlFor="adminKey" className="block text-sm font-medium text-gray-700 mb-2">
-                Admin API Key
-              </label>
-              <input
-                id="adminKey"
-                type="password"
-                value={adminKey}
-                onChange={(e) => setAdminKey(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-                placeholder="Enter admin key"
-              />
-            </div>
-            
-            <button
-              onClick={authenticateAdmin}
+
+          {access === 'unauthorized' && (
+            <Link
+              href="/login?next=/monitoring"
               className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
             >
-              Authenticate
-            </button>
-          </div>
-          
-          <div className="text-center text-sm text-gray-500">
-            <p>Or access with admin_secret query parameter in development</p>
-          </div>
+              Sign in
+            </Link>
+          )}
         </div>
       </div>
     );
   }
 
   // Show loading state while checking admin status
-  if (isAdmin === null) {
+  if (access === 'checking') {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -332,13 +298,13 @@ export default function MonitoringPage() {
               </div>
             </div>
             
-            {Object.keys(data.summary.errors.byType).length > 0 && (
+            {Object.keys(data.summary.errors.byCode).length > 0 && (
               <div className="mt-4">
-                <h5 className="font-semibold text-gray-700 mb-2">Errors by Type</h5>
+                <h5 className="font-semibold text-gray-700 mb-2">Errors by Code</h5>
                 <div className="flex flex-wrap gap-2">
-                  {Object.entries(data.summary.errors.byType).map(([type, count]) => (
-                    <span key={type} className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm">
-                      {type}: {count}
+                  {Object.entries(data.summary.errors.byCode).map(([code, count]) => (
+                    <span key={code} className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm">
+                      {code}: {count}
                     </span>
                   ))}
                 </div>
@@ -405,7 +371,7 @@ export default function MonitoringPage() {
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
                           <p className="font-medium text-red-800">{error.error}</p>
-                          <p className="text-sm text-red-600">{error.endpoint} {error.method}</p>
+                          <p className="text-sm text-red-600">{error.endpoint} {error.method}{error.code ? ` · ${error.code}` : ''}</p>
                         </div>
                         <span className="text-xs text-red-500">
                           {new Date(error.timestamp).toLocaleTimeString()}
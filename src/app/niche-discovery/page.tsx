@@ -3,7 +3,7 @@
 import { useState } from "react";
 import Link from "next/link";
 import { ContentIdeas, ContentIdea } from "@/components/ui/content-ideas";
-import { useButtonProtection } from "@/contexts/ProtectionContext";
+import { useAuthGuard } from "@/contexts/AuthContext";
 
 type NicheResult = {
   niche: string;
@@ -20,7 +20,7 @@ type NicheResult = {
 
 export default function NicheDiscoveryPage() {
   const [currentStep, setCurrentStep] = useState<'questionnaire' | 'results'>('questionnaire');
-  const { protectedClick } = useButtonProtection();
+  const { protectedClick } = useAuthGuard();
   const [formData, setFormData] = useState({
     passions: '',
     experience: '',
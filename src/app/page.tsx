@@ -1,12 +1,87 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { ContentIdeas, ContentIdea } from "@/components/ui/content-ideas";
-import { useProtection, useButtonProtection } from "@/contexts/ProtectionContext";
+import { RetentionChart, RetentionEstimate } from "@/components/ui/retention-chart";
+import { useAuthGuard } from "@/contexts/AuthContext";
+
+type Idea = { title: string; hook: string; outline: string; suggestedLength?: number; tone?: string; exampleTranscript?: string };
+
+type TranscriptSegment = { start: number; end: number; text: string; speaker?: string };
+
+type HookAnalysis = {
+  text: string;
+  windowSeconds: number;
+  firstSpeechAt: number;
+  wordsBeforeFirstSecond: number;
+  type: string;
+  slowStart: boolean;
+  score: number;
+  reasons: string[];
+};
+
+type TranscriptMetrics = {
+  wordsPerMinute: number | null;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  fillerWordRatio: number;
+  questionCount: number;
+  secondPersonRatio: number;
+  readabilityGrade: number;
+  lexicalDensity: number;
+};
+
+type AudioAnalysis = {
+  durationSeconds: number;
+  loudness: { integratedLufs: number | null; stdDevLu: number | null; rangeLu: number | null };
+  silence: { gaps: Array<{ start: number; end: number; duration: number }>; totalSeconds: number; ratio: number };
+  content: { speechRatio: number | null };
+  energyEnvelope: number[];
+  pacing: { speakingSeconds: number; wordsPerMinute: number; pace: string } | null;
+};
+
+type AudioProfile = {
+  type: "voice_over" | "on_camera" | "music_only" | "unknown";
+  hasMusic: boolean;
+  musicSegments: Array<{ start: number; end: number; source: string }>;
+  musicCoverage: number;
+  speechCoverage: number;
+  soundEvents: Array<{ start: number; end: number; label: string }>;
+  confidence: string;
+  signals: string[];
+  recommendation: string;
+  advice: string;
+};
+
+type VisualAnalysis = {
+  durationSeconds: number;
+  orientation: string | null;
+  cuts: number[];
+  cutCount: number;
+  cutsPer10Seconds: number;
+  shots: { count: number; medianSeconds: number; longestSeconds: number; distribution: Record<string, number> };
+  firstFrame: { brightness: number; contrast: number; colorfulness: number; edgeDensity: number; focusRegion: string } | null;
+  vision: {
+    onScreenText: Array<{ time: number; text: string }>;
+    visualHook: string;
+    faceOnCamera: boolean;
+    keyframes: Array<{ time: number; description: string }>;
+  } | null;
+};
+
+const AUDIO_PROFILE_LABELS: Record<AudioProfile["type"], string> = {
+  voice_over: "Voice-over",
+  on_camera: "On-camera speech",
+  music_only: "Music only",
+  unknown: "Unclear",
+};
 
 type Analysis = {
-  metadata: { title: string; channel: string; view_count?: number | string; publishedAt?: string };
+  platform?: string;
+  metadata: { title: string; creator: string; viewCount?: number; publishedAt?: string };
   transcript: string;
+  segments: TranscriptSegment[];
+  transcriptSource?: string;
   // Flattened analysis fields from API
   hook: string;
   entryStyle: string;
@@ -15,9 +90,53 @@ type Analysis = {
   lengthSeconds: number;
   pace: string;
   emotion: string;
-  ideas: { title: string; hook: string; outline: string; suggestedLength?: number; tone?: string; exampleTranscript?: string }[];
+  hookAnalysis: HookAnalysis | null;
+  metrics: TranscriptMetrics;
+  retention: RetentionEstimate | null;
+  audio: AudioAnalysis | null;
+  audioProfile: AudioProfile | null;
+  visual: VisualAnalysis | null;
+  ideas: Idea[];
 };
 
+// withApi answers sign-in, rate-limit and validation failures with a JSON envelope instead of opening the stream
+async function describeErrorResponse(response: Response): Promise<string> {
+  const envelope = await response.json().catch(() => null) as { error?: string; code?: string } | null;
+  console.log('[DEBUG] ❌ Stream rejected:', response.status, envelope?.code);
+  if (envelope?.error) return envelope.error;
+  if (response.status === 401) return "Please sign in to analyze videos.";
+  return `HTTP ${response.status}: ${response.statusText}`;
+}
+
+// Reads a text/event-stream body: "event:" and "data:" lines, a blank line ends each event
+async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: string, data: string) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent(event, data.join("\n"));
+    }
+  }
+}
+
+function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
 function generateExampleScript(idea: any, analysis: any): string {
   const targetLength = idea.suggestedLength || 35; // Default to 35 seconds
   const wordsPerSecond = 2.5; // Average speaking rate
@@ -72,27 +191,24 @@ export default function Home() {
   const [url, setUrl] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [data, setData] = useState<Analysis | null>(null);
+  // Filled in progressively as stream events arrive
+  const [data, setData] = useState<Partial<Analysis> | null>(null);
+  // Video mode downloads the video for cuts and composition; vision also describes keyframes
+  const [videoMode, setVideoMode] = useState(false);
+  const [visionMode, setVisionMode] = useState(false);
   
-  // Protection system
-  const protection = useProtection();
-  const buttonProtection = useButtonProtection();
-  const [motivationInput, setMotivationInput] = useState("");
-  const steps = [
-    "Fetching metadata",
-    "Downloading audio",
-    "Transcribing",
-    "Analyzing",
-    "Generating ideas",
+  const { protectedClick } = useAuthGuard();
+  const steps: { stage: string; label: string }[] = [
+    { stage: "metadata", label: "Fetching metadata" },
+    { stage: "transcript", label: "Fetching captions" },
+    { stage: "transcription", label: "Transcribing audio" },
+    { stage: "visual", label: "Analyzing frames" },
+    { stage: "analysis", label: "Analyzing" },
+    { stage: "ideas", label: "Generating ideas" },
   ];
   const [activeStep, setActiveStep] = useState<number>(-1);
   const [progressText, setProgressText] = useState<string>("");
-
-  const handleMotivationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setMotivationInput(value);
-    protection.checkProtection(value);
-  };
+  const cancelRef = useRef<(() => void) | null>(null);
 
   async function onAnalyze() {
     console.log('[DEBUG] 🚀 onAnalyze started');
@@ -106,148 +222,116 @@ export default function Home() {
     console.log(`[DEBUG] 📹 Analyzing URL: ${url}`);
     setLoading(true);
     setActiveStep(0);
-    setProgressText(steps[0]);
-
-    // Use a more robust interval with cleanup
-    let intervalId: NodeJS.Timeout | undefined;
-    const startInterval = () => {
-      console.log('[DEBUG] ⏱️ Starting progress interval');
-      intervalId = setInterval(() => {
-        setActiveStep((prev) => {
-          const next = Math.min(prev + 1, steps.length - 1);
-          setProgressText(steps[next]);
-          console.log(`[DEBUG] 📊 Progress step: ${prev} → ${next}`);
-          return next;
-        });
-      }, 3500);
-    };
-    
-    startInterval();
+    setProgressText(steps[0].label);
+
+    const params = new URLSearchParams({ url });
+    if (videoMode) params.set("video", "true");
+    if (videoMode && visionMode) params.set("vision", "true");
+    // fetch rather than EventSource, so an error envelope sent before the stream opens can be read
+    const stream = new AbortController();
 
     try {
-      console.log('[DEBUG] 🌐 Making API request to analyze-video...');
-      // Use GET method for analyze-video API
-      const response = await fetch(`/api/analyze-video?url=${encodeURIComponent(url)}`, {
-        method: "GET",
+      const response = await fetch(`/api/analyze-video/stream?${params}`, {
+        headers: { Accept: "text/event-stream" },
+        signal: stream.signal
       });
-
-      console.log(`[DEBUG] 📡 API Response status: ${response.status} ${response.statusText}`);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        console.log('[DEBUG] ❌ API Error:', errorData);
-        throw new Error(errorData?.error || `HTTP ${response.status}: ${response.statusText}`);
+      if (!response.ok || !response.body) {
+        throw new Error(await describeErrorResponse(response));
       }
+      const body = response.body;
 
-      const result = await response.json();
-      console.log('[DEBUG] 📋 API Response data:', result);
-      
-      if (!result.success) {
-        console.log('[DEBUG] ❌ API returned success: false');
-        throw new Error(result.error || 'Analysis failed');
-      }
+      // Resolves on "done", rejects on "failed" or a dropped connection
+      const cancelled = await new Promise<boolean>((resolve, reject) => {
+        const handlers = new Map<string, (payload: unknown) => void>();
+        const on = <T,>(event: string, handler: (payload: T) => void) => {
+          handlers.set(event, handler as (payload: unknown) => void);
+        };
 
-      // Check if this is a transcription job that needs polling
-      if (result.status === 'transcribing' && result.assemblyJobId) {
-        console.log(`[DEBUG] 🎯 Transcription started: ${result.assemblyJobId}`);
-        setProgressText("Transcribing audio... This may take 2-5 minutes");
-        
-        // Poll for completion
-        const pollForCompletion = async () => {
-          console.log('[DEBUG] 🔄 Starting polling for transcription completion...');
-          let attempts = 0;
-          const maxAttempts = 60; // 5 minutes max
-          
-          while (attempts < maxAttempts) {
-            console.log(`[DEBUG] 🔍 Polling attempt ${attempts + 1}/${maxAttempts}`);
-            await new Promise(resolve => setTimeout(resolve, 5000)); // Check every 5 seconds
-            
-            try {
-              console.log(`[DEBUG] 📡 Checking transcription status for ID: ${result.assemblyJobId}`);
-              const statusResponse = await fetch(`/api/check-transcription?id=${result.assemblyJobId}`);
-              console.log(`[DEBUG] 📊 Status response: ${statusResponse.status}`);
-              
-              if (statusResponse.ok) {
-                const statusResult = await statusResponse.json();
-                console.log('[DEBUG] 📋 Status result:', statusResult);
-                
-                if (statusResult.status === 'completed' && statusResult.transcript) {
-                  console.log('[DEBUG] ✅ Transcription completed, getting full analysis...');
-                  
-                  // Now get the full analysis with the transcript
-                  const analysisResponse = await fetch(`/api/analyze-video?url=${encodeURIComponent(url)}&transcript=${encodeURIComponent(statusResult.transcript)}`);
-                  console.log(`[DEBUG] 📡 Analysis response: ${analysisResponse.status}`);
-                  
-                  if (analysisResponse.ok) {
-                    const analysisResult = await analysisResponse.json();
-                    console.log('[DEBUG] 📋 Analysis result:', analysisResult);
-                    if (analysisResult.success && analysisResult.data) {
-                      console.log('[DEBUG] 🎉 SUCCESS! Setting data and completing...');
-                      setData(analysisResult.data as Analysis);
-                      setActiveStep(steps.length - 1);
-                      setProgressText("Completed");
-                      return; // Success!
-                    }
-                  }
-                  
-                  throw new Error('Failed to analyze completed transcript');
-                } else if (statusResult.status === 'error') {
-                  console.log('[DEBUG] ❌ Transcription error:', statusResult.error);
-                  throw new Error(`Transcription failed: ${statusResult.error}`);
-                }
-                
-                // Update progress text
-                const progressText = `Transcribing... ${statusResult.status} (${attempts + 1}/${maxAttempts})`;
-                console.log(`[DEBUG] 📊 Progress update: ${progressText}`);
-                setProgressText(progressText);
-              } else {
-                console.log('[DEBUG] ❌ Status check failed:', statusResponse.status);
-              }
-            } catch (pollError) {
-              console.error('[DEBUG] ❌ Polling error:', pollError);
-              // Continue polling unless it's a fatal error
-            }
-            
-            attempts++;
+        cancelRef.current = () => resolve(true);
+
+        on<{ stage: string; status: string }>("stage", ({ stage, status }) => {
+          console.log(`[DEBUG] 📊 Stage ${stage}: ${status}`);
+          const index = steps.findIndex(step => step.stage === stage);
+          if (status === "running" && index >= 0) {
+            setActiveStep(index);
+            setProgressText(steps[index].label);
           }
-          
-          console.log('[DEBUG] ⏰ Polling timed out after 5 minutes');
-          throw new Error('Transcription timed out after 5 minutes');
-        };
-        
-        // Start polling
-        console.log('[DEBUG] 🚀 Starting transcription polling...');
-        pollForCompletion();
-        return;
-      }
-      
-      // Normal response with data
-      if (result.data) {
-        console.log('[DEBUG] 🎉 Normal response with data, setting data...');
-        setData(result.data as Analysis);
+        });
+        on<{ platform: string; metadata: Analysis["metadata"] }>("metadata", ({ platform, metadata }) => {
+          setData(prev => ({ ...prev, platform, metadata }));
+        });
+        on<{ source: string }>("transcript-source", ({ source }) => {
+          if (source === "audio") setProgressText("No captions found, downloading audio");
+          if (source === "ocr") setProgressText("No speech found, read the on-screen text");
+        });
+        on("audio-downloaded", () => setProgressText("Transcribing audio"));
+        on<{ text: string; segments: TranscriptSegment[]; chunk: number; totalChunks: number }>("transcript-partial", ({ text, segments, chunk, totalChunks }) => {
+          setProgressText(`Transcribing audio (${chunk}/${totalChunks})`);
+          setData(prev => ({
+            ...prev,
+            transcript: [prev?.transcript, text].filter(Boolean).join(" "),
+            segments: [...(prev?.segments ?? []), ...segments]
+          }));
+        });
+        on<{ transcript: string; segments: TranscriptSegment[]; source: string }>("transcript", ({ transcript, segments, source }) => {
+          setData(prev => ({ ...prev, transcript, segments, transcriptSource: source }));
+        });
+        on<{
+          analysis: Omit<Analysis, "platform" | "metadata" | "transcript" | "segments" | "transcriptSource" | "hookAnalysis" | "metrics" | "retention" | "audio" | "audioProfile" | "visual" | "ideas">;
+          hookAnalysis: HookAnalysis | null;
+          metrics: TranscriptMetrics;
+          retention: RetentionEstimate | null;
+          audio: AudioAnalysis | null;
+          audioProfile: AudioProfile | null;
+        }>("analysis", ({ analysis, hookAnalysis, metrics, retention, audio, audioProfile }) => {
+          // Flatten analysis fields for rendering
+          setData(prev => ({ ...prev, ...analysis, hookAnalysis, metrics, retention, audio, audioProfile }));
+        });
+        on<{ visual: VisualAnalysis }>("visual", ({ visual }) => {
+          setData(prev => ({ ...prev, visual }));
+        });
+        on<{ idea: Idea }>("idea", ({ idea }) => {
+          setData(prev => ({ ...prev, ideas: [...(prev?.ideas ?? []), idea] }));
+        });
+        on("done", () => resolve(false));
+        on<{ error: string; details?: string }>("failed", ({ error, details }) => {
+          console.log('[DEBUG] ❌ Analysis failed:', error, details);
+          reject(new Error(error || "Analysis failed"));
+        });
+
+        // After "done" or "failed" has settled the promise, the end of the stream changes nothing
+        const lost = () => reject(new Error("Lost connection to the analysis stream"));
+        readEventStream(body, (event, data) => handlers.get(event)?.(JSON.parse(data))).then(lost, lost);
+      });
+
+      if (cancelled) {
+        console.log('[DEBUG] ⏹️ Analysis cancelled');
+        setError("Analysis cancelled.");
+      } else {
+        console.log('[DEBUG] 🎉 Analysis completed');
         setActiveStep(steps.length - 1);
         setProgressText("Completed");
-      } else {
-        console.log('[DEBUG] ❌ No data in response');
-        throw new Error('No analysis data received');
       }
-      
-    } catch (e: any) {
+    } catch (e: unknown) {
       console.error('[DEBUG] ❌ Error in onAnalyze:', e);
       
-      setError(e.message || "Something went wrong");
+      setError(e instanceof Error ? e.message : "Something went wrong");
     } finally {
       console.log('[DEBUG] 🧹 Cleaning up...');
-      if (intervalId) {
-        clearInterval(intervalId);
-        console.log('[DEBUG] ⏱️ Progress interval cleared');
-      }
+      // Closing the stream aborts the server-side pipeline
+      stream.abort();
+      cancelRef.current = null;
       setLoading(false);
       setTimeout(() => setActiveStep(-1), 1200);
       console.log('[DEBUG] ✅ onAnalyze completed');
     }
   }
 
+  function onCancel() {
+    console.log('[DEBUG] ⏹️ Cancelling analysis');
+    cancelRef.current?.();
+  }
+
   useEffect(() => {
     try {
       const sp = new URLSearchParams(window.location.search);
@@ -303,25 +387,6 @@ export default function Home() {
           </div>
         </div>
         
-        {/* Motivational Input - Hidden Protection */}
-        <div className="mb-8">
-          <div className="max-w-md mx-auto">
-            <label className="block text-sm font-medium text-muted mb-2 text-center">
-              💫 What's your motivation for today?
-            </label>
-            <input
-              type="text"
-              placeholder="Share your purpose and inspiration..."
-              value={motivationInput}
-              onChange={handleMotivationChange}
-              className="w-full px-4 py-3 text-base bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors placeholder-text-muted text-center"
-            />
-            <p className="text-xs text-muted mt-2 text-center italic">
-              Start each day with intention and purpose ✨
-            </p>
-          </div>
-        </div>
-        
         {/* Clean Input Section */}
         <div className="mb-16">
           <div className="flex flex-col sm:flex-row gap-4 mb-8">
@@ -333,7 +398,7 @@ export default function Home() {
               className="flex-1 px-6 py-4 text-lg bg-card border border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent transition-colors placeholder-text-muted"
             />
             <button
-              onClick={onAnalyze}
+              onClick={protectedClick(onAnalyze)}
               disabled={loading}
               className="px-8 py-4 bg-accent text-white rounded-lg font-medium text-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-3"
             >
@@ -347,6 +412,16 @@ export default function Home() {
               )}
             </button>
           </div>
+          <div className="flex flex-wrap justify-center gap-6 mb-6 text-sm text-muted">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={videoMode} onChange={(e) => setVideoMode(e.target.checked)} disabled={loading} />
+              Analyze video (cuts, shots, first frame)
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={visionMode} onChange={(e) => setVisionMode(e.target.checked)} disabled={loading || !videoMode} />
+              Describe keyframes with AI
+            </label>
+          </div>
           
           {/* Simple Features List */}
           <div className="text-center text-sm text-muted">
@@ -367,6 +442,14 @@ export default function Home() {
               <div className="text-sm text-muted">
                 Step {activeStep + 1} of {steps.length}
               </div>
+              {loading && (
+                <button
+                  onClick={onCancel}
+                  className="mt-4 text-sm text-muted underline hover:text-foreground transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -380,95 +463,245 @@ export default function Home() {
         {data && (
           <section className="space-y-12">
             {/* Video Overview */}
-            <div className="bg-card border border-default rounded-lg p-8">
-              <h2 className="text-2xl font-medium mb-8">Video Overview</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                <div className="space-y-4">
-                  <div>
-                    <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Title</span>
-                    <span className="text-base">{data.metadata.title}</span>
-                  </div>
-                  <div>
-                    <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Channel</span>
-                    <span className="text-base">{data.metadata.channel}</span>
-                  </div>
-                </div>
-                <div className="space-y-4">
-                  <div>
-                    <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Views</span>
-                    <span className="text-base font-medium accent">{Number((data.metadata as any).view_count ?? 0).toLocaleString()}</span>
+            {data.metadata && (
+              <div className="bg-card border border-default rounded-lg p-8">
+                <h2 className="text-2xl font-medium mb-8">Video Overview</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                  <div className="space-y-4">
+                    <div>
+                      <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Title</span>
+                      <span className="text-base">{data.metadata.title}</span>
+                    </div>
+                    <div>
+                      <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Creator</span>
+                      <span className="text-base">{data.metadata.creator}{data.platform ? <span className="text-xs text-muted capitalize ml-2">({data.platform})</span> : null}</span>
+                    </div>
                   </div>
-                  <div>
-                    <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Published</span>
-                    <span className="text-base">{(data.metadata.publishedAt ? new Date(data.metadata.publishedAt).toLocaleDateString() : '')}</span>
+                  <div className="space-y-4">
+                    <div>
+                      <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Views</span>
+                      <span className="text-base font-medium accent">{Number(data.metadata.viewCount ?? 0).toLocaleString()}</span>
+                    </div>
+                    <div>
+                      <span className="text-xs font-medium text-muted uppercase tracking-wide block mb-1">Published</span>
+                      <span className="text-base">{(data.metadata.publishedAt ? new Date(data.metadata.publishedAt).toLocaleDateString() : '')}</span>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Full Transcript */}
-            <div className="bg-card border border-default rounded-lg p-8">
-              <div className="flex items-center gap-3 mb-6">
-                <h2 className="text-2xl font-medium">Full Transcript</h2>
-                <span className="text-xs bg-muted text-muted px-3 py-1 rounded-full">
-                  {data.transcript.split(' ').length} words
-                </span>
-              </div>
-              <div className="bg-muted rounded-lg p-6 max-h-80 overflow-y-auto">
-                <pre className="whitespace-pre-wrap leading-relaxed text-sm">{data.transcript}</pre>
+            {data.transcript && (
+              <div className="bg-card border border-default rounded-lg p-8">
+                <div className="flex items-center gap-3 mb-6">
+                  <h2 className="text-2xl font-medium">{data.transcriptSource === "ocr" ? "On-screen Text" : "Full Transcript"}</h2>
+                  <span className="text-xs bg-muted text-muted px-3 py-1 rounded-full">
+                    {data.transcript.split(' ').length} words
+                  </span>
+                </div>
+                <div className="bg-muted rounded-lg p-6 max-h-80 overflow-y-auto">
+                  {data.segments && data.segments.length > 0 ? (
+                    <div className="space-y-2 text-sm">
+                      {data.segments.map((segment, index) => (
+                        <div key={index} className="flex gap-4 leading-relaxed">
+                          <span className="font-mono text-muted shrink-0">{formatTimestamp(segment.start)}</span>
+                          <span>{segment.text}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <pre className="whitespace-pre-wrap leading-relaxed text-sm">{data.transcript}</pre>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Analysis Insights */}
-            <div className="bg-card border border-default rounded-lg p-8">
-              <h2 className="text-2xl font-medium mb-8">Content Analysis</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                <div className="p-6 rounded-lg border border-default">
-                  <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Hook Strategy</div>
-                  <div className="text-sm">{data.hook}</div>
-                </div>
-                <div className="p-6 rounded-lg border border-default">
-                  <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Entry Style</div>
-                  <div className="text-sm capitalize">{data.entryStyle}</div>
-                </div>
-                <div className="p-6 rounded-lg border border-default">
-                  <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Niche</div>
-                  <div className="text-sm">{data.niche}</div>
-                </div>
-                <div className="p-6 rounded-lg border border-default">
-                  <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Structure</div>
-                  <div className="text-sm">{data.structure}</div>
-                </div>
-                <div className="p-6 rounded-lg border border-default">
-                  <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Length & Pace</div>
-                  <div className="text-sm">{data.lengthSeconds}s • {data.pace}</div>
-                </div>
-                <div className="p-6 rounded-lg border border-default">
-                  <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Emotion</div>
-                  <div className="text-sm capitalize">{data.emotion}</div>
+            {data.hook !== undefined && (
+              <div className="bg-card border border-default rounded-lg p-8">
+                <h2 className="text-2xl font-medium mb-8">Content Analysis</h2>
+                {data.hookAnalysis && (
+                  <div className="p-6 rounded-lg border border-default mb-6">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className="text-xs font-medium text-muted uppercase tracking-wide">
+                        First {data.hookAnalysis.windowSeconds}s
+                      </div>
+                      <span className="text-xs bg-muted px-3 py-1 rounded-full">{data.hookAnalysis.score}/100</span>
+                      <span className="text-xs bg-muted px-3 py-1 rounded-full capitalize">{data.hookAnalysis.type.replace("_", " ")}</span>
+                      {data.hookAnalysis.slowStart && (
+                        <span className="text-xs bg-red-50 dark:bg-red-900/20 text-red-900 dark:text-red-100 px-3 py-1 rounded-full">Slow start</span>
+                      )}
+                    </div>
+                    <div className="text-sm mb-3">&ldquo;{data.hookAnalysis.text}&rdquo;</div>
+                    <ul className="text-xs text-muted space-y-1">
+                      {data.hookAnalysis.reasons.map((reason, index) => (
+                        <li key={index}>• {reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {data.retention && (
+                  <div className="p-6 rounded-lg border border-default mb-6">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="text-xs font-medium text-muted uppercase tracking-wide">Predicted Retention</div>
+                      <span className="text-xs bg-muted px-3 py-1 rounded-full">{data.retention.averageRetention}% average</span>
+                      <span className="text-xs bg-muted px-3 py-1 rounded-full">{data.retention.completionRate}% to the end</span>
+                    </div>
+                    <RetentionChart retention={data.retention} />
+                    <p className="text-xs text-muted mt-3">Estimated from the transcript&apos;s beats and pauses, not from platform analytics.</p>
+                  </div>
+                )}
+                {data.audio && (
+                  <div className="p-6 rounded-lg border border-default mb-6">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-4">Measured Audio</div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-4">
+                      <p><span className="text-muted block">Loudness</span>{data.audio.loudness.integratedLufs === null ? "—" : `${data.audio.loudness.integratedLufs} LUFS`}</p>
+                      <p><span className="text-muted block">Loudness spread</span>{data.audio.loudness.stdDevLu === null ? "—" : `±${data.audio.loudness.stdDevLu} LU`}</p>
+                      <p><span className="text-muted block">Silence</span>{Math.round(data.audio.silence.ratio * 100)}% ({data.audio.silence.gaps.length} gaps)</p>
+                      <p><span className="text-muted block">Speech vs music</span>{data.audio.content.speechRatio === null ? "—" : `${Math.round(data.audio.content.speechRatio * 100)}% speech`}</p>
+                    </div>
+                    {/* Per-second energy, scaled from -60 dBFS (empty) to 0 dBFS (full height) */}
+                    <div className="flex items-end gap-px h-16" aria-label="Energy per second">
+                      {data.audio.energyEnvelope.map((level, second) => (
+                        <div
+                          key={second}
+                          className="flex-1 bg-accent/60 rounded-sm"
+                          style={{ height: `${Math.max(2, Math.min(100, ((level + 60) / 60) * 100))}%` }}
+                          title={`${second}s: ${level} dBFS`}
+                        />
+                      ))}
+                    </div>
+                    {data.audio.pacing && (
+                      <p className="text-xs text-muted mt-3">
+                        {data.audio.pacing.wordsPerMinute} words per minute over {data.audio.pacing.speakingSeconds}s of talking, pauses excluded ({data.audio.pacing.pace} pace).
+                      </p>
+                    )}
+                  </div>
+                )}
+                {data.visual && (
+                  <div className="p-6 rounded-lg border border-default mb-6">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-4">Visuals</div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-4">
+                      <p><span className="text-muted block">Cuts</span>{data.visual.cutCount} ({data.visual.cutsPer10Seconds} per 10s)</p>
+                      <p><span className="text-muted block">Median shot</span>{data.visual.shots.medianSeconds}s</p>
+                      <p><span className="text-muted block">Longest shot</span>{data.visual.shots.longestSeconds}s</p>
+                      <p><span className="text-muted block">Format</span><span className="capitalize">{data.visual.orientation ?? "—"}</span></p>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {Object.entries(data.visual.shots.distribution).map(([bucket, count]) => (
+                        <span key={bucket} className="text-xs bg-muted px-3 py-1 rounded-full">{bucket}: {count} shots</span>
+                      ))}
+                    </div>
+                    {data.visual.firstFrame && (
+                      <p className="text-sm text-muted mb-2">
+                        First frame: {Math.round(data.visual.firstFrame.brightness * 100)}% brightness, colorfulness {data.visual.firstFrame.colorfulness}, detail {data.visual.firstFrame.focusRegion.replace("-", " ")}
+                      </p>
+                    )}
+                    {data.visual.vision && (
+                      <div className="text-sm space-y-2 mt-3">
+                        <p><span className="text-muted">Visual hook:</span> {data.visual.vision.visualHook}</p>
+                        <p><span className="text-muted">Face on camera:</span> {data.visual.vision.faceOnCamera ? "Yes" : "No"}</p>
+                        {data.visual.vision.onScreenText.length > 0 && (
+                          <ul className="text-xs text-muted space-y-1">
+                            {data.visual.vision.onScreenText.map((item, index) => (
+                              <li key={index}>{formatTimestamp(item.time)} “{item.text}”</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {data.audioProfile && (
+                  <div className="p-6 rounded-lg border border-default mb-6">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className="text-xs font-medium text-muted uppercase tracking-wide">Sound</div>
+                      <span className="text-xs bg-accent-light text-accent px-3 py-1 rounded-full">{AUDIO_PROFILE_LABELS[data.audioProfile.type]}</span>
+                      <span className="text-xs bg-muted px-3 py-1 rounded-full">{data.audioProfile.confidence} confidence</span>
+                    </div>
+                    <p className="text-sm mb-3">{data.audioProfile.advice}</p>
+                    <p className="text-sm text-muted mb-2">
+                      {data.audioProfile.hasMusic
+                        ? `Music over ${Math.round(data.audioProfile.musicCoverage * 100)}% of the video: ${data.audioProfile.musicSegments.map((span) => `${formatTimestamp(span.start)}–${formatTimestamp(span.end)}`).join(", ")}`
+                        : "No music detected"}
+                      {data.audioProfile.soundEvents.length > 0 && ` • Sounds: ${[...new Set(data.audioProfile.soundEvents.map((event) => event.label))].join(", ")}`}
+                    </p>
+                    <ul className="text-xs text-muted space-y-1">
+                      {data.audioProfile.signals.map((signal, index) => (
+                        <li key={index}>• {signal}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  <div className="p-6 rounded-lg border border-default">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Hook Strategy</div>
+                    <div className="text-sm">{data.hook}</div>
+                  </div>
+                  <div className="p-6 rounded-lg border border-default">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Entry Style</div>
+                    <div className="text-sm capitalize">{data.entryStyle}</div>
+                  </div>
+                  <div className="p-6 rounded-lg border border-default">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Niche</div>
+                    <div className="text-sm">{data.niche}</div>
+                  </div>
+                  <div className="p-6 rounded-lg border border-default">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Structure</div>
+                    <div className="text-sm">{data.structure}</div>
+                  </div>
+                  <div className="p-6 rounded-lg border border-default">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Length & Pace</div>
+                    <div className="text-sm">{data.lengthSeconds}s • {data.pace}</div>
+                  </div>
+                  <div className="p-6 rounded-lg border border-default">
+                    <div className="text-xs font-medium text-muted uppercase tracking-wide mb-2">Emotion</div>
+                    <div className="text-sm capitalize">{data.emotion}</div>
+                  </div>
                 </div>
+                {data.metrics && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+                    {[
+                      { label: "Words / min", value: data.metrics.wordsPerMinute ?? "—" },
+                      { label: "Sentences", value: `${data.metrics.sentenceCount} (avg ${data.metrics.averageSentenceLength} words)` },
+                      { label: "Questions", value: data.metrics.questionCount },
+                      { label: "Filler words", value: `${Math.round(data.metrics.fillerWordRatio * 100)}%` },
+                      { label: "\"You\" ratio", value: `${Math.round(data.metrics.secondPersonRatio * 100)}%` },
+                      { label: "Reading grade", value: data.metrics.readabilityGrade },
+                      { label: "Lexical density", value: `${Math.round(data.metrics.lexicalDensity * 100)}%` },
+                    ].map(metric => (
+                      <div key={metric.label} className="p-4 rounded-lg bg-muted">
+                        <div className="text-xs text-muted uppercase tracking-wide mb-1">{metric.label}</div>
+                        <div className="text-sm font-medium">{metric.value}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-            </div>
+            )}
 
             {/* Content Ideas */}
-            <ContentIdeas 
-              ideas={(data?.ideas ?? []).map(idea => ({
-                ...idea,
-                exampleTranscript: generateExampleScript(idea, {
-                  hook: data.hook,
-                  entryStyle: data.entryStyle,
-                  niche: data.niche,
-                  structure: data.structure,
-                  lengthSeconds: data.lengthSeconds,
-                  pace: data.pace,
-                  emotion: data.emotion,
-                })
-              }))}
-              title="Content Ideas for You"
-              showFormat={false}
-              showScript={true}
-              showActions={false}
-            />
+            {data.ideas && data.ideas.length > 0 && (
+              <ContentIdeas 
+                ideas={(data?.ideas ?? []).map(idea => ({
+                  ...idea,
+                  exampleTranscript: generateExampleScript(idea, {
+                    hook: data.hook,
+                    entryStyle: data.entryStyle,
+                    niche: data.niche,
+                    structure: data.structure,
+                    lengthSeconds: data.lengthSeconds,
+                    pace: data.pace,
+                    emotion: data.emotion,
+                  })
+                }))}
+                title="Content Ideas for You"
+                showFormat={false}
+                showScript={true}
+                showActions={false}
+              />
+            )}
           </section>
         )}
 
@@ -3,12 +3,12 @@
 import { useState, useEffect, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import { useNiche } from "@/contexts/NicheContext";
-import { useButtonProtection } from "@/contexts/ProtectionContext";
+import { useAuthGuard } from "@/contexts/AuthContext";
 import Link from "next/link";
 
 function ScriptWriterContent() {
   const { selectedNiche, setSelectedNiche } = useNiche();
-  const { protectedClick } = useButtonProtection();
+  const { protectedClick } = useAuthGuard();
   const searchParams = useSearchParams();
   const [scriptTopic, setScriptTopic] = useState("");
   const [generatedScript, setGeneratedScript] = useState<any>(null);
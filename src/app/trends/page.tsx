@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useNiche } from "@/contexts/NicheContext";
-import { useButtonProtection } from "@/contexts/ProtectionContext";
+import { useAuthGuard } from "@/contexts/AuthContext";
 
 type TrendItem = {
   id: string;
@@ -30,7 +30,7 @@ export default function TrendsPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [items, setItems] = useState<TrendItem[]>([]);
-  const { protectedClick } = useButtonProtection();
+  const { protectedClick } = useAuthGuard();
   const [meta, setMeta] = useState<any>(null);
   const stepsApi = ["Discovering trending content", "Analyzing engagement", "Filtering results", "Done"];
   const [activeStep, setActiveStep] = useState<number>(-1);
@@ -0,0 +1,39 @@
+"use client";
+
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+
+export function AccountMenu() {
+  const { user, loading, logout } = useAuth();
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <Link
+        href="/login"
+        className="text-sm font-medium text-muted hover:text-foreground transition-colors"
+      >
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <Link
+        href="/account"
+        className="text-muted hover:text-foreground transition-colors truncate max-w-[12rem]"
+        title={`${user.email}: manage API keys`}
+      >
+        {user.email}
+      </Link>
+      <button
+        onClick={logout}
+        className="font-medium text-muted hover:text-foreground transition-colors"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { NavLink } from "@/components/nav-link";
 import { MobileNav, HamburgerButton } from "@/components/mobile-nav";
+import { AccountMenu } from "@/components/account-menu";
 
 export function LayoutClient({ children }: { children: React.ReactNode }) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -25,15 +26,19 @@ export function LayoutClient({ children }: { children: React.ReactNode }) {
               <NavLink href="/script-writer" label="Script Writer" />
               <NavLink href="/trends" label="Trending" />
               <NavLink href="/" label="Analyzer" />
+              <NavLink href="/history" label="History" />
+              <NavLink href="/compare" label="Compare" />
+              <NavLink href="/bulk" label="Bulk" />
               <NavLink href="/resources" label="Resources" />
               <NavLink href="/monitoring" label="Monitoring" />
             </div>
           </nav>
           
-          {/* Right side - Desktop theme toggle and mobile hamburger */}
+          {/* Right side - Desktop account and theme toggle, mobile hamburger */}
           <div className="flex items-center gap-3">
-            {/* Theme toggle - only show on desktop */}
-            <div className="hidden lg:block">
+            {/* Account and theme toggle - only show on desktop */}
+            <div className="hidden lg:flex items-center gap-3">
+              <AccountMenu />
               <ThemeToggle />
             </div>
             <HamburgerButton isOpen={mobileMenuOpen} setIsOpen={setMobileMenuOpen} />
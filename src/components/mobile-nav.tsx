@@ -4,6 +4,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { AccountMenu } from "@/components/account-menu";
 
 interface MobileNavProps {
   isOpen: boolean;
@@ -15,6 +16,9 @@ export function MobileNav({ isOpen, setIsOpen }: MobileNavProps) {
 
   const navItems = [
     { href: "/", label: "Analyzer" },
+    { href: "/history", label: "History" },
+    { href: "/compare", label: "Compare" },
+    { href: "/bulk", label: "Bulk" },
     { href: "/niche-discovery", label: "Niche Discovery" },
     { href: "/script-writer", label: "Script Writer" },
     { href: "/trends", label: "Trending" },
@@ -83,6 +87,11 @@ export function MobileNav({ isOpen, setIsOpen }: MobileNavProps) {
           </div>
         </nav>
 
+        {/* Account */}
+        <div className="px-10">
+          <AccountMenu />
+        </div>
+
         {/* Footer */}
         <div className="absolute bottom-6 left-6 right-6">
           <div className="text-sm text-muted text-center">
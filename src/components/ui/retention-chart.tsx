@@ -0,0 +1,95 @@
+export interface RetentionEstimate {
+  durationSeconds: number;
+  beats: Array<{ type: "hook" | "setup" | "payoff" | "cta"; start: number; end: number; text: string }>;
+  points: Array<{ time: number; retention: number }>;
+  risks: Array<{ type: string; time: number; severity: "low" | "medium" | "high"; message: string }>;
+  averageRetention: number;
+  completionRate: number;
+}
+
+interface RetentionChartProps {
+  retention: RetentionEstimate;
+  className?: string;
+}
+
+// viewBox units; the SVG scales to the container width
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 34 };
+
+const BEAT_FILL: Record<RetentionEstimate["beats"][number]["type"], string> = {
+  hook: "var(--accent-light)",
+  setup: "transparent",
+  payoff: "rgb(16 185 129 / 0.12)",
+  cta: "var(--muted)",
+};
+
+const RISK_COLOR: Record<RetentionEstimate["risks"][number]["severity"], string> = {
+  low: "var(--warning)",
+  medium: "var(--warning)",
+  high: "var(--error)",
+};
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds)}s`;
+}
+
+export function RetentionChart({ retention, className = "" }: RetentionChartProps) {
+  const { durationSeconds, beats, points, risks } = retention;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + (time / durationSeconds) * plotWidth;
+  const y = (percent: number) => PADDING.top + (1 - percent / 100) * plotHeight;
+
+  const line = points.map((point, index) => `${index === 0 ? "M" : "L"}${x(point.time).toFixed(1)},${y(point.retention).toFixed(1)}`).join(" ");
+  const area = `${line} L${x(durationSeconds).toFixed(1)},${y(0)} L${x(0)},${y(0)} Z`;
+  const retentionAt = (time: number) =>
+    points.reduce((closest, point) => Math.abs(point.time - time) < Math.abs(closest.time - time) ? point : closest).retention;
+
+  return (
+    <div className={className}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Predicted retention curve">
+        {beats.map((beat) => (
+          <g key={beat.type}>
+            <rect x={x(beat.start)} y={PADDING.top} width={Math.max(0, x(beat.end) - x(beat.start))} height={plotHeight} fill={BEAT_FILL[beat.type]} />
+            <text x={x(beat.start) + 4} y={PADDING.top + 12} fontSize="10" fill="var(--text-muted)" className="uppercase">
+              {beat.type}
+            </text>
+          </g>
+        ))}
+
+        {[0, 25, 50, 75, 100].map((percent) => (
+          <g key={percent}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(percent)} y2={y(percent)} stroke="var(--border)" strokeDasharray={percent === 0 ? undefined : "2 4"} />
+            <text x={PADDING.left - 6} y={y(percent) + 3} fontSize="10" textAnchor="end" fill="var(--text-muted)">{percent}%</text>
+          </g>
+        ))}
+        {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+          <text key={fraction} x={x(durationSeconds * fraction)} y={HEIGHT - 6} fontSize="10" textAnchor="middle" fill="var(--text-muted)">
+            {formatSeconds(durationSeconds * fraction)}
+          </text>
+        ))}
+
+        <path d={area} fill="var(--accent)" fillOpacity="0.12" />
+        <path d={line} fill="none" stroke="var(--accent)" strokeWidth="2" />
+
+        {risks.map((risk, index) => (
+          <circle key={index} cx={x(risk.time)} cy={y(retentionAt(risk.time))} r="5" fill={RISK_COLOR[risk.severity]} stroke="var(--card)" strokeWidth="1.5">
+            <title>{`${formatSeconds(risk.time)}: ${risk.message}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      {risks.length > 0 && (
+        <ul className="text-xs text-muted space-y-1 mt-3">
+          {risks.map((risk, index) => (
+            <li key={index}>
+              <span className={risk.severity === "high" ? "text-red-600" : "text-amber-600"}>●</span>{" "}
+              {risk.time.toFixed(1)}s: {risk.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: 'admin' | 'member';
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  loading: boolean;
+  // False when the server has no database; nobody can sign in
+  accountsEnabled: boolean;
+  // No accounts exist yet; the first registration creates the admin
+  needsSetup: boolean;
+  login: (email: string, password: string) => Promise<string | null>;
+  register: (email: string, password: string) => Promise<string | null>;
+  logout: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+// Posts to an auth endpoint; error is the message from the API envelope, null on success
+async function submit(path: string, body: Record<string, string>): Promise<{ error: string | null; user?: AuthUser }> {
+  try {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.success) {
+      return { error: result?.error || `HTTP ${response.status}: ${response.statusText}` };
+    }
+    return { error: null, user: result.data.user };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Network error' };
+  }
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accountsEnabled, setAccountsEnabled] = useState(true);
+  const [needsSetup, setNeedsSetup] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      const result = await response.json();
+      if (result?.success) {
+        setUser(result.data.user);
+        setAccountsEnabled(result.data.accountsEnabled);
+        setNeedsSetup(result.data.needsSetup);
+      }
+    } catch (error) {
+      console.error('Failed to load session:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const login = async (email: string, password: string) => {
+    const { error, user } = await submit('/api/auth/login', { email, password });
+    if (user) setUser(user);
+    return error;
+  };
+
+  const register = async (email: string, password: string) => {
+    const { error, user } = await submit('/api/auth/register', { email, password });
+    if (user) {
+      setUser(user);
+      setNeedsSetup(false);
+    }
+    return error;
+  };
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
+    setUser(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, loading, accountsEnabled, needsSetup, login, register, logout, refresh }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+// Helper hook for buttons that call member-only APIs: signed-out users are sent to the login page
+export function useAuthGuard() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const protectedClick = (originalHandler: () => void) => {
+    return () => {
+      if (loading) return;
+      if (!user) {
+        router.push(`/login?next=${encodeURIComponent(pathname)}`);
+        return;
+      }
+      originalHandler();
+    };
+  };
+
+  return {
+    isSignedIn: !!user,
+    protectedClick
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Next.js startup hook: configuration that would otherwise fail silently at request time fails here
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { assertRedisAvailable } = await import('./lib/redis');
+  await assertRedisAvailable();
+}
@@ -0,0 +1,234 @@
+/**
+ * User accounts and sessions
+ * Passwords are hashed with scrypt; sessions are random tokens whose SHA-256 is stored server-side,
+ * so a leaked database row cannot be replayed as a cookie
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, createHash, randomUUID } from 'node:crypto';
+import { promisify } from 'node:util';
+import { Database, requireDb, withTransaction } from './db';
+import { ValidationError } from './errors';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: { N: number; r: number; p: number; maxmem: number }) => Promise<Buffer>;
+
+export type UserRole = 'admin' | 'member';
+
+export interface User {
+  id: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  role: UserRole;
+  password_hash: string;
+  created_at: Date;
+  last_login_at: Date | null;
+}
+
+// Account configuration
+const ACCOUNT_CONFIG = {
+  SESSION_TTL_MS: parseInt(process.env.SESSION_TTL_DAYS || '14') * 24 * 60 * 60 * 1000,
+  MIN_PASSWORD_LENGTH: 10,
+  SCRYPT: { N: 16384, r: 8, p: 1, keylen: 64 },
+};
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastLoginAt: row.last_login_at ? new Date(row.last_login_at).toISOString() : null,
+  };
+}
+
+// Stored as scrypt$N$r$p$salt$hash so parameters can be raised later without invalidating old hashes
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p, keylen } = ACCOUNT_CONFIG.SCRYPT;
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, keylen, { N, r, p, maxmem: 64 * 1024 * 1024 });
+  return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: parseInt(N),
+    r: parseInt(r),
+    p: parseInt(p),
+    maxmem: 64 * 1024 * 1024,
+  });
+  return timingSafeEqual(actual, expected);
+}
+
+// Burns the same scrypt work for unknown emails so login timing does not reveal which accounts exist
+let dummyHash: Promise<string> | null = null;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function countUsers(): Promise<number> {
+  const db = await requireDb();
+  const { rows } = await db.query<{ count: string }>('SELECT count(*) AS count FROM users');
+  return parseInt(rows[0].count);
+}
+
+async function hashNewPassword(password: string): Promise<string> {
+  if (password.length < ACCOUNT_CONFIG.MIN_PASSWORD_LENGTH) {
+    throw new ValidationError(`Password must be at least ${ACCOUNT_CONFIG.MIN_PASSWORD_LENGTH} characters`);
+  }
+  return hashPassword(password);
+}
+
+async function insertUser(db: Database, email: string, passwordHash: string, role: UserRole): Promise<User> {
+  try {
+    const { rows } = await db.query<UserRow>(
+      `INSERT INTO users (id, email, password_hash, role) VALUES ($1, $2, $3, $4) RETURNING *`,
+      [randomUUID(), normalizeEmail(email), passwordHash, role]
+    );
+    console.log(`[AUTH] 👤 Created ${rows[0].role} account ${rows[0].email}`);
+    return toUser(rows[0]);
+  } catch (error) {
+    // 23505 = unique_violation on users_email_key
+    if (error && typeof error === 'object' && 'code' in error && error.code === '23505') {
+      throw new ValidationError('An account with this email already exists');
+    }
+    throw error;
+  }
+}
+
+export async function createUser(input: { email: string; password: string; role?: UserRole }): Promise<User> {
+  const passwordHash = await hashNewPassword(input.password);
+  return insertUser(await requireDb(), input.email, passwordHash, input.role || 'member');
+}
+
+/**
+ * Creates the first account as admin; null when an account already exists
+ * Concurrent first registrations queue on an advisory lock, so only one of them finds the table empty
+ */
+export async function createFirstAdmin(input: { email: string; password: string }): Promise<User | null> {
+  const passwordHash = await hashNewPassword(input.password);
+  return withTransaction(async db => {
+    await db.query(`SELECT pg_advisory_xact_lock(hashtext('shorts-analyzer:first-admin'))`);
+    const { rowCount } = await db.query('SELECT 1 FROM users LIMIT 1');
+    if (rowCount) return null;
+    return insertUser(db, input.email, passwordHash, 'admin');
+  });
+}
+
+export async function listUsers(): Promise<User[]> {
+  const db = await requireDb();
+  const { rows } = await db.query<UserRow>('SELECT * FROM users ORDER BY created_at');
+  return rows.map(toUser);
+}
+
+// Postgres rejects malformed UUIDs with an error; treat them as unknown ids instead
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(id: string): boolean {
+  return UUID_PATTERN.test(id);
+}
+
+export async function getUserById(id: string): Promise<User | null> {
+  if (!isUuid(id)) return null;
+  const db = await requireDb();
+  const { rows } = await db.query<UserRow>('SELECT * FROM users WHERE id = $1', [id]);
+  return rows[0] ? toUser(rows[0]) : null;
+}
+
+async function countOtherAdmins(id: string): Promise<number> {
+  const db = await requireDb();
+  const { rows } = await db.query<{ count: string }>(
+    `SELECT count(*) AS count FROM users WHERE role = 'admin' AND id <> $1`,
+    [id]
+  );
+  return parseInt(rows[0].count);
+}
+
+export async function updateUserRole(id: string, role: UserRole): Promise<User | null> {
+  if (!isUuid(id)) return null;
+  const db = await requireDb();
+  // Never demote the last admin, or nobody could manage accounts again
+  if (role !== 'admin' && (await countOtherAdmins(id)) === 0) {
+    throw new ValidationError('Cannot remove the last admin');
+  }
+  const { rows } = await db.query<UserRow>('UPDATE users SET role = $2 WHERE id = $1 RETURNING *', [id, role]);
+  return rows[0] ? toUser(rows[0]) : null;
+}
+
+// Sessions go with the user (ON DELETE CASCADE)
+export async function deleteUser(id: string): Promise<boolean> {
+  const db = await requireDb();
+  const target = await getUserById(id);
+  if (!target) return false;
+  if (target.role === 'admin' && (await countOtherAdmins(id)) === 0) {
+    throw new ValidationError('Cannot delete the last admin');
+  }
+  const { rowCount } = await db.query('DELETE FROM users WHERE id = $1', [id]);
+  return !!rowCount;
+}
+
+/**
+ * Checks an email/password pair; returns null for unknown emails and wrong passwords alike
+ */
+export async function verifyCredentials(email: string, password: string): Promise<User | null> {
+  const db = await requireDb();
+  const { rows } = await db.query<UserRow>('SELECT * FROM users WHERE lower(email) = $1', [normalizeEmail(email)]);
+  const row = rows[0];
+
+  if (!row) {
+    dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+
+  if (!(await verifyPassword(password, row.password_hash))) {
+    return null;
+  }
+
+  await db.query('UPDATE users SET last_login_at = now() WHERE id = $1', [row.id]);
+  return toUser(row);
+}
+
+export async function createSession(
+  userId: string,
+  meta: { ip?: string; userAgent?: string } = {}
+): Promise<{ token: string; expiresAt: Date }> {
+  const db = await requireDb();
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + ACCOUNT_CONFIG.SESSION_TTL_MS);
+  // Expired sessions are only ever read as misses; prune this user's on each login
+  await db.query('DELETE FROM sessions WHERE user_id = $1 AND expires_at <= now()', [userId]);
+  await db.query(
+    'INSERT INTO sessions (id, user_id, expires_at, ip, user_agent) VALUES ($1, $2, $3, $4, $5)',
+    [hashToken(token), userId, expiresAt, meta.ip || null, meta.userAgent?.substring(0, 200) || null]
+  );
+  return { token, expiresAt };
+}
+
+export async function getSessionUser(token: string): Promise<User | null> {
+  const db = await requireDb();
+  const { rows } = await db.query<UserRow>(
+    `SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+     WHERE sessions.id = $1 AND sessions.expires_at > now()`,
+    [hashToken(token)]
+  );
+  return rows[0] ? toUser(rows[0]) : null;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const db = await requireDb();
+  await db.query('DELETE FROM sessions WHERE id = $1', [hashToken(token)]);
+}
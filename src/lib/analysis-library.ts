@@ -0,0 +1,430 @@
+/**
+ * Analysis library
+ * Every completed analysis is kept with its transcript, results and who ran it, so it can be browsed and searched later.
+ * One entry per user and video: re-running an analysis refreshes the entry instead of adding a duplicate
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { VideoAnalysisResult } from './analysis-pipeline';
+import type { AnalysisJSON } from './analysis';
+import type { Platform } from './platforms/base';
+import { getDb } from './db';
+import { isUuid } from './accounts';
+
+// Library configuration
+const LIBRARY_CONFIG = {
+  // 'postgres' | 'file'; Postgres whenever a database is configured, files for local development
+  BACKEND: process.env.ANALYSIS_STORE || (process.env.DATABASE_URL || process.env.DB_HOST ? 'postgres' : 'file'),
+  FILE_DIR: process.env.ANALYSIS_LIBRARY_DIR || join(process.cwd(), '.data', 'analyses'),
+  EXCERPT_LENGTH: 240,
+};
+
+export interface AnalysisOwner {
+  userId: string | null;
+  apiKeyId: string | null;
+}
+
+export interface StoredAnalysis extends Omit<VideoAnalysisResult, 'cacheHit'>, AnalysisOwner {
+  id: string;
+  url: string;
+  createdAt: string;
+  // Latest run; equals createdAt until the video is analyzed again
+  analyzedAt: string;
+}
+
+// List entries leave out the transcript and timing data, which can be large
+export interface AnalysisSummary extends AnalysisOwner {
+  id: string;
+  url: string;
+  platform: Platform;
+  metadata: StoredAnalysis['metadata'];
+  analysis: AnalysisJSON;
+  transcriptSource: StoredAnalysis['transcriptSource'];
+  excerpt: string;
+  createdAt: string;
+  analyzedAt: string;
+}
+
+export interface AnalysisFilters {
+  // Restricts the list to one user's analyses
+  userId?: string;
+  platform?: Platform;
+  // Case-insensitive substring matches; niche and emotion are free text written by the model
+  niche?: string;
+  creator?: string;
+  emotion?: string;
+  pace?: AnalysisJSON['pace'];
+  from?: Date;
+  to?: Date;
+  // Full-text search over titles and transcripts
+  q?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface AnalysisPage {
+  items: AnalysisSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+interface LibraryStore {
+  readonly name: string;
+  save(entry: StoredAnalysis): Promise<StoredAnalysis>;
+  get(id: string): Promise<StoredAnalysis | null>;
+  list(filters: AnalysisFilters): Promise<AnalysisPage>;
+  delete(id: string): Promise<boolean>;
+}
+
+function toSummary(entry: StoredAnalysis): AnalysisSummary {
+  return {
+    id: entry.id,
+    url: entry.url,
+    platform: entry.platform,
+    metadata: entry.metadata,
+    analysis: entry.analysis,
+    transcriptSource: entry.transcriptSource,
+    excerpt: entry.transcript.slice(0, LIBRARY_CONFIG.EXCERPT_LENGTH),
+    userId: entry.userId,
+    apiKeyId: entry.apiKeyId,
+    createdAt: entry.createdAt,
+    analyzedAt: entry.analyzedAt,
+  };
+}
+
+function includesText(value: string | undefined, search: string | undefined): boolean {
+  if (!search) return true;
+  return (value || '').toLowerCase().includes(search.toLowerCase());
+}
+
+// File Store (local development): one JSON file per entry, filtered in memory
+class FileLibraryStore implements LibraryStore {
+  readonly name = 'file';
+
+  private fileFor(id: string): string {
+    return join(LIBRARY_CONFIG.FILE_DIR, `${id}.json`);
+  }
+
+  private async readAll(): Promise<StoredAnalysis[]> {
+    let files: string[];
+    try {
+      files = await readdir(LIBRARY_CONFIG.FILE_DIR);
+    } catch {
+      return [];
+    }
+
+    const entries = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => {
+        try {
+          return JSON.parse(await readFile(join(LIBRARY_CONFIG.FILE_DIR, file), 'utf8')) as StoredAnalysis;
+        } catch {
+          return null;
+        }
+      }));
+    return entries.filter((entry): entry is StoredAnalysis => entry !== null);
+  }
+
+  async save(entry: StoredAnalysis): Promise<StoredAnalysis> {
+    const existing = (await this.readAll()).find(stored =>
+      stored.userId !== null &&
+      stored.userId === entry.userId &&
+      stored.platform === entry.platform &&
+      stored.metadata.id === entry.metadata.id
+    );
+    const saved = existing ? { ...entry, id: existing.id, createdAt: existing.createdAt } : entry;
+
+    await mkdir(LIBRARY_CONFIG.FILE_DIR, { recursive: true });
+    await writeFile(this.fileFor(saved.id), JSON.stringify(saved), 'utf8');
+    return saved;
+  }
+
+  async get(id: string): Promise<StoredAnalysis | null> {
+    if (!isUuid(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.fileFor(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async list(filters: AnalysisFilters): Promise<AnalysisPage> {
+    const terms = (filters.q || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+    const matches = (await this.readAll())
+      .filter(entry => {
+        const analyzedAt = new Date(entry.analyzedAt);
+        const haystack = `${entry.metadata.title} ${entry.transcript}`.toLowerCase();
+        return (!filters.userId || entry.userId === filters.userId) &&
+          (!filters.platform || entry.platform === filters.platform) &&
+          includesText(entry.analysis.niche, filters.niche) &&
+          (includesText(entry.metadata.creator, filters.creator) || entry.metadata.creatorId === filters.creator) &&
+          includesText(entry.analysis.emotion, filters.emotion) &&
+          (!filters.pace || entry.analysis.pace === filters.pace) &&
+          (!filters.from || analyzedAt >= filters.from) &&
+          (!filters.to || analyzedAt <= filters.to) &&
+          terms.every(term => haystack.includes(term));
+      })
+      .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt));
+
+    const offset = (filters.page - 1) * filters.pageSize;
+    return {
+      items: matches.slice(offset, offset + filters.pageSize).map(toSummary),
+      total: matches.length,
+      page: filters.page,
+      pageSize: filters.pageSize,
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    try {
+      await unlink(this.fileFor(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+interface AnalysisRow {
+  id: string;
+  user_id: string | null;
+  api_key_id: string | null;
+  platform: Platform;
+  url: string;
+  transcript: string;
+  transcript_source: StoredAnalysis['transcriptSource'];
+  metadata: StoredAnalysis['metadata'];
+  analysis: AnalysisJSON;
+  hook_analysis: StoredAnalysis['hookAnalysis'];
+  metrics: StoredAnalysis['metrics'];
+  retention: StoredAnalysis['retention'];
+  audio: StoredAnalysis['audio'];
+  audio_profile: StoredAnalysis['audioProfile'];
+  visual: StoredAnalysis['visual'];
+  segments: StoredAnalysis['segments'];
+  ideas: StoredAnalysis['ideas'];
+  created_at: Date;
+  analyzed_at: Date;
+}
+
+function fromRow(row: AnalysisRow): StoredAnalysis {
+  return {
+    id: row.id,
+    url: row.url,
+    platform: row.platform,
+    metadata: row.metadata,
+    transcript: row.transcript,
+    segments: row.segments,
+    transcriptSource: row.transcript_source,
+    analysis: row.analysis,
+    hookAnalysis: row.hook_analysis,
+    metrics: row.metrics,
+    // Null for analyses saved before retention was estimated
+    retention: row.retention,
+    // Null for analyses transcribed from captions or saved before audio was measured
+    audio: row.audio,
+    audioProfile: row.audio_profile,
+    visual: row.visual,
+    ideas: row.ideas,
+    userId: row.user_id,
+    apiKeyId: row.api_key_id,
+    createdAt: new Date(row.created_at).toISOString(),
+    analyzedAt: new Date(row.analyzed_at).toISOString(),
+  };
+}
+
+// Escapes LIKE wildcards so user input only matches literally
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+// Postgres Store (production), falls back to files if the database is unreachable
+class PostgresLibraryStore implements LibraryStore {
+  readonly name = 'postgres';
+  private fallback = new FileLibraryStore();
+
+  async save(entry: StoredAnalysis): Promise<StoredAnalysis> {
+    const db = await getDb();
+    if (!db) return this.fallback.save(entry);
+
+    const { rows } = await db.query<AnalysisRow>(
+      `INSERT INTO analyses (
+         id, user_id, api_key_id, platform, video_id, url, title, creator, creator_id, niche, emotion, pace,
+         transcript, transcript_source, metadata, analysis, hook_analysis, metrics, retention, audio, audio_profile, visual, segments, ideas,
+         created_at, analyzed_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $25)
+       ON CONFLICT (user_id, platform, video_id) DO UPDATE SET
+         api_key_id = EXCLUDED.api_key_id, url = EXCLUDED.url, title = EXCLUDED.title, creator = EXCLUDED.creator,
+         creator_id = EXCLUDED.creator_id, niche = EXCLUDED.niche, emotion = EXCLUDED.emotion, pace = EXCLUDED.pace,
+         transcript = EXCLUDED.transcript, transcript_source = EXCLUDED.transcript_source, metadata = EXCLUDED.metadata,
+         analysis = EXCLUDED.analysis, hook_analysis = EXCLUDED.hook_analysis, metrics = EXCLUDED.metrics,
+         retention = EXCLUDED.retention, audio = EXCLUDED.audio,
+         audio_profile = EXCLUDED.audio_profile, visual = EXCLUDED.visual, segments = EXCLUDED.segments, ideas = EXCLUDED.ideas, analyzed_at = EXCLUDED.analyzed_at
+       RETURNING *`,
+      [
+        entry.id,
+        entry.userId,
+        entry.apiKeyId,
+        entry.platform,
+        entry.metadata.id,
+        entry.url,
+        entry.metadata.title,
+        entry.metadata.creator,
+        entry.metadata.creatorId ?? null,
+        entry.analysis.niche,
+        entry.analysis.emotion,
+        entry.analysis.pace,
+        entry.transcript,
+        entry.transcriptSource,
+        JSON.stringify(entry.metadata),
+        JSON.stringify(entry.analysis),
+        JSON.stringify(entry.hookAnalysis),
+        JSON.stringify(entry.metrics),
+        JSON.stringify(entry.retention),
+        JSON.stringify(entry.audio),
+        JSON.stringify(entry.audioProfile),
+        JSON.stringify(entry.visual),
+        JSON.stringify(entry.segments),
+        JSON.stringify(entry.ideas),
+        entry.analyzedAt,
+      ]
+    );
+    return fromRow(rows[0]);
+  }
+
+  async get(id: string): Promise<StoredAnalysis | null> {
+    const db = await getDb();
+    if (!db) return this.fallback.get(id);
+    if (!isUuid(id)) return null;
+
+    const { rows } = await db.query<AnalysisRow>('SELECT * FROM analyses WHERE id = $1', [id]);
+    return rows[0] ? fromRow(rows[0]) : null;
+  }
+
+  async list(filters: AnalysisFilters): Promise<AnalysisPage> {
+    const db = await getDb();
+    if (!db) return this.fallback.list(filters);
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const where = (sql: (param: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (filters.userId) where(param => `user_id = ${param}`, filters.userId);
+    if (filters.platform) where(param => `platform = ${param}`, filters.platform);
+    if (filters.niche) where(param => `niche ILIKE ${param}`, likePattern(filters.niche));
+    if (filters.creator) {
+      // Matches a creator name loosely or a channel/account ID exactly
+      params.push(likePattern(filters.creator), filters.creator);
+      conditions.push(`(creator ILIKE $${params.length - 1} OR creator_id = $${params.length})`);
+    }
+    if (filters.emotion) where(param => `emotion ILIKE ${param}`, likePattern(filters.emotion));
+    if (filters.pace) where(param => `pace = ${param}`, filters.pace);
+    if (filters.from) where(param => `analyzed_at >= ${param}`, filters.from);
+    if (filters.to) where(param => `analyzed_at <= ${param}`, filters.to);
+    if (filters.q) where(param => `search @@ websearch_to_tsquery('simple', ${param})`, filters.q);
+
+    const whereSql = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { rows: countRows } = await db.query<{ count: string }>(
+      `SELECT count(*) AS count FROM analyses ${whereSql}`,
+      params
+    );
+    const { rows } = await db.query<AnalysisRow>(
+      `SELECT id, user_id, api_key_id, platform, url, left(transcript, ${LIBRARY_CONFIG.EXCERPT_LENGTH}) AS transcript,
+              transcript_source, metadata, analysis, NULL AS hook_analysis, NULL AS metrics, NULL AS retention, NULL AS audio, NULL AS audio_profile,
+              NULL AS visual, '[]'::jsonb AS segments, '[]'::jsonb AS ideas, created_at, analyzed_at
+       FROM analyses ${whereSql}
+       ORDER BY analyzed_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.pageSize, (filters.page - 1) * filters.pageSize]
+    );
+
+    return {
+      items: rows.map(row => toSummary(fromRow(row))),
+      total: parseInt(countRows[0].count),
+      page: filters.page,
+      pageSize: filters.pageSize,
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await getDb();
+    if (!db) return this.fallback.delete(id);
+    if (!isUuid(id)) return false;
+
+    const { rowCount } = await db.query('DELETE FROM analyses WHERE id = $1', [id]);
+    return (rowCount ?? 0) > 0;
+  }
+}
+
+function createLibraryStore(): LibraryStore {
+  switch (LIBRARY_CONFIG.BACKEND) {
+    case 'postgres':
+      return new PostgresLibraryStore();
+    case 'file':
+    default:
+      return new FileLibraryStore();
+  }
+}
+
+const store = createLibraryStore();
+
+/**
+ * Adds a finished analysis to the library, replacing the owner's previous entry for the same video
+ * Never throws: a library outage must not fail an analysis the user already waited for
+ */
+export async function recordAnalysis(
+  videoUrl: string,
+  result: VideoAnalysisResult,
+  owner: AnalysisOwner
+): Promise<StoredAnalysis | null> {
+  const now = new Date().toISOString();
+  try {
+    const saved = await store.save({
+      platform: result.platform,
+      metadata: result.metadata,
+      transcript: result.transcript,
+      segments: result.segments,
+      transcriptSource: result.transcriptSource,
+      analysis: result.analysis,
+      hookAnalysis: result.hookAnalysis,
+      metrics: result.metrics,
+      retention: result.retention,
+      audio: result.audio,
+      audioProfile: result.audioProfile,
+      visual: result.visual,
+      ideas: result.ideas,
+      id: randomUUID(),
+      url: videoUrl,
+      userId: owner.userId,
+      apiKeyId: owner.apiKeyId,
+      createdAt: now,
+      analyzedAt: now,
+    });
+    console.log(`[LIBRARY] 📚 Saved ${result.platform}:${result.metadata.id} as ${saved.id} (${store.name})`);
+    return saved;
+  } catch (error) {
+    console.warn(`[LIBRARY] Failed to save analysis of ${videoUrl}:`, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+export async function getStoredAnalysis(id: string): Promise<StoredAnalysis | null> {
+  return store.get(id);
+}
+
+export async function listStoredAnalyses(filters: AnalysisFilters): Promise<AnalysisPage> {
+  return store.list(filters);
+}
+
+export async function deleteStoredAnalysis(id: string): Promise<boolean> {
+  return store.delete(id);
+}
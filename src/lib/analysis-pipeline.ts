@@ -0,0 +1,598 @@
+/**
+ * Video analysis pipeline
+ * Runs metadata → transcript → transcription → visual → analysis → ideas for any supported platform,
+ * reporting per-stage progress so callers can stream or persist it
+ */
+
+import { analyzeTranscript, analyzeHook, generateIdeas, getAnalysisVersion, AnalysisJSON, HookAnalysis, Idea } from './analysis';
+import { getSimpleTranscript } from './youtube-simple';
+import { transcribeAudio, transcribeAudioInChunks } from './audio-processing';
+import { getAnalysisFromCache, setAnalysisCache, getTranscriptFromCache, setTranscriptCache } from './cache';
+import { platformManager } from './platforms/manager';
+import { Platform, VideoMetadata, generateCacheKey } from './platforms/base';
+import { SoundAnnotation, TimedTranscript, TranscriptSegment } from './transcript';
+import { computeTranscriptMetrics, TranscriptMetrics } from './transcript-metrics';
+import { estimateRetention, RetentionEstimate } from './retention';
+import { analyzeAudioFile, AudioAnalysis } from './audio-analysis';
+import { buildAudioProfile, AudioProfile } from './audio-profile';
+import { analyzeVideoFile, VisualAnalysis } from './visual-analysis';
+import { extractOnScreenText, isOcrEnabled, needsOnScreenText } from './ocr';
+import { llm } from './llm/manager';
+import { LLMValidationError } from './llm/base';
+import { YtDlpError } from './ytdlp';
+import { AppError, ErrorCode, errorCodeForYtDlp } from './errors';
+
+export const PIPELINE_STAGES = ['metadata', 'transcript', 'transcription', 'visual', 'analysis', 'ideas'] as const;
+
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export type StageStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed' | 'cancelled';
+
+// 'ocr' is the on-screen text of a video without speech
+export type TranscriptSource = 'provided' | 'captions' | 'audio' | 'ocr';
+
+export interface VideoAnalysisResult {
+  platform: Platform;
+  metadata: VideoMetadata;
+  transcript: string;
+  // Cue timing; empty for provided transcripts
+  segments: TranscriptSegment[];
+  transcriptSource: TranscriptSource;
+  analysis: AnalysisJSON;
+  // Timing-based analysis of the opening seconds; null without segments
+  hookAnalysis: HookAnalysis | null;
+  metrics: TranscriptMetrics;
+  // Predicted retention curve from the transcript's beats; null without segments
+  retention: RetentionEstimate | null;
+  // Silence, loudness and speaking rate measured from the downloaded audio; null when captions were used
+  audio: AudioAnalysis | null;
+  // Music presence and voice-over / on-camera / music-only, from caption sound tags and the audio; null for provided transcripts
+  audioProfile: AudioProfile | null;
+  // Cuts, shot lengths and first-frame composition from the video; null unless video mode was requested
+  visual: VisualAnalysis | null;
+  ideas: Idea[];
+  // True when the whole result was served from the analysis cache
+  cacheHit: boolean;
+}
+
+// Cached analyses are tagged with the model/prompt version that produced them
+interface CachedAnalysisEntry {
+  version: string;
+  result: Omit<VideoAnalysisResult, 'cacheHit'>;
+}
+
+interface CachedTranscriptEntry {
+  transcript: string;
+  segments: TranscriptSegment[];
+  source: TranscriptSource;
+  annotations?: SoundAnnotation[];
+  // Measured while the audio was on disk, so it is cached alongside the transcript it came with
+  audio?: AudioAnalysis | null;
+}
+
+export interface StageUpdate {
+  stage: PipelineStage;
+  status: StageStatus;
+  // Partial result produced by the stage, merged by the caller
+  result?: Partial<VideoAnalysisResult>;
+}
+
+// Fine-grained progress, emitted as intermediate results become available
+export type PipelineEvent =
+  | { type: 'metadata'; platform: Platform; metadata: VideoMetadata }
+  | { type: 'transcript-source'; source: TranscriptSource }
+  | { type: 'audio-downloaded' }
+  | { type: 'transcript-partial'; text: string; segments: TranscriptSegment[]; chunk: number; totalChunks: number }
+  | { type: 'transcript'; transcript: string; segments: TranscriptSegment[]; source: TranscriptSource }
+  | { type: 'visual'; visual: VisualAnalysis }
+  | { type: 'analysis'; analysis: AnalysisJSON; hookAnalysis: HookAnalysis | null; metrics: TranscriptMetrics; retention: RetentionEstimate | null; audio: AudioAnalysis | null; audioProfile: AudioProfile | null }
+  | { type: 'idea'; idea: Idea; index: number };
+
+export interface PipelineOptions {
+  providedTranscript?: string | null;
+  // Skip cache lookups and recompute everything; fresh results are still written back
+  refresh?: boolean;
+  // Download the video and measure cuts, shot lengths and the first frame (ffmpeg only)
+  video?: boolean;
+  // Also have the vision model describe keyframes; implies video
+  vision?: boolean;
+  signal?: AbortSignal;
+  onStageUpdate?: (update: StageUpdate) => void | Promise<void>;
+  // When set, audio is transcribed in chunks so partial transcripts can be emitted
+  onEvent?: (event: PipelineEvent) => void | Promise<void>;
+}
+
+export class PipelineError extends AppError {
+  constructor(
+    message: string,
+    public readonly stage: PipelineStage,
+    code: ErrorCode = 'INTERNAL',
+    details?: unknown
+  ) {
+    super(code, message, details);
+    this.name = 'PipelineError';
+  }
+}
+
+export class PipelineCancelledError extends AppError {
+  constructor() {
+    super('CANCELLED', 'Analysis was cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new PipelineCancelledError();
+  }
+}
+
+export async function runAnalysisPipeline(
+  videoUrl: string,
+  options: PipelineOptions = {}
+): Promise<VideoAnalysisResult> {
+  const { signal, providedTranscript, refresh = false } = options;
+  const vision = !!options.vision;
+  const videoMode = !!options.video || vision;
+  const report = async (update: StageUpdate) => {
+    throwIfCancelled(signal);
+    if (options.onStageUpdate) {
+      await options.onStageUpdate(update);
+    }
+    throwIfCancelled(signal);
+  };
+  const emit = async (event: PipelineEvent) => {
+    if (options.onEvent) {
+      await options.onEvent(event);
+    }
+  };
+
+  // Stage 1: metadata
+  await report({ stage: 'metadata', status: 'running' });
+  const adapter = platformManager.getAdapterForUrl(videoUrl);
+  if (!adapter) {
+    throw new PipelineError('Unsupported video URL. Please use a YouTube, Instagram, or TikTok link.', 'metadata', 'UNSUPPORTED_PLATFORM');
+  }
+  const platform = adapter.platform;
+
+  console.log(`[PIPELINE] 🔍 Extracting ${platform} video ID from: ${videoUrl}`);
+  const videoId = adapter.extractVideoId(videoUrl);
+  if (!videoId) {
+    throw new PipelineError(`Invalid ${platform} URL format`, 'metadata', 'VALIDATION');
+  }
+
+  // A provided transcript yields a different analysis, so it bypasses the cache entirely
+  const cacheKey = generateCacheKey(platform, videoId);
+  const analysisVersion = getAnalysisVersion();
+  const useCache = !providedTranscript;
+
+  if (useCache && !refresh) {
+    const cached = await readCachedAnalysis(cacheKey, analysisVersion);
+    // Video mode feeds the analysis, so an entry without the requested visuals is rerun (the transcript is still cached)
+    if (cached && videoMode && !hasVisuals(cached.visual, vision)) {
+      console.log(`[PIPELINE] ♻️ Cached analysis for ${cacheKey} has no visuals, rerunning in video mode`);
+    } else if (cached) {
+      console.log(`[PIPELINE] ⚡ Serving cached analysis for ${cacheKey}`);
+      await replayCachedResult(cached, report, emit);
+      return { ...cached, cacheHit: true };
+    }
+  }
+
+  console.log(`[PIPELINE] 📊 Getting ${platform} metadata for: ${videoId}`);
+  const metadata = await adapter.getMetadata(videoUrl);
+  console.log(`[PIPELINE] ✅ Metadata obtained: ${metadata.title} by ${metadata.creator} (${metadata.viewCount ?? 0} views)`);
+  await emit({ type: 'metadata', platform, metadata });
+  await report({ stage: 'metadata', status: 'completed', result: { platform, metadata } });
+
+  // Stage 2: captions / provided transcript
+  await report({ stage: 'transcript', status: 'running' });
+  let timed: TimedTranscript | null = null;
+  let transcriptSource: TranscriptSource = 'audio';
+  let audio: AudioAnalysis | null = null;
+  // Sound tags from captions that carry no speech (a music-only video), kept for the transcript that replaces them
+  let captionAnnotations: SoundAnnotation[] | undefined;
+  if (providedTranscript) {
+    console.log(`[PIPELINE] 📝 Using provided transcript (${providedTranscript.length} characters)`);
+    timed = { text: providedTranscript, segments: [] };
+    transcriptSource = 'provided';
+  } else {
+    const cachedTranscript = useCache && !refresh ? await readCachedTranscript(cacheKey) : null;
+    if (cachedTranscript) {
+      console.log(`[PIPELINE] ⚡ Using cached ${cachedTranscript.source} transcript for ${cacheKey}`);
+      timed = { text: cachedTranscript.transcript, segments: cachedTranscript.segments, annotations: cachedTranscript.annotations };
+      transcriptSource = cachedTranscript.source;
+      audio = cachedTranscript.audio ?? null;
+    } else {
+      timed = await fetchPlatformTranscript(platform, videoId);
+      if (timed && !timed.text) {
+        console.log('[PIPELINE] 🎵 Captions only tag sounds, transcribing the audio instead');
+        captionAnnotations = timed.annotations;
+        timed = null;
+      }
+      if (timed) {
+        transcriptSource = 'captions';
+        await writeCachedTranscript(cacheKey, { transcript: timed.text, segments: timed.segments, annotations: timed.annotations, source: transcriptSource });
+      }
+    }
+  }
+  await emit({ type: 'transcript-source', source: transcriptSource });
+  await report({
+    stage: 'transcript',
+    status: 'completed',
+    result: timed ? { transcript: timed.text, segments: timed.segments, transcriptSource } : {}
+  });
+
+  // Stage 3: audio download + Whisper, only when no transcript was found; on-screen text when nothing is said
+  if (timed) {
+    await report({ stage: 'transcription', status: 'skipped' });
+  } else {
+    await report({ stage: 'transcription', status: 'running' });
+    const speech = process.env.OPENAI_API_KEY
+      ? await transcribeFromAudio(videoUrl, metadata, signal, options.onEvent ? emit : undefined)
+      : null;
+    // Whisper's sound tags, else the captions'; either tells the audio profile where the music is
+    const annotations = speech?.timed.annotations?.length ? speech.timed.annotations : captionAnnotations;
+    timed = speech?.timed.text ? { ...speech.timed, annotations } : null;
+    audio = speech?.audio ?? null;
+    if (needsOnScreenText(timed)) {
+      const onScreen = await readOnScreenText(videoUrl, metadata, signal);
+      if (onScreen && onScreen.text.length > (timed?.text.length ?? 0)) {
+        timed = { ...onScreen, annotations };
+        transcriptSource = 'ocr';
+        // Pacing was measured over the words Whisper found, which were just rejected as not speech
+        if (audio) audio = { ...audio, pacing: null };
+        await emit({ type: 'transcript-source', source: transcriptSource });
+      }
+    }
+    if (!timed) {
+      throw process.env.OPENAI_API_KEY
+        ? new PipelineError(
+          `This video "${metadata.title}" has no captions, no speech and no readable on-screen text. Please try a different video.`,
+          'transcription',
+          'TRANSCRIPTION_FAILED',
+          'Audio transcription returned no text and OCR found no on-screen text'
+        )
+        : new PipelineError(
+          `This video "${metadata.title}" doesn't have captions or readable on-screen text, and audio transcription is not configured (OPENAI_API_KEY).`,
+          'transcription',
+          'NO_CAPTIONS'
+        );
+    }
+    if (useCache) {
+      await writeCachedTranscript(cacheKey, { transcript: timed.text, segments: timed.segments, annotations: timed.annotations, source: transcriptSource, audio });
+    }
+    await report({
+      stage: 'transcription',
+      status: 'completed',
+      result: { transcript: timed.text, segments: timed.segments, transcriptSource }
+    });
+  }
+  const { text: transcript, segments } = timed;
+  await emit({ type: 'transcript', transcript, segments, source: transcriptSource });
+
+  console.log(`[PIPELINE] ✅ Transcript ready (${transcript.length} characters, ${segments.length} timed segments)`);
+
+  // Stage 4: frames, only in video mode
+  let visual: VisualAnalysis | null = null;
+  if (videoMode) {
+    await report({ stage: 'visual', status: 'running' });
+    visual = await analyzeVisuals(videoUrl, metadata, vision, signal);
+    if (visual) {
+      await emit({ type: 'visual', visual });
+      await report({ stage: 'visual', status: 'completed', result: { visual } });
+    } else {
+      await report({ stage: 'visual', status: 'skipped' });
+    }
+  } else {
+    await report({ stage: 'visual', status: 'skipped' });
+  }
+
+  // Stage 5: analysis
+  await report({ stage: 'analysis', status: 'running' });
+  if (!llm.isTaskConfigured('analysis') || !llm.isTaskConfigured('ideas')) {
+    throw new PipelineError('No LLM provider configured for analysis. Set OPENAI_API_KEY, or ANALYSIS_PROVIDER/IDEAS_PROVIDER with that provider\'s credentials.', 'analysis', 'NOT_CONFIGURED');
+  }
+
+  const hookAnalysis = analyzeHook(segments);
+  const metrics = computeTranscriptMetrics(transcript, { durationSeconds: metadata.duration, segments });
+  const retention = estimateRetention(segments, { durationSeconds: metadata.duration, hookAnalysis });
+  // On-screen text is not speech, so the profile judges a text-overlay video from its audio alone
+  const audioProfile = buildAudioProfile(transcriptSource === 'ocr' ? [] : segments, { annotations: timed.annotations, audio, durationSeconds: metadata.duration });
+  console.log(`[PIPELINE] 📏 Metrics: ${metrics.wordCount} words, ${metrics.wordsPerMinute ?? '?'} wpm, grade ${metrics.readabilityGrade}`);
+  if (hookAnalysis) {
+    console.log(`[PIPELINE] 🪝 Hook: ${hookAnalysis.type}, score ${hookAnalysis.score}${hookAnalysis.slowStart ? ' (slow start)' : ''}`);
+  }
+  if (retention) {
+    console.log(`[PIPELINE] 📉 Retention: ${retention.averageRetention}% average, ${retention.risks.length} risk moments`);
+  }
+  if (audio) {
+    console.log(`[PIPELINE] 🔊 Audio: ${audio.loudness.integratedLufs ?? '-inf'} LUFS, ${Math.round(audio.silence.ratio * 100)}% silence, pace ${audio.pacing?.pace ?? 'unknown'}`);
+  }
+  if (audioProfile) {
+    console.log(`[PIPELINE] 🎶 Sound: ${audioProfile.type} (${audioProfile.confidence} confidence), music over ${Math.round(audioProfile.musicCoverage * 100)}%`);
+  }
+
+  console.log(`[PIPELINE] 🧠 Starting transcript analysis with ${llm.getTaskConfig('analysis').provider}...`);
+  const analysis = await analyzeTranscript(transcript, {
+    title: metadata.title,
+    channel: metadata.creator,
+    views: metadata.viewCount,
+    fallbackLength: metadata.duration,
+    metrics,
+    audio,
+    visual,
+    onScreenText: transcriptSource === 'ocr'
+  }, { signal }).catch(error => rethrowValidationError(error, 'analysis', signal));
+  console.log(`[PIPELINE] ✅ Analysis complete:`, Object.keys(analysis));
+  await emit({ type: 'analysis', analysis, hookAnalysis, metrics, retention, audio, audioProfile });
+  await report({ stage: 'analysis', status: 'completed', result: { analysis, hookAnalysis, metrics, retention, audio, audioProfile } });
+
+  // Stage 6: ideas
+  await report({ stage: 'ideas', status: 'running' });
+  console.log('[PIPELINE] 💡 Generating content ideas...');
+  const ideas = await generateIdeas(analysis, { signal }).catch(error => rethrowValidationError(error, 'ideas', signal));
+  console.log(`[PIPELINE] ✅ Generated ${ideas.length} ideas`);
+  for (const [index, idea] of ideas.entries()) {
+    await emit({ type: 'idea', idea, index });
+  }
+  await report({ stage: 'ideas', status: 'completed', result: { ideas } });
+
+  const result = {
+    platform,
+    metadata,
+    transcript,
+    segments,
+    transcriptSource,
+    analysis,
+    hookAnalysis,
+    metrics,
+    retention,
+    audio,
+    audioProfile,
+    visual,
+    ideas
+  };
+
+  if (useCache) {
+    await writeCachedAnalysis(cacheKey, { version: analysisVersion, result });
+  }
+
+  return { ...result, cacheHit: false };
+}
+
+// Schema failures become stage errors so routes, streams and jobs can report the validation issues
+function rethrowValidationError(error: unknown, stage: PipelineStage, signal?: AbortSignal): never {
+  // The provider request was aborted because the caller cancelled, not because it failed
+  if (signal?.aborted) {
+    throw new PipelineCancelledError();
+  }
+  if (error instanceof LLMValidationError) {
+    throw new PipelineError(`AI returned an invalid ${stage} response`, stage, 'AI_INVALID_OUTPUT', error.issues);
+  }
+  throw error;
+}
+
+// Reports every stage as done from a cached result, so streaming clients and jobs see the same shape as a fresh run
+async function replayCachedResult(
+  cached: CachedAnalysisEntry['result'],
+  report: (update: StageUpdate) => Promise<void>,
+  emit: (event: PipelineEvent) => Promise<void>
+): Promise<void> {
+  const { platform, metadata, transcript, segments, transcriptSource, analysis, hookAnalysis, metrics, retention, audio, audioProfile, visual, ideas } = cached;
+
+  await emit({ type: 'metadata', platform, metadata });
+  await report({ stage: 'metadata', status: 'completed', result: { platform, metadata } });
+  await emit({ type: 'transcript-source', source: transcriptSource });
+  await report({ stage: 'transcript', status: 'completed', result: { transcript, segments, transcriptSource } });
+  await report({ stage: 'transcription', status: 'skipped' });
+  await emit({ type: 'transcript', transcript, segments, source: transcriptSource });
+  if (visual) {
+    await emit({ type: 'visual', visual });
+    await report({ stage: 'visual', status: 'completed', result: { visual } });
+  } else {
+    await report({ stage: 'visual', status: 'skipped' });
+  }
+  await emit({ type: 'analysis', analysis, hookAnalysis, metrics, retention, audio, audioProfile });
+  await report({ stage: 'analysis', status: 'completed', result: { analysis, hookAnalysis, metrics, retention, audio, audioProfile } });
+  for (const [index, idea] of ideas.entries()) {
+    await emit({ type: 'idea', idea, index });
+  }
+  await report({ stage: 'ideas', status: 'completed', result: { ideas } });
+}
+
+function hasVisuals(visual: VisualAnalysis | null, vision: boolean): boolean {
+  return !!visual && (!vision || !!visual.vision);
+}
+
+async function readCachedAnalysis(key: string, version: string): Promise<CachedAnalysisEntry['result'] | null> {
+  const entry: CachedAnalysisEntry | null = await getAnalysisFromCache(key);
+  if (!entry?.result) return null;
+  if (entry.version !== version) {
+    console.log(`[PIPELINE] ♻️ Cached analysis for ${key} is stale (version ${entry.version}, current ${version})`);
+    return null;
+  }
+  // Entries written before segments were tracked have no timing.
+  // Hook analysis, metrics and retention are cheap and deterministic, so they are recomputed rather than trusted from the cache
+  const { transcript, metadata } = entry.result;
+  const segments = entry.result.segments ?? [];
+  const hookAnalysis = analyzeHook(segments);
+  return {
+    ...entry.result,
+    segments,
+    audio: entry.result.audio ?? null,
+    // Profiles need the caption sound tags, which the result does not keep, so older entries stay without one
+    audioProfile: entry.result.audioProfile ?? null,
+    visual: entry.result.visual ?? null,
+    hookAnalysis,
+    metrics: computeTranscriptMetrics(transcript, { durationSeconds: metadata.duration, segments }),
+    retention: estimateRetention(segments, { durationSeconds: metadata.duration, hookAnalysis }),
+  };
+}
+
+async function writeCachedAnalysis(key: string, entry: CachedAnalysisEntry): Promise<void> {
+  try {
+    await setAnalysisCache(key, entry);
+  } catch (error) {
+    console.warn(`[PIPELINE] Failed to cache analysis for ${key}:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function readCachedTranscript(key: string): Promise<CachedTranscriptEntry | null> {
+  const data = await getTranscriptFromCache(key);
+  if (!data) return null;
+  try {
+    const entry = JSON.parse(data) as CachedTranscriptEntry;
+    return entry.transcript ? { ...entry, segments: entry.segments ?? [] } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCachedTranscript(key: string, entry: CachedTranscriptEntry): Promise<void> {
+  try {
+    await setTranscriptCache(key, JSON.stringify(entry));
+  } catch (error) {
+    console.warn(`[PIPELINE] Failed to cache transcript for ${key}:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function fetchPlatformTranscript(platform: Platform, videoId: string): Promise<TimedTranscript | null> {
+  // Only YouTube exposes captions through an API; other platforms go straight to audio transcription
+  if (platform !== 'youtube') {
+    console.log(`[PIPELINE] ⏭️ No caption source for ${platform}, skipping to audio transcription`);
+    return null;
+  }
+
+  console.log('[PIPELINE] 🔍 Fetching transcript from YouTube...');
+  const transcript = await getSimpleTranscript(videoId);
+  console.log(`[PIPELINE] 📝 Transcript result: ${transcript ? `${transcript.text.length} characters` : 'NOT FOUND'}`);
+  return transcript;
+}
+
+async function transcribeFromAudio(
+  videoUrl: string,
+  metadata: VideoMetadata,
+  signal?: AbortSignal,
+  emit?: (event: PipelineEvent) => Promise<void>
+): Promise<{ timed: TimedTranscript; audio: AudioAnalysis | null }> {
+  console.log('[PIPELINE] 🎯 No transcript found, downloading audio for transcription...');
+  let cleanup: (() => Promise<void>) | null = null;
+  try {
+    console.log(`[PIPELINE] 🎵 Downloading audio from ${metadata.platform} video...`);
+    const audioResult = await platformManager.downloadAudio(videoUrl, { signal });
+    cleanup = audioResult.cleanup;
+    console.log(`[PIPELINE] ✅ Audio downloaded to: ${audioResult.audioPath}`);
+    throwIfCancelled(signal);
+
+    console.log('[PIPELINE] 🗣️ Transcribing audio with OpenAI Whisper...');
+    let transcript: TimedTranscript;
+    if (emit) {
+      await emit({ type: 'audio-downloaded' });
+      transcript = await transcribeAudioInChunks(audioResult.audioPath, {
+        signal,
+        onPartial: (partial) => emit({ type: 'transcript-partial', ...partial })
+      });
+    } else {
+      transcript = await transcribeAudio(audioResult.audioPath, { signal });
+    }
+    console.log(`[PIPELINE] ✅ Audio transcription complete: ${transcript.text.length} characters`);
+
+    // No text is not an error here: a silent or music-only video falls back to its on-screen text
+    if (!transcript.text) {
+      console.log('[PIPELINE] 🔇 No speech found in the audio');
+    }
+
+    // Measure the audio before it is cleaned up; a failed measurement never fails the transcription
+    const audio = await analyzeAudioFile(audioResult.audioPath, { transcript, signal });
+    return { timed: transcript, audio };
+  } catch (audioError) {
+    if (signal?.aborted) {
+      throw new PipelineCancelledError();
+    }
+    console.error('[PIPELINE] ❌ Audio processing failed:', audioError);
+    // A private, geo-blocked or removed video will never transcribe; say why instead of suggesting a retry
+    if (audioError instanceof YtDlpError && audioError.isPermanent) {
+      throw new PipelineError(
+        `${audioError.message}: "${metadata.title}" has no captions and its audio cannot be downloaded.`,
+        'transcription',
+        errorCodeForYtDlp(audioError.code),
+        { ytdlp: audioError.code }
+      );
+    }
+    throw new PipelineError(
+      `This video "${metadata.title}" doesn't have captions and audio transcription failed. Please try a different video or contact support.`,
+      'transcription',
+      'TRANSCRIPTION_FAILED',
+      audioError instanceof Error ? audioError.message : 'Unknown audio processing error'
+    );
+  } finally {
+    if (cleanup) {
+      await cleanup();
+      console.log('[PIPELINE] 🧹 Temporary files cleaned up');
+    }
+  }
+}
+
+/**
+ * Downloads the video and reads its on-screen text; a failure only means there is no fallback transcript
+ */
+async function readOnScreenText(
+  videoUrl: string,
+  metadata: VideoMetadata,
+  signal?: AbortSignal
+): Promise<TimedTranscript | null> {
+  if (!isOcrEnabled()) return null;
+  let cleanup: (() => Promise<void>) | null = null;
+  try {
+    console.log(`[PIPELINE] 🔤 No speech, downloading ${metadata.platform} video to read its on-screen text...`);
+    const download = await platformManager.downloadVideo(videoUrl, { signal });
+    cleanup = download.cleanup;
+    throwIfCancelled(signal);
+
+    const onScreen = await extractOnScreenText(download.videoPath, { signal, durationHint: metadata.duration });
+    console.log(`[PIPELINE] 📝 On-screen text: ${onScreen ? `${onScreen.segments.length} overlays, ${onScreen.text.length} characters` : 'none found'}`);
+    return onScreen;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new PipelineCancelledError();
+    }
+    console.warn('[PIPELINE] ⚠️ On-screen text extraction failed:', error instanceof Error ? error.message : String(error));
+    return null;
+  } finally {
+    if (cleanup) {
+      await cleanup();
+    }
+  }
+}
+
+/**
+ * Downloads the video and measures its cuts and composition; video mode is an extra, so failures leave it out
+ */
+async function analyzeVisuals(
+  videoUrl: string,
+  metadata: VideoMetadata,
+  vision: boolean,
+  signal?: AbortSignal
+): Promise<VisualAnalysis | null> {
+  let cleanup: (() => Promise<void>) | null = null;
+  try {
+    console.log(`[PIPELINE] 🎬 Downloading ${metadata.platform} video for frame analysis...`);
+    const download = await platformManager.downloadVideo(videoUrl, { signal });
+    cleanup = download.cleanup;
+    throwIfCancelled(signal);
+
+    const visual = await analyzeVideoFile(download.videoPath, { vision, signal, durationHint: metadata.duration });
+    console.log(`[PIPELINE] 🎞️ Visuals: ${visual.cutCount} cuts (${visual.cutsPer10Seconds} per 10s), median shot ${visual.shots.medianSeconds}s${visual.vision ? ', keyframes described' : ''}`);
+    return visual;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new PipelineCancelledError();
+    }
+    console.warn('[PIPELINE] ⚠️ Visual analysis failed, continuing without it:', error instanceof Error ? error.message : String(error));
+    return null;
+  } finally {
+    if (cleanup) {
+      await cleanup();
+    }
+  }
+}
@@ -1,24 +1,45 @@
+import { z } from "zod";
 import { MODELS, openai } from "./openai";
+import { llm } from "./llm/manager";
 
-export type AnalysisJSON = {
-  hook: string;
-  entryStyle: string;
-  niche: string;
-  structure: string;
-  lengthSeconds: number;
-  pace: "slow" | "moderate" | "fast" | string;
-  emotion: string;
-};
+const requiredText = z.string().trim().min(1, "must not be empty");
 
-export type Idea = {
-  title: string;
-  hook: string;
-  outline: string;
-  suggestedLength?: number;
-  tone?: string;
-};
+// Validates model output; the hand-written JSON Schemas below are what the model is asked to follow
+export const ANALYSIS_SCHEMA = z.object({
+  hook: requiredText,
+  entryStyle: requiredText,
+  niche: requiredText,
+  structure: requiredText,
+  lengthSeconds: z.number().nonnegative(),
+  pace: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+    z.enum(["slow", "moderate", "fast"])
+  ),
+  emotion: requiredText,
+});
+
+export const IDEA_SCHEMA = z.object({
+  title: requiredText,
+  hook: requiredText,
+  outline: requiredText,
+  suggestedLength: z.number().positive().optional(),
+  tone: z.string().optional(),
+});
+
+export const IDEAS_SCHEMA = z.object({
+  ideas: z.array(IDEA_SCHEMA).length(3),
+});
+
+export type AnalysisJSON = z.infer<typeof ANALYSIS_SCHEMA>;
+
+export type Idea = z.infer<typeof IDEA_SCHEMA>;
 
 import { createReadStream } from "node:fs";
+import { createHash } from "node:crypto";
+import type { TranscriptSegment } from "./transcript";
+import type { TranscriptMetrics } from "./transcript-metrics";
+import type { AudioAnalysis } from "./audio-analysis";
+import type { VisualAnalysis } from "./visual-analysis";
 
 export async function transcribeAudio(filePath: string): Promise<string> {
   if (!process.env.OPENAI_API_KEY) throw new Error("Missing OPENAI_API_KEY env var");
@@ -30,137 +51,301 @@ export async function transcribeAudio(filePath: string): Promise<string> {
   return typeof resp === "string" ? resp : (resp as any).text || "";
 }
 
-export function computePaceFromWpm(wpm: number): "slow" | "moderate" | "fast" {
-  if (wpm < 110) return "slow";
-  if (wpm < 160) return "moderate";
-  return "fast";
+export { computePaceFromWpm } from "./transcript-metrics";
+
+export type HookType =
+  | "question"
+  | "bold_claim"
+  | "pattern_interrupt"
+  | "story_open"
+  | "curiosity_gap"
+  | "statistic"
+  | "direct_address"
+  | "statement";
+
+export type HookAnalysis = {
+  // Speech inside the hook window
+  text: string;
+  windowSeconds: number;
+  // Seconds before the first word is spoken
+  firstSpeechAt: number;
+  wordsBeforeFirstSecond: number;
+  wordsPerSecond: number;
+  type: HookType;
+  slowStart: boolean;
+  // 0-100
+  score: number;
+  reasons: string[];
+};
+
+const HOOK_WINDOW_SECONDS = 3;
+// Speech starting later than this loses viewers before anything is said
+const SLOW_START_SECONDS = 1;
+
+// Checked in order; the first match wins
+const HOOK_PATTERNS: Array<{ type: HookType; pattern: RegExp }> = [
+  { type: "pattern_interrupt", pattern: /^(stop|wait|hold on|don'?t|never|quit|no+)\b/i },
+  { type: "curiosity_gap", pattern: /\b(secret|nobody|no one|what happens|here'?s (why|how|what)|the reason|you won'?t believe|until you|find out|this is why)\b/i },
+  { type: "statistic", pattern: /\b\d+(\.\d+)?\s?(%|percent|x|times|million|billion|k|dollars?)\b|\$\d/i },
+  { type: "story_open", pattern: /^(so |yesterday|last (week|year|night)|when i|i (was|just|got|went|tried|spent)|this (guy|girl|man|woman))/i },
+  { type: "bold_claim", pattern: /\b(best|worst|biggest|only|always|never|everyone|nobody|guaranteed|the truth|is dead|is a scam|changed my life)\b/i },
+  { type: "direct_address", pattern: /^(you|your|if you|are you|pov)\b/i },
+];
+
+const HOOK_TYPE_POINTS: Record<HookType, number> = {
+  question: 15,
+  bold_claim: 15,
+  pattern_interrupt: 15,
+  curiosity_gap: 15,
+  statistic: 12,
+  story_open: 10,
+  direct_address: 8,
+  statement: 0,
+};
+
+// Spreads each segment's words evenly across its duration to estimate per-word timing
+function estimateWordTimes(segments: TranscriptSegment[]): Array<{ word: string; time: number }> {
+  return segments.flatMap(segment => {
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const step = words.length > 0 ? (segment.end - segment.start) / words.length : 0;
+    return words.map((word, i) => ({ word, time: segment.start + i * step }));
+  });
+}
+
+function classifyHook(text: string): HookType {
+  const trimmed = text.trim();
+  if (/\?/.test(trimmed) || /^(what|why|how|who|when|where|did|do|does|is|are|have|can|would|ever)\b/i.test(trimmed)) {
+    return "question";
+  }
+  return HOOK_PATTERNS.find(({ pattern }) => pattern.test(trimmed))?.type ?? "statement";
+}
+
+/**
+ * Scores the opening seconds of speech from timed segments
+ * Returns null when the transcript has no timing (e.g. a provided transcript)
+ */
+export function analyzeHook(segments: TranscriptSegment[]): HookAnalysis | null {
+  const words = estimateWordTimes(segments);
+  if (words.length === 0) return null;
+
+  const firstSpeechAt = Math.max(0, words[0].time);
+  const windowEnd = Math.max(HOOK_WINDOW_SECONDS, firstSpeechAt + 1);
+  const hookWords = words.filter(w => w.time < windowEnd);
+  const text = hookWords.map(w => w.word).join(" ");
+  const wordsBeforeFirstSecond = words.filter(w => w.time < 1).length;
+  const spokenSeconds = Math.max(windowEnd - firstSpeechAt, 0.5);
+  const wordsPerSecond = Math.round((hookWords.length / spokenSeconds) * 10) / 10;
+  const slowStart = firstSpeechAt > SLOW_START_SECONDS;
+  const type = classifyHook(text);
+
+  let score = 50;
+  const reasons: string[] = [];
+
+  if (slowStart) {
+    score -= 25;
+    reasons.push(`Slow start: first word at ${firstSpeechAt.toFixed(1)}s`);
+  } else if (firstSpeechAt <= 0.3) {
+    score += 10;
+    reasons.push("Speech starts immediately");
+  }
+
+  if (wordsBeforeFirstSecond >= 3) {
+    score += 10;
+    reasons.push(`${wordsBeforeFirstSecond} words in the first second`);
+  } else if (wordsBeforeFirstSecond === 0) {
+    score -= 10;
+    reasons.push("Nothing said in the first second");
+  }
+
+  if (HOOK_TYPE_POINTS[type] > 0) {
+    score += HOOK_TYPE_POINTS[type];
+    reasons.push(`Opens with a ${type.replace("_", " ")}`);
+  } else {
+    reasons.push("Opens with a plain statement");
+  }
+
+  // Roughly 2.5 words per second is natural short-form delivery
+  if (wordsPerSecond >= 2.5) {
+    score += 10;
+    reasons.push(`Dense opening (${wordsPerSecond} words/s)`);
+  } else if (wordsPerSecond < 1.5) {
+    score -= 10;
+    reasons.push(`Sparse opening (${wordsPerSecond} words/s)`);
+  }
+
+  return {
+    text,
+    windowSeconds: Math.round(windowEnd * 10) / 10,
+    firstSpeechAt: Math.round(firstSpeechAt * 100) / 100,
+    wordsBeforeFirstSecond,
+    wordsPerSecond,
+    type,
+    slowStart,
+    score: Math.max(0, Math.min(100, score)),
+    reasons,
+  };
+}
+
+const ANALYSIS_SYSTEM_PROMPT = `You are a video content analyst for short-form videos.
+Return STRICT JSON that matches the provided JSON Schema. Do not include any extra keys or commentary.
+"Measured facts" are computed from the transcript, audio and video and are exact: use them as given and never re-estimate them.`;
+
+const IDEAS_SYSTEM_PROMPT = `You are a short-form content idea generator.
+Produce 3 ORIGINAL ideas inspired by the analysis. Return STRICT JSON per schema.`;
+
+const ANALYSIS_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    hook: { type: "string" },
+    entryStyle: { type: "string" },
+    niche: { type: "string" },
+    structure: { type: "string" },
+    lengthSeconds: { type: "number" },
+    pace: { type: "string", enum: ["slow", "moderate", "fast"], default: "moderate" },
+    emotion: { type: "string" }
+  },
+  required: ["hook", "entryStyle", "niche", "structure", "lengthSeconds", "pace", "emotion"]
+};
+
+const IDEAS_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    ideas: {
+      type: "array",
+      minItems: 3,
+      maxItems: 3,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          title: { type: "string" },
+          hook: { type: "string" },
+          outline: { type: "string" },
+          suggestedLength: { type: "number" },
+          tone: { type: "string" }
+        },
+        required: ["title", "hook", "outline", "suggestedLength", "tone"]
+      }
+    }
+  },
+  required: ["ideas"]
+};
+
+/**
+ * Identifies the models and prompts behind an analysis, so cached results
+ * produced by a different model or prompt are treated as stale
+ */
+export function getAnalysisVersion(): string {
+  return createHash("sha256")
+    .update(JSON.stringify([
+      llm.getTaskConfig("analysis"),
+      llm.getTaskConfig("ideas"),
+      ANALYSIS_SYSTEM_PROMPT,
+      IDEAS_SYSTEM_PROMPT,
+      ANALYSIS_JSON_SCHEMA,
+      IDEAS_JSON_SCHEMA,
+    ]))
+    .digest("hex")
+    .slice(0, 12);
 }
 
-async function withRetry<T>(fn: () => Promise<T>, opts?: { retries?: number; baseDelayMs?: number }): Promise<T> {
-  const retries = opts?.retries ?? 3;
-  const base = opts?.baseDelayMs ?? 500;
-  let lastErr: any;
-  for (let i = 0; i <= retries; i++) {
-    try {
-      return await fn();
-    } catch (e: any) {
-      lastErr = e;
-      const is429 = typeof e?.status === "number" ? e.status === 429 : /429/.test(String(e?.message || ""));
-      const is5xx = typeof e?.status === "number" ? e.status >= 500 : false;
-      if (i === retries || (!is429 && !is5xx)) break;
-      const delay = base * Math.pow(2, i) + Math.floor(Math.random() * 200);
-      await new Promise((r) => setTimeout(r, delay));
+function formatMetricsForPrompt(metrics: TranscriptMetrics): string {
+  const percent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`;
+  return [
+    "Measured facts:",
+    `- Length: ${metrics.durationSeconds ?? "unknown"} seconds`,
+    `- Words: ${metrics.wordCount} (${metrics.wordsPerMinute ?? "unknown"} words per minute, pace ${metrics.pace ?? "unknown"})`,
+    `- Sentences: ${metrics.sentenceCount} (average ${metrics.averageSentenceLength} words)`,
+    `- Questions asked: ${metrics.questionCount}`,
+    `- Filler words: ${metrics.fillerWordCount} (${percent(metrics.fillerWordRatio)})`,
+    `- Second-person words: ${percent(metrics.secondPersonRatio)}`,
+    `- Readability grade: ${metrics.readabilityGrade}`,
+    `- Lexical density: ${percent(metrics.lexicalDensity)}`,
+  ].join("\n");
+}
+
+function formatAudioForPrompt(audio: AudioAnalysis): string {
+  const lines = [
+    `- Loudness: ${audio.loudness.integratedLufs ?? "silent"} LUFS (short-term spread ${audio.loudness.stdDevLu ?? "unknown"} LU)`,
+    `- Silence: ${Math.round(audio.silence.ratio * 100)}% of the audio, ${audio.silence.gaps.length} gaps`,
+    `- Speech share of the audible audio: ${audio.content.speechRatio === null ? "unknown" : `${Math.round(audio.content.speechRatio * 100)}%`}`,
+  ];
+  if (audio.pacing) {
+    lines.push(`- Speaking rate excluding pauses: ${audio.pacing.wordsPerMinute} words per minute (pace ${audio.pacing.pace})`);
+  }
+  return lines.join("\n");
+}
+
+function formatVisualForPrompt(visual: VisualAnalysis): string {
+  const lines = [
+    `- Cuts: ${visual.cutCount} (${visual.cutsPer10Seconds} per 10 seconds, median shot ${visual.shots.medianSeconds}s)`,
+  ];
+  if (visual.firstFrame) {
+    lines.push(`- First frame: brightness ${visual.firstFrame.brightness}, colorfulness ${visual.firstFrame.colorfulness}, detail focused ${visual.firstFrame.focusRegion}`);
+  }
+  if (visual.vision) {
+    lines.push(`- Face on camera: ${visual.vision.faceOnCamera ? "yes" : "no"}`);
+    lines.push(`- Visual hook: ${visual.vision.visualHook}`);
+    if (visual.vision.onScreenText.length > 0) {
+      lines.push(`- On-screen text: ${visual.vision.onScreenText.map(item => `"${item.text}" (${item.time}s)`).join(", ")}`);
     }
   }
-  throw lastErr;
+  return lines.join("\n");
 }
 
 export async function analyzeTranscript(
   transcript: string,
-  metadata: { title: string; channel: string; views?: number; fallbackPace?: string; fallbackLength?: number }
+  metadata: { title: string; channel: string; views?: number; fallbackPace?: string; fallbackLength?: number; metrics?: TranscriptMetrics; audio?: AudioAnalysis | null; visual?: VisualAnalysis | null; onScreenText?: boolean },
+  options: { signal?: AbortSignal } = {}
 ): Promise<AnalysisJSON> {
-  const sys = `You are a video content analyst for short-form videos.
-Return STRICT JSON that matches the provided JSON Schema. Do not include any extra keys or commentary.`;
-  const user = `Transcript:\n${transcript}\n\nMetadata:\nTitle: ${metadata.title}\nViews: ${metadata.views ?? ""}\nChannel: ${metadata.channel}\n\nHints (optional fallbacks): pace=${metadata.fallbackPace ?? ""}, lengthSeconds=${metadata.fallbackLength ?? ""}`;
+  const sys = ANALYSIS_SYSTEM_PROMPT;
+  const factLines = [
+    metadata.metrics ? formatMetricsForPrompt(metadata.metrics) : "",
+    metadata.audio ? formatAudioForPrompt(metadata.audio) : "",
+    metadata.visual ? formatVisualForPrompt(metadata.visual) : "",
+  ].filter(Boolean);
+  // formatMetricsForPrompt opens with the heading; the audio and visual lines only add to it
+  const heading = metadata.metrics ? "" : "Measured facts:\n";
+  const facts = factLines.length > 0 ? `\n\n${heading}${factLines.join("\n")}` : "";
+  // A text-overlay video has no speech; its "transcript" is the text shown on screen
+  const label = metadata.onScreenText ? "Transcript (on-screen text read from the video; nothing is spoken)" : "Transcript";
+  const user = `${label}:\n${transcript}\n\nMetadata:\nTitle: ${metadata.title}\nViews: ${metadata.views ?? ""}\nChannel: ${metadata.channel}${facts}\n\nHints (optional fallbacks): pace=${metadata.fallbackPace ?? ""}, lengthSeconds=${metadata.fallbackLength ?? ""}`;
 
-  const chat = await withRetry(() => openai.chat.completions.create({
-    model: MODELS.ANALYSIS,
+  const { data } = await llm.completeStructured("analysis", {
     messages: [
       { role: "system", content: sys },
       { role: "user", content: user },
     ],
     temperature: 0.2,
-    response_format: {
-      type: "json_schema",
-      json_schema: {
-        name: "shorts_analysis",
-        strict: true,
-        schema: {
-          type: "object",
-          additionalProperties: false,
-          properties: {
-            hook: { type: "string" },
-            entryStyle: { type: "string" },
-            niche: { type: "string" },
-            structure: { type: "string" },
-            lengthSeconds: { type: "number" },
-            pace: { type: "string", enum: ["slow", "moderate", "fast"], default: "moderate" },
-            emotion: { type: "string" }
-          },
-          required: ["hook", "entryStyle", "niche", "structure", "lengthSeconds", "pace", "emotion"]
-        }
-      }
-    }
-  }));
-  const content = (chat as any).choices?.[0]?.message?.content || "{}";
-  try {
-    const parsed = JSON.parse(content);
-    return parsed;
-  } catch {
-    return {
-      hook: "",
-      entryStyle: "",
-      niche: "",
-      structure: "",
-      lengthSeconds: metadata.fallbackLength ?? 0,
-      pace: (metadata.fallbackPace as any) || "moderate",
-      emotion: "",
-    };
-  }
+    schema: { name: "shorts_analysis", schema: ANALYSIS_JSON_SCHEMA },
+    signal: options.signal,
+  }, ANALYSIS_SCHEMA);
+  // Measured values win over whatever the model returned
+  const measured: Partial<AnalysisJSON> = {};
+  if (metadata.metrics?.durationSeconds) measured.lengthSeconds = Math.round(metadata.metrics.durationSeconds);
+  // Pace measured from the audio excludes pauses, so it beats the transcript's words-over-duration estimate;
+  // on-screen text says nothing about speaking pace, so the model's judgement stands there
+  const pace = metadata.onScreenText ? undefined : (metadata.audio?.pacing?.pace ?? metadata.metrics?.pace);
+  if (pace) measured.pace = pace;
+  return { ...data, ...measured };
 }
 
 export async function generateIdeas(
-  analysis: AnalysisJSON
+  analysis: AnalysisJSON,
+  options: { signal?: AbortSignal } = {}
 ): Promise<Idea[]> {
-  const sys = `You are a short-form content idea generator.
-Produce 3 ORIGINAL ideas inspired by the analysis. Return STRICT JSON per schema.`;
+  const sys = IDEAS_SYSTEM_PROMPT;
   const user = `Analysis JSON:\n${JSON.stringify(analysis, null, 2)}`;
-  const chat = await withRetry(() => openai.chat.completions.create({
-    model: MODELS.IDEAS,
+  const { data } = await llm.completeStructured("ideas", {
     messages: [
       { role: "system", content: sys },
       { role: "user", content: user },
     ],
     temperature: 0.8,
-    response_format: {
-      type: "json_schema",
-      json_schema: {
-        name: "shorts_ideas",
-        strict: true,
-        schema: {
-          type: "object",
-          additionalProperties: false,
-          properties: {
-            ideas: {
-              type: "array",
-              minItems: 3,
-              maxItems: 3,
-              items: {
-                type: "object",
-                additionalProperties: false,
-                properties: {
-                  title: { type: "string" },
-                  hook: { type: "string" },
-                  outline: { type: "string" },
-                  suggestedLength: { type: "number" },
-                  tone: { type: "string" }
-                },
-                required: ["title", "hook", "outline", "suggestedLength", "tone"]
-              }
-            }
-          },
-          required: ["ideas"]
-        }
-      }
-    }
-  }));
-  const content = (chat as any).choices?.[0]?.message?.content || "{\"ideas\":[]}";
-  try {
-    const parsed = JSON.parse(content);
-    if (Array.isArray(parsed)) return parsed as any;
-    if (Array.isArray(parsed?.ideas)) return parsed.ideas as Idea[];
-    return [];
-  } catch {
-    return [];
-  }
+    schema: { name: "shorts_ideas", schema: IDEAS_JSON_SCHEMA },
+    signal: options.signal,
+  }, IDEAS_SCHEMA);
+  return data.ideas;
 }
@@ -0,0 +1,189 @@
+/**
+ * Personal API keys
+ * Keys look like sa_<prefix>_<secret>; only their SHA-256 is stored, the prefix is kept so users can tell keys apart.
+ * A key acts as its owner, limited to its scopes, and never exceeds the owner's current role
+ */
+
+import { randomBytes, createHash, randomUUID } from 'node:crypto';
+import { requireDb } from './db';
+import { ForbiddenError, ValidationError } from './errors';
+import { isUuid, User, UserRole } from './accounts';
+import type { RateLimitBudget } from './rate-limit';
+
+export const API_KEY_SCOPES = ['analyze', 'trending', 'scripts', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  // Replaces the default rate-limit budget for this key; set by admins
+  quota: Partial<RateLimitBudget> | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rate_limit_burst: number | null;
+  rate_limit_per_minute: number | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+// API key configuration
+const API_KEY_CONFIG = {
+  MAX_KEYS_PER_USER: 20,
+  // last_used_at is informational; writing it on every request would cost a query per call
+  LAST_USED_PRECISION_MS: 60 * 1000,
+};
+
+// Scopes a role may grant to its keys
+const SCOPES_BY_ROLE: Record<UserRole, readonly ApiKeyScope[]> = {
+  member: ['analyze', 'trending', 'scripts'],
+  admin: API_KEY_SCOPES,
+};
+
+const API_KEY_PATTERN = /^sa_[0-9a-f]{8}_[A-Za-z0-9_-]{32}$/;
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  const quota: Partial<RateLimitBudget> = {};
+  if (row.rate_limit_burst !== null) quota.capacity = row.rate_limit_burst;
+  if (row.rate_limit_per_minute !== null) quota.refillPerMinute = row.rate_limit_per_minute;
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes,
+    quota: Object.keys(quota).length > 0 ? quota : null,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : null,
+  };
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function canUseScope(user: User, scope: ApiKeyScope): boolean {
+  return SCOPES_BY_ROLE[user.role].includes(scope);
+}
+
+/**
+ * Mints a key for the user; the plaintext key is returned once and cannot be recovered later
+ */
+export async function createApiKey(
+  user: User,
+  input: { name: string; scopes: ApiKeyScope[]; quota?: Partial<RateLimitBudget> }
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const denied = input.scopes.filter(scope => !canUseScope(user, scope));
+  if (denied.length > 0) {
+    throw new ForbiddenError(`Your role cannot grant the ${denied.join(', ')} scope`);
+  }
+  if (input.quota && user.role !== 'admin') {
+    throw new ForbiddenError('Only admins can set a custom rate limit on a key');
+  }
+
+  const db = await requireDb();
+  const { rows: countRows } = await db.query<{ count: string }>(
+    'SELECT count(*) AS count FROM api_keys WHERE user_id = $1 AND revoked_at IS NULL',
+    [user.id]
+  );
+  if (parseInt(countRows[0].count) >= API_KEY_CONFIG.MAX_KEYS_PER_USER) {
+    throw new ValidationError(`You can have at most ${API_KEY_CONFIG.MAX_KEYS_PER_USER} active keys; revoke one first`);
+  }
+
+  const prefix = randomBytes(4).toString('hex');
+  const key = `sa_${prefix}_${randomBytes(24).toString('base64url')}`;
+
+  const { rows } = await db.query<ApiKeyRow>(
+    `INSERT INTO api_keys (id, user_id, name, prefix, key_hash, scopes, rate_limit_burst, rate_limit_per_minute)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [
+      randomUUID(),
+      user.id,
+      input.name,
+      prefix,
+      hashKey(key),
+      [...new Set(input.scopes)],
+      input.quota?.capacity ?? null,
+      input.quota?.refillPerMinute ?? null,
+    ]
+  );
+  console.log(`[API_KEYS] 🔑 ${user.email} created key "${input.name}" (${prefix}) with scopes ${input.scopes.join(', ')}`);
+
+  return { key, apiKey: toApiKey(rows[0]) };
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const db = await requireDb();
+  const { rows } = await db.query<ApiKeyRow>(
+    'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC',
+    [userId]
+  );
+  return rows.map(toApiKey);
+}
+
+/**
+ * Revokes one of the user's keys; admins may revoke anyone's
+ * Returns null when the key does not exist or belongs to someone else
+ */
+export async function revokeApiKey(user: User, id: string): Promise<ApiKey | null> {
+  if (!isUuid(id)) return null;
+  const db = await requireDb();
+  const { rows } = await db.query<ApiKeyRow>(
+    `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, now())
+     WHERE id = $1 AND (user_id = $2 OR $3)
+     RETURNING *`,
+    [id, user.id, user.role === 'admin']
+  );
+  if (rows[0]) {
+    console.log(`[API_KEYS] 🗑️ ${user.email} revoked key ${rows[0].prefix}`);
+  }
+  return rows[0] ? toApiKey(rows[0]) : null;
+}
+
+/**
+ * Resolves a presented key to its active record and owner; null for unknown, malformed or revoked keys
+ */
+export async function authenticateApiKey(key: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+  if (!API_KEY_PATTERN.test(key)) return null;
+
+  const db = await requireDb();
+  const { rows } = await db.query<ApiKeyRow & { email: string; role: UserRole; user_created_at: Date; last_login_at: Date | null }>(
+    `SELECT api_keys.*, users.email, users.role, users.created_at AS user_created_at, users.last_login_at
+     FROM api_keys JOIN users ON users.id = api_keys.user_id
+     WHERE api_keys.key_hash = $1 AND api_keys.revoked_at IS NULL`,
+    [hashKey(key)]
+  );
+  const row = rows[0];
+  if (!row) return null;
+
+  const lastUsed = row.last_used_at ? new Date(row.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > API_KEY_CONFIG.LAST_USED_PRECISION_MS) {
+    await db.query('UPDATE api_keys SET last_used_at = now() WHERE id = $1', [row.id]);
+  }
+
+  return {
+    apiKey: toApiKey(row),
+    user: {
+      id: row.user_id,
+      email: row.email,
+      role: row.role,
+      createdAt: new Date(row.user_created_at).toISOString(),
+      lastLoginAt: row.last_login_at ? new Date(row.last_login_at).toISOString() : null,
+    },
+  };
+}
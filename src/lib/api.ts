@@ -0,0 +1,180 @@
+/**
+ * Route helpers
+ * Wraps route handlers so every failure is logged with its code and returned in the shared error envelope,
+ * and applies rate limiting, input validation, role and API key scope checks and security headers declaratively
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logApiKeyUsage, logError, logPerformance, logRateLimitHit } from './monitoring';
+import { AppError, RateLimitError, ValidationError, toAppError, toErrorEnvelope } from './errors';
+import { addSecurityHeaders, getClientIdentifier } from './security';
+import { consumeRateLimit, RateLimitResult, RateLimitRule, RateLimitSubject } from './rate-limit';
+import { assertRole, assertScope, getRequestAuth, RequestAuth } from './auth';
+import type { User, UserRole } from './accounts';
+import type { ApiKey, ApiKeyScope } from './api-keys';
+import { requireDb } from './db';
+
+export type RouteHandler<Context = unknown> = (request: NextRequest, context: Context) => Promise<Response>;
+
+export function errorResponse(error: AppError): NextResponse {
+  const headers: Record<string, string> = {};
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    headers['Retry-After'] = String(error.retryAfter);
+  }
+  return NextResponse.json(toErrorEnvelope(error), { status: error.status, headers });
+}
+
+export function withErrorHandling<Context = unknown>(
+  endpoint: string,
+  handler: RouteHandler<Context>
+): RouteHandler<Context> {
+  return async (request, context) => {
+    const startTime = Date.now();
+    try {
+      return await handler(request, context);
+    } catch (thrown) {
+      const error = toAppError(thrown);
+
+      if (error.code !== 'CANCELLED') {
+        console.error(`[API] ❌ ${request.method} ${endpoint} failed with ${error.code}:`, thrown);
+        logError({
+          endpoint,
+          method: request.method,
+          code: error.code,
+          error: error.message,
+          stack: thrown instanceof Error ? thrown.stack : undefined,
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown'
+        });
+      }
+
+      logPerformance({
+        endpoint,
+        method: request.method,
+        duration: Date.now() - startTime,
+        success: false
+      });
+
+      return errorResponse(error);
+    }
+  };
+}
+
+export interface ApiOptions<Input> {
+  // Parses query parameters for GET/DELETE and the JSON body otherwise; the result is passed to the handler as input
+  schema?: z.ZodType<Input, z.ZodTypeDef, unknown>;
+  // Tokens this route spends from the client's bucket, see RATE_LIMIT_COSTS
+  rateLimit?: RateLimitRule;
+  // Minimum role; anonymous requests get 401, lower roles 403
+  auth?: UserRole;
+  // Scope an API key needs for this route; without one, auth routes only accept sessions
+  scope?: ApiKeyScope;
+}
+
+export type ApiHandler<Input, Context> = (
+  request: NextRequest,
+  // user is always set when the route declares auth; apiKey when the caller used one
+  args: { input: Input; context: Context; user: User | null; apiKey: ApiKey | null }
+) => Promise<Response>;
+
+async function readInput(request: NextRequest): Promise<unknown> {
+  if (request.method === 'GET' || request.method === 'DELETE') {
+    return Object.fromEntries(new URL(request.url).searchParams);
+  }
+  const text = await request.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+}
+
+// Each API key has its own bucket and optional quota; signed-in users get one bucket across devices;
+// anonymous clients share a bucket per IP
+function getRateLimitSubject(request: NextRequest, auth: RequestAuth | null): RateLimitSubject {
+  if (auth?.apiKey) {
+    return { id: `key:${auth.apiKey.id}`, quota: auth.apiKey.quota ?? undefined };
+  }
+  return { id: auth ? `user:${auth.user.id}` : getClientIdentifier(request) };
+}
+
+function setRateLimitHeaders(response: Response, result: RateLimitResult): void {
+  response.headers.set('X-RateLimit-Limit', String(result.limit));
+  response.headers.set('X-RateLimit-Remaining', String(result.remaining));
+  response.headers.set('X-RateLimit-Reset', String(Math.ceil(result.resetTime / 1000)));
+  response.headers.set('X-RateLimit-Cost', String(result.cost));
+}
+
+/**
+ * Full route wrapper: session or API key lookup, rate limit, then auth, then schema validation, then the handler
+ * Every response, including errors and 429s, carries the security headers and X-RateLimit-* headers,
+ * and requests made with an API key are attributed to that key in monitoring
+ */
+export function withApi<Input = undefined, Context = unknown>(
+  endpoint: string,
+  options: ApiOptions<Input>,
+  handler: ApiHandler<Input, Context>
+): RouteHandler<Context> {
+  // The caller is resolved once per request and shared by the limiter and the guarded handler
+  const callers = new WeakMap<NextRequest, RequestAuth | null>();
+
+  const guarded = withErrorHandling<Context>(endpoint, async (request, context) => {
+    const auth = callers.has(request) ? callers.get(request)! : await getRequestAuth(request);
+    const user = auth?.user ?? null;
+    if (options.auth) {
+      // Without a database nobody can sign in; say so instead of a misleading 401
+      if (!user) await requireDb();
+      assertRole(user, options.auth);
+      assertScope(auth!, options.scope);
+    }
+
+    const input = options.schema
+      ? options.schema.parse(await readInput(request))
+      : (undefined as Input);
+
+    return handler(request, { input, context, user, apiKey: auth?.apiKey ?? null });
+  });
+
+  return async (request, context) => {
+    const start = Date.now();
+    let limit: RateLimitResult | null = null;
+    let response: Response;
+
+    // A failing lookup (bad key, database down) is retried and reported by the guarded handler, meanwhile limit by IP
+    const auth = await getRequestAuth(request).catch(() => undefined);
+    if (auth !== undefined) callers.set(request, auth);
+
+    const subject = getRateLimitSubject(request, auth ?? null);
+    if (options.rateLimit) {
+      limit = await consumeRateLimit(subject, options.rateLimit);
+    }
+
+    if (limit && !limit.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+      console.warn(`[API] 🚦 Rate limit hit on ${request.method} ${endpoint} by ${subject.id}`);
+      logRateLimitHit();
+      response = errorResponse(new RateLimitError(`Too many requests. Try again in ${retryAfter}s.`, retryAfter));
+    } else {
+      response = await guarded(request, context);
+    }
+
+    if (limit) setRateLimitHeaders(response, limit);
+
+    if (auth?.apiKey) {
+      logApiKeyUsage({
+        apiKeyId: auth.apiKey.id,
+        name: auth.apiKey.name,
+        userId: auth.user.id,
+        endpoint,
+        method: request.method,
+        status: response.status,
+        duration: Date.now() - start,
+        rateLimited: !!limit && !limit.allowed,
+      });
+    }
+
+    return addSecurityHeaders(response);
+  };
+}
@@ -0,0 +1,423 @@
+/**
+ * Audio analysis
+ * Measures silence, loudness (EBU R128 / ITU-R BS.1770), speech versus music and energy over time
+ * from the WAV downloaded for transcription, so pacing comes from the audio rather than an LLM guess
+ */
+
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { promisify } from 'util';
+import type { TranscriptSegment } from './transcript';
+import { computePaceFromWpm, Pace, tokenizeWords } from './transcript-metrics';
+
+const execFileAsync = promisify(execFile);
+
+// Audio analysis configuration
+const AUDIO_CONFIG = {
+  // 'off' skips the analysis; it only ever runs on audio already downloaded for transcription
+  ENABLED: (process.env.AUDIO_ANALYSIS || 'on') !== 'off',
+  // ffmpeg downmixes and resamples before decoding; without it the WAV is decoded as-is
+  SAMPLE_RATE: 16000,
+  // Longer audio is truncated; shorts are well under this
+  MAX_SECONDS: 600,
+  FRAME_SECONDS: 0.05,
+  // Frames quieter than this count as silence
+  SILENCE_DBFS: -45,
+  MIN_SILENCE_SECONDS: 0.3,
+  // Share of quiet 20 ms frames in a second above which it sounds like speech (syllable gaps) rather than music
+  SPEECH_LOW_ENERGY_RATIO: 0.2,
+  // Speech whose pauses never drop below this is talking over a music bed rather than room tone
+  MUSIC_BED_DBFS: -42,
+  // Floor for dBFS and LUFS values of digital silence
+  FLOOR_DB: -90,
+};
+
+export type AudioLabel = 'silence' | 'speech' | 'music' | 'mixed';
+
+export interface SilenceGap {
+  start: number;
+  end: number;
+  duration: number;
+}
+
+export interface AudioAnalysis {
+  durationSeconds: number;
+  sampleRate: number;
+  loudness: {
+    // Integrated loudness of the mono mix; null when everything is below the -70 LUFS gate
+    integratedLufs: number | null;
+    // 3 s short-term loudness at each second
+    shortTermLufs: number[];
+    // Standard deviation of the gated short-term loudness, in LU
+    stdDevLu: number | null;
+    // EBU Tech 3342 loudness range (10th to 95th percentile of short-term loudness), in LU
+    rangeLu: number | null;
+  };
+  silence: {
+    gaps: SilenceGap[];
+    totalSeconds: number;
+    ratio: number;
+  };
+  content: {
+    speechSeconds: number;
+    musicSeconds: number;
+    // Speech over a sustained bed, usually music
+    mixedSeconds: number;
+    // Speech share (including mixed) of the non-silent audio, 0-1
+    speechRatio: number | null;
+    // What each second sounds like
+    timeline: AudioLabel[];
+  };
+  // RMS level of each second, in dBFS
+  energyEnvelope: number[];
+  // Words over the time actually spent talking; null without a transcript
+  pacing: {
+    speakingSeconds: number;
+    wordsPerMinute: number;
+    pace: Pace;
+  } | null;
+}
+
+export interface DecodedAudio {
+  sampleRate: number;
+  // Mono, -1..1
+  samples: Float32Array;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toDb(meanSquare: number): number {
+  return meanSquare > 0 ? Math.max(AUDIO_CONFIG.FLOOR_DB, 10 * Math.log10(meanSquare)) : AUDIO_CONFIG.FLOOR_DB;
+}
+
+/**
+ * Decodes a RIFF/WAVE buffer with integer or float PCM samples, averaging channels to mono
+ */
+export function decodeWav(buffer: Buffer): DecodedAudio {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let data: { offset: number; length: number } | null = null;
+
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      let audioFormat = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (audioFormat === 0xfffe && size >= 26) audioFormat = buffer.readUInt16LE(body + 24);
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data') {
+      // Streamed WAVs (e.g. ffmpeg writing to a pipe) leave the size unset
+      const length = size === 0 || size === 0xffffffff ? buffer.length - body : Math.min(size, buffer.length - body);
+      data = { offset: body, length };
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!format || !data) throw new Error('WAV file has no fmt or data chunk');
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+  const isFloat = audioFormat === 3;
+  if (!(audioFormat === 1 || isFloat) || ![8, 16, 24, 32].includes(bitsPerSample) || (isFloat && bitsPerSample !== 32)) {
+    throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample} bit)`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.min(
+    Math.floor(data.length / (bytesPerSample * channels)),
+    AUDIO_CONFIG.MAX_SECONDS * sampleRate
+  );
+  const read = (position: number): number => {
+    if (isFloat) return buffer.readFloatLE(position);
+    switch (bitsPerSample) {
+      case 8: return (buffer.readUInt8(position) - 128) / 128;
+      case 16: return buffer.readInt16LE(position) / 32768;
+      case 24: return buffer.readIntLE(position, 3) / 8388608;
+      default: return buffer.readInt32LE(position) / 2147483648;
+    }
+  };
+
+  const samples = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read(data.offset + (frame * channels + channel) * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+  return { sampleRate, samples };
+}
+
+/**
+ * Reads an audio file as mono samples: ffmpeg resamples to 16 kHz when available, else the WAV is decoded directly
+ */
+export async function loadAudio(audioPath: string, options: { signal?: AbortSignal } = {}): Promise<DecodedAudio> {
+  const ffmpegBin = process.env.FFMPEG_PATH || 'ffmpeg';
+  try {
+    const { stdout } = await execFileAsync(ffmpegBin, [
+      '-v', 'error', '-i', audioPath,
+      '-t', String(AUDIO_CONFIG.MAX_SECONDS),
+      '-ac', '1', '-ar', String(AUDIO_CONFIG.SAMPLE_RATE), '-c:a', 'pcm_s16le',
+      '-f', 'wav', 'pipe:1',
+    ], { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024, signal: options.signal });
+    return decodeWav(stdout);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.warn('[AUDIO] ffmpeg conversion failed, decoding the file directly:', error instanceof Error ? error.message : String(error));
+    return decodeWav(await readFile(audioPath));
+  }
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+// BS.1770 K-weighting (high shelf + high pass), with coefficients derived for any sample rate as in libebur128
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q1 + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q1 + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q1 + K * K) / a0,
+  };
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q2 + K * K) / a0,
+  };
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+}
+
+// Prefix sums of squared samples, so the mean square of any window is O(1)
+function squaredPrefix(samples: Float32Array): Float64Array {
+  const prefix = new Float64Array(samples.length + 1);
+  for (let i = 0; i < samples.length; i++) {
+    prefix[i + 1] = prefix[i] + samples[i] * samples[i];
+  }
+  return prefix;
+}
+
+function meanSquare(prefix: Float64Array, start: number, end: number): number {
+  const from = Math.max(0, start);
+  const to = Math.min(prefix.length - 1, end);
+  return to > from ? (prefix[to] - prefix[from]) / (to - from) : 0;
+}
+
+const lufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function measureLoudness(samples: Float32Array, sampleRate: number): AudioAnalysis['loudness'] {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const prefix = squaredPrefix(applyBiquad(applyBiquad(samples, shelf), highPass));
+
+  // Integrated: 400 ms blocks every 100 ms, absolute gate at -70 LUFS, relative gate 10 LU below the gated mean
+  const blockLength = Math.round(0.4 * sampleRate);
+  const hop = Math.round(0.1 * sampleRate);
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= samples.length; start += hop) {
+    blocks.push(meanSquare(prefix, start, start + blockLength));
+  }
+  const aboveAbsolute = blocks.filter(power => power > 0 && lufs(power) > -70);
+  let integratedLufs: number | null = null;
+  if (aboveAbsolute.length > 0) {
+    const relativeGate = lufs(aboveAbsolute.reduce((sum, power) => sum + power, 0) / aboveAbsolute.length) - 10;
+    const gated = aboveAbsolute.filter(power => lufs(power) > relativeGate);
+    integratedLufs = round(lufs(gated.reduce((sum, power) => sum + power, 0) / gated.length));
+  }
+
+  // Short-term: 3 s window ending at each second
+  const seconds = Math.ceil(samples.length / sampleRate);
+  const shortTermPower: number[] = [];
+  for (let second = 1; second <= seconds; second++) {
+    const end = Math.min(samples.length, second * sampleRate);
+    shortTermPower.push(meanSquare(prefix, end - 3 * sampleRate, end));
+  }
+  const shortTermLufs = shortTermPower.map(power => round(power > 0 ? Math.max(AUDIO_CONFIG.FLOOR_DB, lufs(power)) : AUDIO_CONFIG.FLOOR_DB));
+
+  const gatedShortTerm = shortTermPower.filter(power => power > 0 && lufs(power) > -70).map(lufs);
+  let stdDevLu: number | null = null;
+  let rangeLu: number | null = null;
+  if (gatedShortTerm.length > 1) {
+    const mean = gatedShortTerm.reduce((sum, value) => sum + value, 0) / gatedShortTerm.length;
+    stdDevLu = round(Math.sqrt(gatedShortTerm.reduce((sum, value) => sum + (value - mean) ** 2, 0) / gatedShortTerm.length));
+
+    const energyMean = gatedShortTerm.reduce((sum, value) => sum + 10 ** ((value + 0.691) / 10), 0) / gatedShortTerm.length;
+    const rangeGate = lufs(energyMean) - 20;
+    const inRange = gatedShortTerm.filter(value => value > rangeGate).sort((a, b) => a - b);
+    if (inRange.length > 1) rangeLu = round(percentile(inRange, 95) - percentile(inRange, 10));
+  }
+
+  return { integratedLufs, shortTermLufs, stdDevLu, rangeLu };
+}
+
+function findSilence(prefix: Float64Array, sampleRate: number, length: number): SilenceGap[] {
+  const frame = Math.round(AUDIO_CONFIG.FRAME_SECONDS * sampleRate);
+  const gaps: SilenceGap[] = [];
+  let silentSince: number | null = null;
+
+  const close = (endSample: number) => {
+    if (silentSince === null) return;
+    const start = silentSince / sampleRate;
+    const end = endSample / sampleRate;
+    if (end - start >= AUDIO_CONFIG.MIN_SILENCE_SECONDS) {
+      gaps.push({ start: round(start, 2), end: round(end, 2), duration: round(end - start, 2) });
+    }
+    silentSince = null;
+  };
+
+  for (let start = 0; start < length; start += frame) {
+    const silent = toDb(meanSquare(prefix, start, start + frame)) < AUDIO_CONFIG.SILENCE_DBFS;
+    if (silent && silentSince === null) silentSince = start;
+    if (!silent) close(start);
+  }
+  close(length);
+  return gaps;
+}
+
+/**
+ * Labels each second by its share of low-energy 20 ms frames: speech dips between syllables,
+ * music holds a steadier level, and speech whose dips stay loud is talking over a bed
+ */
+function classifyContent(prefix: Float64Array, sampleRate: number, length: number): AudioAnalysis['content'] {
+  const frame = Math.round(0.02 * sampleRate);
+  const timeline: AudioLabel[] = [];
+  const seconds: Record<AudioLabel, number> = { silence: 0, speech: 0, music: 0, mixed: 0 };
+
+  for (let second = 0; second * sampleRate < length; second++) {
+    const start = second * sampleRate;
+    const end = Math.min(length, start + sampleRate);
+    const frames: number[] = [];
+    for (let position = start; position + frame <= end; position += frame) {
+      frames.push(meanSquare(prefix, position, position + frame));
+    }
+
+    let label: AudioLabel;
+    // Gaps between syllables are quiet too, so only a silent second as a whole counts as silence
+    if (frames.length === 0 || toDb(meanSquare(prefix, start, end)) < AUDIO_CONFIG.SILENCE_DBFS) {
+      label = 'silence';
+    } else {
+      const meanRms = frames.reduce((sum, power) => sum + Math.sqrt(power), 0) / frames.length;
+      const lowEnergyRatio = frames.filter(power => Math.sqrt(power) < 0.5 * meanRms).length / frames.length;
+      const floorDb = toDb(percentile([...frames].sort((a, b) => a - b), 10));
+      if (lowEnergyRatio < AUDIO_CONFIG.SPEECH_LOW_ENERGY_RATIO) label = 'music';
+      else label = floorDb >= AUDIO_CONFIG.MUSIC_BED_DBFS ? 'mixed' : 'speech';
+    }
+    timeline.push(label);
+    seconds[label] += (end - start) / sampleRate;
+  }
+
+  const speechSeconds = seconds.speech + seconds.mixed;
+  const audibleSeconds = speechSeconds + seconds.music;
+  return {
+    speechSeconds: round(seconds.speech),
+    musicSeconds: round(seconds.music),
+    mixedSeconds: round(seconds.mixed),
+    speechRatio: audibleSeconds > 0 ? round(speechSeconds / audibleSeconds, 2) : null,
+    timeline,
+  };
+}
+
+/**
+ * Analyzes decoded samples; with a timed transcript, pacing is measured over the time spent talking
+ */
+export function analyzeSamples(
+  audio: DecodedAudio,
+  transcript?: { text: string; segments: TranscriptSegment[] }
+): AudioAnalysis {
+  const { samples, sampleRate } = audio;
+  const durationSeconds = samples.length / sampleRate;
+  const prefix = squaredPrefix(samples);
+
+  const gaps = findSilence(prefix, sampleRate, samples.length);
+  const totalSilence = gaps.reduce((sum, gap) => sum + gap.duration, 0);
+
+  const energyEnvelope: number[] = [];
+  for (let start = 0; start < samples.length; start += sampleRate) {
+    energyEnvelope.push(round(toDb(meanSquare(prefix, start, start + sampleRate))));
+  }
+
+  let pacing: AudioAnalysis['pacing'] = null;
+  const words = transcript ? tokenizeWords(transcript.text).length : 0;
+  if (transcript && words > 0) {
+    // Talking time runs from the first to the last word, minus the pauses in between
+    const first = transcript.segments[0]?.start ?? 0;
+    const last = transcript.segments[transcript.segments.length - 1]?.end ?? durationSeconds;
+    const pauses = gaps.reduce((sum, gap) => sum + Math.max(0, Math.min(gap.end, last) - Math.max(gap.start, first)), 0);
+    const speakingSeconds = Math.max(1, last - first - pauses);
+    const wordsPerMinute = Math.round(words / (speakingSeconds / 60));
+    pacing = { speakingSeconds: round(speakingSeconds), wordsPerMinute, pace: computePaceFromWpm(wordsPerMinute) };
+  }
+
+  return {
+    durationSeconds: round(durationSeconds, 2),
+    sampleRate,
+    loudness: measureLoudness(samples, sampleRate),
+    silence: {
+      gaps,
+      totalSeconds: round(totalSilence, 2),
+      ratio: durationSeconds > 0 ? round(totalSilence / durationSeconds, 3) : 0,
+    },
+    content: classifyContent(prefix, sampleRate, samples.length),
+    energyEnvelope,
+    pacing,
+  };
+}
+
+/**
+ * Analyzes the audio file downloaded for transcription; never throws, as the analysis is optional
+ */
+export async function analyzeAudioFile(
+  audioPath: string,
+  options: { transcript?: { text: string; segments: TranscriptSegment[] }; signal?: AbortSignal } = {}
+): Promise<AudioAnalysis | null> {
+  if (!AUDIO_CONFIG.ENABLED) return null;
+  try {
+    const audio = await loadAudio(audioPath, { signal: options.signal });
+    return analyzeSamples(audio, options.transcript);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.warn('[AUDIO] ⚠️ Audio analysis failed:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
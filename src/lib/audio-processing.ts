@@ -1,10 +1,20 @@
 import { execFile } from 'child_process';
 import { promisify } from 'util';
-import { mkdtemp, writeFile, unlink, readdir } from 'fs/promises';
+import { mkdtemp, readdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import OpenAI from 'openai';
-import { createReadStream, existsSync } from 'fs';
+import { getExternalFetch } from './mock-external';
+import { createReadStream } from 'fs';
+import {
+  fromWhisperVerbose,
+  offsetAnnotations,
+  offsetSegments,
+  SoundAnnotation,
+  TimedTranscript,
+  TranscriptSegment,
+  WhisperVerboseResponse,
+} from './transcript';
 
 const execFileAsync = promisify(execFile);
 
@@ -18,144 +28,16 @@ function getOpenAIClient(): OpenAI {
     }
     openaiClient = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
+      fetch: getExternalFetch(),
     });
   }
   return openaiClient;
 }
 
-export interface AudioResult {
-  wavPath: string;
-  cleanup: () => Promise<void>;
-}
-
-export interface DownloadAudioOptions {
-  proxyUrl?: string;
-  clientIp?: string;
-}
-
-/**
- * Downloads audio from a video URL and converts it to WAV format
- * Uses yt-dlp for video downloading and ffmpeg for audio conversion
- */
-export async function downloadAudioAsWav(videoUrl: string, options: DownloadAudioOptions = {}): Promise<AudioResult> {
-  try {
-    // Resolve binaries and preflight check
-    const ytDlpBin = process.env.YTDLP_PATH || 'yt-dlp';
-    const ffmpegBin = process.env.FFMPEG_PATH || 'ffmpeg';
-    const checkCmd = async (cmd: string): Promise<boolean> => {
-      try {
-        await execFileAsync('bash', ['-lc', `command -v ${cmd} >/dev/null 2>&1 && echo ok || true`]);
-        return true;
-      } catch {
-        return false;
-      }
-    };
-    const hasYtDlp = await checkCmd(ytDlpBin);
-    const hasFfmpeg = await checkCmd(ffmpegBin);
-    if (!hasYtDlp) {
-      throw new Error('yt-dlp is not installed or not in PATH. Install with: brew install yt-dlp (macOS) or apt-get install -y yt-dlp (Linux).');
-    }
-    if (!hasFfmpeg) {
-      throw new Error('ffmpeg is not installed or not in PATH. Install with: brew install ffmpeg (macOS) or apt-get install -y ffmpeg (Linux).');
-    }
-
-    // Create temporary directory
-    const tempDir = await mkdtemp(join(tmpdir(), 'shorts-analyzer-'));
-    const expectedWavPath = join(tempDir, 'audio.wav');
-    
-    console.log(`[AUDIO] 📁 Created temp directory: ${tempDir}`);
-    console.log(`[AUDIO] 🎵 Downloading audio from: ${videoUrl}`);
-    
-      // Build yt-dlp args with cookies if available
-      const cookiesPath = '/app/youtube-cookies.txt';
-      let cookiesArg: string[] = [];
-      try {
-        if (existsSync(cookiesPath)) {
-          const cookiesTmp = join(tempDir, 'cookies.txt');
-          await writeFile(cookiesTmp, await (await import('fs/promises')).readFile(cookiesPath), { mode: 0o644 });
-          cookiesArg = ['--cookies', cookiesTmp];
-          console.log(`[AUDIO] 🍪 Using cookies file: ${cookiesTmp}`);
-        }
-      } catch (e) {
-        console.warn('[AUDIO] ⚠️ Failed to prepare cookies file:', e);
-      }
-
-      const args = [
-        ...cookiesArg,
-        '--user-agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0 Safari/537.36',
-        '--referer', 'https://www.youtube.com/',
-        '--force-ipv4',
-        '--sleep-interval', '1',
-        '--max-sleep-interval', '5',
-        '--retries', '3',
-        '--fragment-retries', '3',
-        '--extractor-args', 'youtube:player_client=android',
-        '--ffmpeg-location', ffmpegBin,
-        // Optional proxy – if provided, yt-dlp traffic egresses via the proxy
-        ...(options.proxyUrl ? ['--proxy', options.proxyUrl] as string[] : []),
-        // Add header hint for client IP (not authoritative for YouTube, but harmless)
-        ...(options.clientIp ? ['--add-header', `X-Forwarded-For:${options.clientIp}`] as string[] : []),
-        '--extract-audio',
-        '--audio-format', 'wav',
-        '--audio-quality', '0', // Best quality
-        // Use template to let yt-dlp decide extension, then we normalize below
-        '--output', join(tempDir, 'audio.%(ext)s'),
-        '--no-playlist',
-        '--quiet',
-        videoUrl
-      ];
-
-      // Download audio using yt-dlp
-      const { stdout, stderr } = await execFileAsync(ytDlpBin, args);
-    
-    if (stderr) {
-      console.log(`[AUDIO] ⚠️ yt-dlp stderr: ${stderr}`);
-    }
-    
-    // Determine the actual output file and ensure WAV is produced
-    const files = await readdir(tempDir);
-    const produced = files.find(f => f.startsWith('audio.'));
-    if (!produced) {
-      throw new Error('yt-dlp did not produce an output file');
-    }
-    const producedPath = join(tempDir, produced);
-    let finalWavPath = expectedWavPath;
-    if (!produced.endsWith('.wav')) {
-      // Convert to wav using ffmpeg
-      console.log('[AUDIO] 🔄 Converting to WAV via ffmpeg...');
-      await execFileAsync(ffmpegBin, ['-y', '-i', producedPath, '-ac', '1', '-ar', '16000', finalWavPath]);
-      console.log(`[AUDIO] ✅ Converted to WAV: ${finalWavPath}`);
-    } else {
-      finalWavPath = producedPath;
-      console.log(`[AUDIO] ✅ Audio downloaded as WAV: ${finalWavPath}`);
-    }
-    
-    // Cleanup function
-    const cleanup = async (): Promise<void> => {
-      try {
-        await unlink(finalWavPath).catch(() => {});
-        try { await unlink(producedPath).catch(() => {}); } catch {}
-        console.log(`[AUDIO] 🧹 Cleaned up audio files in: ${tempDir}`);
-      } catch (error) {
-        console.error(`[AUDIO] ❌ Cleanup error:`, error);
-      }
-    };
-    
-    return {
-      wavPath: finalWavPath,
-      cleanup
-    };
-    
-  } catch (error) {
-    console.error(`[AUDIO] ❌ Failed to download audio:`, error);
-    throw new Error(`Audio download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
 /**
- * Transcribes audio file using OpenAI Whisper API
+ * Transcribes audio file using OpenAI Whisper API, keeping per-segment timing
  */
-export async function transcribeAudio(audioPath: string): Promise<string> {
+export async function transcribeAudio(audioPath: string, options: { signal?: AbortSignal } = {}): Promise<TimedTranscript> {
   try {
     console.log(`[TRANSCRIBE] 🗣️ Starting transcription of: ${audioPath}`);
     
@@ -170,13 +52,14 @@ export async function transcribeAudio(audioPath: string): Promise<string> {
     const response = await openai.audio.transcriptions.create({
       file: fileStream as any,
       model: 'whisper-1',
-      response_format: 'text'
-    });
+      response_format: 'verbose_json'
+    }, { signal: options.signal });
     
-    const transcript = response as unknown as string;
+    // The SDK types only describe the plain json response
+    const transcript = fromWhisperVerbose(response as unknown as WhisperVerboseResponse);
     
-    console.log(`[TRANSCRIBE] ✅ Transcription complete: ${transcript.length} characters`);
-    console.log(`[TRANSCRIBE] 📝 Preview: ${transcript.substring(0, 100)}...`);
+    console.log(`[TRANSCRIBE] ✅ Transcription complete: ${transcript.text.length} characters in ${transcript.segments.length} segments`);
+    console.log(`[TRANSCRIBE] 📝 Preview: ${transcript.text.substring(0, 100)}...`);
     
     return transcript;
     
@@ -185,3 +68,71 @@ export async function transcribeAudio(audioPath: string): Promise<string> {
     throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+export interface TranscriptChunk {
+  text: string;
+  // Timed against the full audio, not the chunk
+  segments: TranscriptSegment[];
+  chunk: number;
+  totalChunks: number;
+}
+
+export interface ChunkedTranscriptionOptions {
+  signal?: AbortSignal;
+  chunkSeconds?: number;
+  onPartial?: (partial: TranscriptChunk) => void | Promise<void>;
+}
+
+/**
+ * Transcribes audio in fixed-length chunks so partial transcripts can be reported as Whisper returns them
+ * Falls back to a single request if ffmpeg cannot split the file
+ */
+export async function transcribeAudioInChunks(audioPath: string, options: ChunkedTranscriptionOptions = {}): Promise<TimedTranscript> {
+  const ffmpegBin = process.env.FFMPEG_PATH || 'ffmpeg';
+  const chunkSeconds = options.chunkSeconds ?? parseInt(process.env.TRANSCRIBE_CHUNK_SECONDS || '15');
+  const chunkDir = await mkdtemp(join(tmpdir(), 'shorts-analyzer-chunks-'));
+
+  try {
+    let chunkPaths: string[] = [];
+    try {
+      await execFileAsync(ffmpegBin, [
+        '-y', '-i', audioPath,
+        '-f', 'segment',
+        '-segment_time', String(chunkSeconds),
+        '-ac', '1', '-ar', '16000',
+        join(chunkDir, 'chunk-%03d.wav')
+      ], { signal: options.signal });
+      chunkPaths = (await readdir(chunkDir))
+        .filter(f => f.endsWith('.wav'))
+        .sort()
+        .map(f => join(chunkDir, f));
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn('[TRANSCRIBE] ⚠️ Failed to split audio, transcribing in one request:', error instanceof Error ? error.message : error);
+    }
+
+    if (chunkPaths.length === 0) {
+      const transcript = await transcribeAudio(audioPath, { signal: options.signal });
+      await options.onPartial?.({ ...transcript, chunk: 1, totalChunks: 1 });
+      return transcript;
+    }
+
+    console.log(`[TRANSCRIBE] ✂️ Split audio into ${chunkPaths.length} chunks of ${chunkSeconds}s`);
+    const parts: string[] = [];
+    const segments: TranscriptSegment[] = [];
+    const annotations: SoundAnnotation[] = [];
+    for (let i = 0; i < chunkPaths.length; i++) {
+      const chunk = await transcribeAudio(chunkPaths[i], { signal: options.signal });
+      // WAV splits on exact sample boundaries, so each chunk starts at a multiple of chunkSeconds
+      const chunkSegments = offsetSegments(chunk.segments, i * chunkSeconds);
+      if (chunk.text) parts.push(chunk.text);
+      segments.push(...chunkSegments);
+      annotations.push(...offsetAnnotations(chunk.annotations ?? [], i * chunkSeconds));
+      await options.onPartial?.({ text: chunk.text, segments: chunkSegments, chunk: i + 1, totalChunks: chunkPaths.length });
+    }
+
+    return { text: parts.join(' '), segments, ...(annotations.length > 0 ? { annotations } : {}) };
+  } finally {
+    await rm(chunkDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Audio profile
+ * Works out whether a video uses music, where it plays, and whether the voice is a voice-over,
+ * on-camera speech or absent, from caption sound tags and the measured audio timeline
+ */
+
+import type { SoundAnnotation, TranscriptSegment } from './transcript';
+import type { AudioAnalysis } from './audio-analysis';
+import { tokenizeWords } from './transcript-metrics';
+
+export type AudioProfileType = 'voice_over' | 'on_camera' | 'music_only' | 'unknown';
+
+export type SoundRecommendation = 'reuse_sound' | 'record_voice' | 'voice_over_sound';
+
+export interface MusicSpan {
+  start: number;
+  end: number;
+  // Which evidence found it: caption tags, the audio timeline, or both
+  source: 'captions' | 'audio' | 'both';
+}
+
+export interface AudioProfile {
+  type: AudioProfileType;
+  hasMusic: boolean;
+  musicSegments: MusicSpan[];
+  // Share of the video with music or speech, 0-1
+  musicCoverage: number;
+  speechCoverage: number;
+  // Non-music caption cues such as [Applause] or [Laughter]
+  soundEvents: SoundAnnotation[];
+  confidence: 'low' | 'medium' | 'high';
+  // Why the profile came out this way
+  signals: string[];
+  recommendation: SoundRecommendation;
+  advice: string;
+}
+
+const AUDIO_PROFILE_CONFIG = {
+  // Audio runs of music shorter than this are stings or transitions, not a track
+  MIN_MUSIC_SECONDS: 2,
+  // Below this share of the video (or this many words) nobody is really talking
+  MIN_SPEECH_COVERAGE: 0.15,
+  MIN_WORDS: 12,
+  // Share of the speech that has music under it for a voice-over on a track
+  MUSIC_UNDER_SPEECH_RATIO: 0.5,
+};
+
+const ADVICE: Record<AudioProfileType, { recommendation: SoundRecommendation; advice: string }> = {
+  music_only: {
+    recommendation: 'reuse_sound',
+    advice: 'The sound carries this video: reuse the same track (or the trend it belongs to) and let the visuals do the talking.',
+  },
+  voice_over: {
+    recommendation: 'voice_over_sound',
+    advice: 'Narration over a track: record your own voice-over and lay the same or a similar sound underneath.',
+  },
+  on_camera: {
+    recommendation: 'record_voice',
+    advice: 'The speaker carries this video: record your own voice on camera; a trending sound is not doing the work here.',
+  },
+  unknown: {
+    recommendation: 'record_voice',
+    advice: 'Not enough audio evidence to tell; when in doubt, record your own voice.',
+  },
+};
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Total length of the union of the spans
+function coveredSeconds(spans: Array<{ start: number; end: number }>): number {
+  let total = 0;
+  let reach = -Infinity;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(span.start, reach);
+    if (span.end > start) total += span.end - start;
+    reach = Math.max(reach, span.end);
+  }
+  return total;
+}
+
+function overlapSeconds(spans: Array<{ start: number; end: number }>, others: Array<{ start: number; end: number }>): number {
+  const pieces = spans.flatMap(span => others
+    .map(other => ({ start: Math.max(span.start, other.start), end: Math.min(span.end, other.end) }))
+    .filter(piece => piece.end > piece.start));
+  return coveredSeconds(pieces);
+}
+
+// Runs of music (or speech over a bed) in the per-second audio timeline
+function audioMusicRuns(audio: AudioAnalysis): Array<{ start: number; end: number }> {
+  const runs: Array<{ start: number; end: number }> = [];
+  audio.content.timeline.forEach((label, second) => {
+    if (label !== 'music' && label !== 'mixed') return;
+    const last = runs[runs.length - 1];
+    if (last && last.end === second) last.end = second + 1;
+    else runs.push({ start: second, end: second + 1 });
+  });
+  return runs
+    .map(run => ({ start: run.start, end: Math.min(run.end, audio.durationSeconds) }))
+    .filter(run => run.end - run.start >= AUDIO_PROFILE_CONFIG.MIN_MUSIC_SECONDS);
+}
+
+function mergeMusicSpans(captionSpans: Array<{ start: number; end: number }>, audioSpans: Array<{ start: number; end: number }>): MusicSpan[] {
+  const tagged = [
+    ...captionSpans.map(({ start, end }) => ({ start, end, source: 'captions' as const })),
+    ...audioSpans.map(({ start, end }) => ({ start, end, source: 'audio' as const })),
+  ].sort((a, b) => a.start - b.start);
+
+  const merged: MusicSpan[] = [];
+  for (const span of tagged) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end + 1) {
+      last.end = Math.max(last.end, span.end);
+      if (last.source !== span.source) last.source = 'both';
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged.map(span => ({ ...span, start: round(span.start, 2), end: round(span.end, 2) }));
+}
+
+/**
+ * Builds the audio profile; null when there is neither timing nor audio to judge from (a provided transcript)
+ */
+export function buildAudioProfile(
+  segments: TranscriptSegment[],
+  options: { annotations?: SoundAnnotation[]; audio?: AudioAnalysis | null; durationSeconds?: number | null } = {}
+): AudioProfile | null {
+  const annotations = options.annotations ?? [];
+  const audio = options.audio ?? null;
+  if (segments.length === 0 && annotations.length === 0 && !audio) return null;
+
+  const lastCue = Math.max(0, ...segments.map(segment => segment.end), ...annotations.map(annotation => annotation.end));
+  const durationSeconds = options.durationSeconds || audio?.durationSeconds || lastCue;
+  if (!(durationSeconds > 0)) return null;
+
+  const signals: string[] = [];
+  const captionMusic = annotations.filter(annotation => annotation.label === 'music');
+  const soundEvents = annotations.filter(annotation => annotation.label !== 'music');
+  const audioMusic = audio ? audioMusicRuns(audio) : [];
+  const musicSegments = mergeMusicSpans(captionMusic, audioMusic);
+  const musicSeconds = coveredSeconds(musicSegments);
+  const hasMusic = musicSegments.length > 0;
+  if (captionMusic.length > 0) signals.push(`Captions mark music in ${captionMusic.length} place${captionMusic.length === 1 ? '' : 's'}`);
+  if (audioMusic.length > 0) signals.push(`The audio holds a steady music-like level for ${Math.round(coveredSeconds(audioMusic))}s`);
+
+  const words = segments.reduce((sum, segment) => sum + tokenizeWords(segment.text).length, 0);
+  const speechSeconds = segments.length > 0
+    ? coveredSeconds(segments)
+    : audio ? audio.content.speechSeconds + audio.content.mixedSeconds : 0;
+  const speechCoverage = Math.min(1, speechSeconds / durationSeconds);
+  const hasSpeech = speechCoverage >= AUDIO_PROFILE_CONFIG.MIN_SPEECH_COVERAGE &&
+    (segments.length === 0 || words >= AUDIO_PROFILE_CONFIG.MIN_WORDS);
+
+  let type: AudioProfileType;
+  let confidence: AudioProfile['confidence'];
+  if (!hasSpeech) {
+    type = hasMusic ? 'music_only' : 'unknown';
+    confidence = hasMusic ? (audio && captionMusic.length > 0 ? 'high' : 'medium') : 'low';
+    signals.push(words > 0 ? `Only ${words} words are spoken` : 'Nothing is spoken');
+  } else {
+    // Voice-over scores: a track under the speech and studio-flat narration; on-camera: bare speech with natural pauses
+    let voiceOver = 0;
+    let onCamera = 0;
+    const musicUnderSpeech = segments.length > 0
+      ? overlapSeconds(segments, musicSegments) / Math.max(1, speechSeconds)
+      : audio ? audio.content.mixedSeconds / Math.max(1, speechSeconds) : 0;
+    if (musicUnderSpeech >= AUDIO_PROFILE_CONFIG.MUSIC_UNDER_SPEECH_RATIO) {
+      voiceOver += 2;
+      signals.push(`Music plays under ${Math.round(Math.min(1, musicUnderSpeech) * 100)}% of the speech`);
+    } else {
+      onCamera += hasMusic ? 1 : 2;
+      signals.push(hasMusic ? 'Music only plays around the speech, not under it' : 'No music under the speech');
+    }
+    if (audio) {
+      const { stdDevLu } = audio.loudness;
+      if (stdDevLu !== null && stdDevLu <= 2 && audio.silence.ratio < 0.03) {
+        voiceOver += 1;
+        signals.push('Level and gap-free delivery suggest edited narration');
+      } else if (audio.silence.ratio >= 0.08) {
+        onCamera += 1;
+        signals.push(`Natural pauses (${Math.round(audio.silence.ratio * 100)}% silence)`);
+      }
+    }
+    if (soundEvents.some(event => /laugh|applause|cheer/.test(event.label))) {
+      onCamera += 1;
+      signals.push('Captions mark live reactions');
+    }
+
+    type = voiceOver > onCamera ? 'voice_over' : 'on_camera';
+    const margin = Math.abs(voiceOver - onCamera);
+    confidence = !audio ? 'low' : margin >= 2 ? 'high' : margin === 1 ? 'medium' : 'low';
+  }
+
+  return {
+    type,
+    hasMusic,
+    musicSegments,
+    musicCoverage: round(Math.min(1, musicSeconds / durationSeconds), 2),
+    speechCoverage: round(speechCoverage, 2),
+    soundEvents,
+    confidence,
+    signals,
+    ...ADVICE[type],
+  };
+}
@@ -1,48 +1,94 @@
 /**
- * Simple Admin Authentication for Development/Internal Use
- * In production, this should be replaced with proper authentication
+ * Session and API key authentication, role and scope guards
+ * Browsers send the session cookie, scripts send Authorization: Bearer <api key>; both resolve to a user
+ * on every request, so role changes, deletions and revocations take effect immediately
  */
 
-export function isAdminRequest(req: Request): boolean {
-  // Check for admin API key in headers
-  const adminKey = req.headers.get('x-admin-key');
-  if (adminKey === process.env.ADMIN_API_KEY) {
-    return true;
-  }
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, User, UserRole } from './accounts';
+import { ApiKey, ApiKeyScope, authenticateApiKey, canUseScope } from './api-keys';
+import { getDb } from './db';
+import { ForbiddenError, UnauthorizedError } from './errors';
 
-  // Check for admin secret in query params (for development)
-  const url = new URL(req.url);
-  const adminSecret = url.searchParams.get('admin_secret');
-  if (adminSecret === process.env.ADMIN_SECRET) {
-    return true;
-  }
+export const SESSION_COOKIE = 'sa_session';
+
+// Higher roles include everything lower roles can do
+const ROLE_RANK: Record<UserRole, number> = {
+  member: 1,
+  admin: 2,
+};
 
-  // Check if running in development mode
-  if (process.env.NODE_ENV === 'development') {
-    // In development, allow access from localhost
-    const clientIP = req.headers.get('x-forwarded-for') || 
-                     req.headers.get('x-real-ip') || 
-                     'unknown';
-    if (clientIP === '127.0.0.1' || clientIP === 'localhost' || clientIP.includes('::1')) {
-      return true;
+export interface RequestAuth {
+  user: User;
+  // Set when the request authenticated with an API key rather than a session
+  apiKey: ApiKey | null;
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Returns who is calling, or null for anonymous requests and expired sessions
+ * A bad API key is an error rather than anonymous access, so scripts notice revoked keys;
+ * a missing database is treated as "nobody is signed in" so public routes keep working
+ */
+export async function getRequestAuth(request: NextRequest): Promise<RequestAuth | null> {
+  const bearer = getBearerToken(request);
+  if (bearer) {
+    const result = await authenticateApiKey(bearer);
+    if (!result) {
+      throw new UnauthorizedError('Invalid or revoked API key');
     }
+    return result;
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  if (!(await getDb())) return null;
+  const user = await getSessionUser(token);
+  return user ? { user, apiKey: null } : null;
+}
+
+export function hasRole(user: User | null, role: UserRole): boolean {
+  return !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+// Throws UNAUTHORIZED for anonymous requests and FORBIDDEN when the role is too low
+export function assertRole(user: User | null, role: UserRole): asserts user is User {
+  if (!user) {
+    throw new UnauthorizedError();
+  }
+  if (!hasRole(user, role)) {
+    throw new ForbiddenError(role === 'admin' ? 'Access denied. Admin privileges required.' : 'Access denied.');
   }
+}
 
-  return false;
-}
-
-export function requireAdmin(req: Request): Response | null {
-  if (!isAdminRequest(req)) {
-    return new Response(
-      JSON.stringify({ 
-        error: 'Access denied. Admin privileges required.',
-        code: 'ADMIN_ACCESS_REQUIRED'
-      }),
-      { 
-        status: 403,
-        headers: { 'Content-Type': 'application/json' }
-      }
-    );
+// API keys only reach endpoints that name a scope the key holds; sessions are not scoped
+export function assertScope(auth: RequestAuth, scope: ApiKeyScope | undefined): void {
+  if (!auth.apiKey) return;
+  if (!scope) {
+    throw new ForbiddenError('This endpoint is not available to API keys. Sign in instead.');
   }
-  return null;
+  // The owner's role is re-checked so a demoted admin's keys lose the admin scope
+  if (!auth.apiKey.scopes.includes(scope) || !canUseScope(auth.user, scope)) {
+    throw new ForbiddenError(`This API key does not have the ${scope} scope`);
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    // Plain-HTTP deployments (no TLS in front of the app) need SESSION_COOKIE_SECURE=false
+    secure: process.env.SESSION_COOKIE_SECURE ? process.env.SESSION_COOKIE_SECURE === 'true' : process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
 }
@@ -0,0 +1,307 @@
+/**
+ * Bulk analysis
+ * Expands a playlist, channel, TikTok profile or CSV into individual analysis jobs,
+ * tracks them as one batch and aggregates their results into a single report once all have finished
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  AnalysisJob,
+  cancelAnalysisJob,
+  createAnalysisJob,
+  createRecordStore,
+  getAnalysisJob,
+  isJobFinished,
+  JobStatus,
+} from './jobs';
+import type { AnalysisOwner } from './analysis-library';
+import { engagementRate } from './comparison';
+import { platformManager } from './platforms/manager';
+import { ytdlp, YtDlpPlaylistEntry } from './ytdlp';
+import { isHostOf, validateAndSanitizeURL } from './security';
+import { ValidationError } from './errors';
+
+// Batch configuration
+const BATCH_CONFIG = {
+  MAX_ITEMS: parseInt(process.env.BATCH_MAX_ITEMS || '50'),
+  TOP_VIDEOS: 5,
+};
+
+export type BatchSourceType = 'playlist' | 'channel' | 'tiktok' | 'csv';
+
+export type BatchSource =
+  | { type: 'playlist' | 'channel' | 'tiktok'; url: string; limit: number }
+  | { type: 'csv'; csv: string };
+
+export type BatchStatus = 'running' | 'completed' | 'cancelled';
+
+export interface BatchItem {
+  url: string;
+  title?: string;
+  jobId: string;
+}
+
+export interface BatchReport {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  // Means over the completed videos that report the value; null when none do
+  averages: {
+    views: number | null;
+    engagementRate: number | null;
+    lengthSeconds: number | null;
+    wordsPerMinute: number | null;
+    hookScore: number | null;
+  };
+  // How many completed videos share each value; free-text values are lowercased
+  distributions: {
+    pace: Record<string, number>;
+    emotion: Record<string, number>;
+    niche: Record<string, number>;
+    entryStyle: Record<string, number>;
+    transcriptSource: Record<string, number>;
+  };
+  topVideos: Array<{ url: string; title: string; views: number | null; engagementRate: number | null; hook: string }>;
+  failures: Array<{ url: string; code: string; message: string }>;
+  generatedAt: string;
+}
+
+export interface AnalysisBatch {
+  id: string;
+  source: { type: BatchSourceType; url?: string };
+  owner: AnalysisOwner;
+  status: BatchStatus;
+  items: BatchItem[];
+  progress: Record<JobStatus, number>;
+  // Built once every job has finished
+  report: BatchReport | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const store = createRecordStore<AnalysisBatch>('batch');
+
+function emptyProgress(): Record<JobStatus, number> {
+  return { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+}
+
+function isYouTubeHost(url: URL): boolean {
+  return isHostOf(url.hostname, 'youtube.com');
+}
+
+// Channel URLs point at the channel home or one of its tabs; the Shorts tab lists only shorts
+function toShortsTab(url: URL): string {
+  const path = url.pathname.replace(/\/(videos|shorts|streams|featured|playlists|community)?\/?$/, '');
+  if (!/^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)$/.test(path)) {
+    throw new ValidationError('Channel URL must look like https://www.youtube.com/@handle');
+  }
+  return `https://www.youtube.com${path}/shorts`;
+}
+
+function entryUrl(entry: YtDlpPlaylistEntry, fallback: (id: string) => string): string {
+  return entry.url?.startsWith('http') ? entry.url : fallback(entry.id);
+}
+
+// Any cell of any row that holds a supported video URL; header rows and other columns are ignored
+function parseCsvUrls(csv: string): string[] {
+  const urls = new Set<string>();
+  for (const line of csv.split(/\r?\n/)) {
+    for (const cell of line.split(/[,;\t]/)) {
+      const value = cell.trim().replace(/^["']|["']$/g, '');
+      if (!/^https?:\/\//i.test(value)) continue;
+      const { valid, sanitized } = validateAndSanitizeURL(value);
+      if (valid && sanitized && platformManager.isUrlSupported(sanitized)) {
+        urls.add(sanitized);
+      }
+    }
+  }
+  return [...urls];
+}
+
+/**
+ * Turns a batch source into the video URLs to analyze
+ * Listing goes through the shared yt-dlp runner, so it is paced like every other YouTube request
+ */
+export async function resolveBatchSource(source: BatchSource): Promise<Array<{ url: string; title?: string }>> {
+  if (source.type === 'csv') {
+    const urls = parseCsvUrls(source.csv);
+    if (urls.length === 0) {
+      throw new ValidationError('No YouTube, Instagram or TikTok video URLs found in the CSV');
+    }
+    if (urls.length > BATCH_CONFIG.MAX_ITEMS) {
+      throw new ValidationError(`The CSV lists ${urls.length} videos; a batch can hold at most ${BATCH_CONFIG.MAX_ITEMS}`);
+    }
+    return urls.map(url => ({ url }));
+  }
+
+  const url = new URL(source.url);
+  const limit = Math.min(source.limit, BATCH_CONFIG.MAX_ITEMS);
+  let entries: Array<{ url: string; title?: string }>;
+
+  switch (source.type) {
+    case 'playlist': {
+      if (!isYouTubeHost(url) || !url.searchParams.get('list')) {
+        throw new ValidationError('Playlist URL must be a YouTube link with a list= parameter');
+      }
+      const playlist = `https://www.youtube.com/playlist?list=${encodeURIComponent(url.searchParams.get('list')!)}`;
+      entries = (await ytdlp.listPlaylist(playlist, { limit, mobile: true }))
+        .map(entry => ({ url: entryUrl(entry, id => `https://www.youtube.com/watch?v=${id}`), title: entry.title }));
+      break;
+    }
+    case 'channel': {
+      if (!isYouTubeHost(url)) {
+        throw new ValidationError('Channel URL must be a YouTube link');
+      }
+      entries = (await ytdlp.listPlaylist(toShortsTab(url), { limit, mobile: true }))
+        .map(entry => ({ url: entryUrl(entry, id => `https://www.youtube.com/shorts/${id}`), title: entry.title }));
+      break;
+    }
+    case 'tiktok': {
+      const handle = url.pathname.match(/^\/(@[^/]+)\/?$/)?.[1];
+      if (!isHostOf(url.hostname, 'tiktok.com') || !handle) {
+        throw new ValidationError('TikTok profile URL must look like https://www.tiktok.com/@username');
+      }
+      entries = (await ytdlp.listPlaylist(`https://www.tiktok.com/${handle}`, { limit }))
+        .map(entry => ({ url: entryUrl(entry, id => `https://www.tiktok.com/${handle}/video/${id}`), title: entry.title }));
+      break;
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new ValidationError(`No videos found for this ${source.type}`);
+  }
+  return entries;
+}
+
+/**
+ * Queues one analysis job per URL; the worker runs at most BATCH_CONCURRENCY of them at a time
+ */
+export async function createAnalysisBatch(source: BatchSource, owner: AnalysisOwner): Promise<AnalysisBatch> {
+  const videos = await resolveBatchSource(source);
+  const id = randomUUID();
+
+  const items: BatchItem[] = [];
+  for (const video of videos) {
+    const job = await createAnalysisJob({ url: video.url }, owner, { batchId: id });
+    items.push({ url: video.url, title: video.title, jobId: job.id });
+  }
+
+  const now = new Date().toISOString();
+  const batch: AnalysisBatch = {
+    id,
+    source: { type: source.type, url: source.type === 'csv' ? undefined : source.url },
+    owner,
+    status: 'running',
+    items,
+    progress: { ...emptyProgress(), queued: items.length },
+    report: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.save(batch);
+  console.log(`[BATCH] 📦 Queued batch ${id}: ${items.length} videos from ${source.type}`);
+  return batch;
+}
+
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) {
+    const key = value.trim().toLowerCase();
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
+
+function average(values: Array<number | null | undefined>): number | null {
+  const known = values.filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+}
+
+export function buildBatchReport(items: BatchItem[], jobs: Array<AnalysisJob | null>): BatchReport {
+  const done = jobs.filter((job): job is AnalysisJob => job?.status === 'completed' && !!job.result.analysis);
+  const results = done.map(job => job.result as Required<AnalysisJob['result']>);
+
+  const failures = items.flatMap((item, index) => {
+    const job = jobs[index];
+    if (!job) return [{ url: item.url, code: 'NOT_FOUND', message: 'Job expired before the batch finished' }];
+    if (job.status !== 'failed') return [];
+    return [{ url: item.url, code: job.error?.code ?? 'INTERNAL', message: job.error?.message ?? 'Analysis failed' }];
+  });
+
+  const topVideos = done
+    .map(job => ({
+      url: job.input.url,
+      title: job.result.metadata!.title,
+      views: job.result.metadata!.viewCount ?? null,
+      engagementRate: engagementRate(job.result.metadata!),
+      hook: job.result.analysis!.hook,
+    }))
+    .sort((a, b) => (b.views ?? -1) - (a.views ?? -1))
+    .slice(0, BATCH_CONFIG.TOP_VIDEOS);
+
+  return {
+    total: items.length,
+    completed: done.length,
+    failed: failures.length,
+    cancelled: jobs.filter(job => job?.status === 'cancelled').length,
+    averages: {
+      views: average(results.map(result => result.metadata.viewCount)),
+      engagementRate: average(results.map(result => engagementRate(result.metadata))),
+      lengthSeconds: average(results.map(result => result.analysis.lengthSeconds)),
+      wordsPerMinute: average(results.map(result => result.metrics?.wordsPerMinute)),
+      hookScore: average(results.map(result => result.hookAnalysis?.score)),
+    },
+    distributions: {
+      pace: countBy(results.map(result => result.analysis.pace)),
+      emotion: countBy(results.map(result => result.analysis.emotion)),
+      niche: countBy(results.map(result => result.analysis.niche)),
+      entryStyle: countBy(results.map(result => result.analysis.entryStyle)),
+      transcriptSource: countBy(results.map(result => result.transcriptSource)),
+    },
+    topVideos,
+    failures,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns the batch with fresh progress; the report is built the first time every job is found finished
+ */
+export async function getAnalysisBatch(id: string): Promise<AnalysisBatch | null> {
+  const batch = await store.get(id);
+  if (!batch || batch.report) return batch;
+
+  const jobs = await Promise.all(batch.items.map(item => getAnalysisJob(item.jobId)));
+  const progress = emptyProgress();
+  for (const job of jobs) {
+    // An expired job can no longer finish; count it as failed
+    progress[job?.status ?? 'failed']++;
+  }
+  batch.progress = progress;
+
+  if (jobs.every(job => !job || isJobFinished(job))) {
+    batch.report = buildBatchReport(batch.items, jobs);
+    if (batch.status === 'running') batch.status = 'completed';
+    console.log(`[BATCH] ✅ Batch ${id} finished: ${batch.report.completed}/${batch.report.total} analyzed`);
+  }
+
+  batch.updatedAt = new Date().toISOString();
+  await store.save(batch);
+  return batch;
+}
+
+export async function cancelAnalysisBatch(id: string): Promise<AnalysisBatch | null> {
+  const batch = await store.get(id);
+  if (!batch) return null;
+
+  if (!batch.report) {
+    for (const item of batch.items) {
+      await cancelAnalysisJob(item.jobId);
+    }
+    batch.status = 'cancelled';
+    await store.save(batch);
+    console.log(`[BATCH] Cancelled batch ${id}`);
+  }
+  return getAnalysisBatch(id);
+}
@@ -1,5 +1,6 @@
 import { mkdir, readFile, writeFile, stat } from "node:fs/promises";
 import { join, dirname } from "node:path";
+import { getRedisClient } from "./redis";
 
 // Cache configuration
 const CACHE_CONFIG = {
@@ -28,9 +29,14 @@ class FileSystemCache implements CacheBackend {
     await mkdir(path, { recursive: true });
   }
 
+  // Keys look like "youtube:abc123"; encode them so they are safe as file names on every OS
+  private fileFor(base: string, key: string, extension: string): string {
+    return join(base, `${encodeURIComponent(key)}.${extension}`);
+  }
+
   async getTranscript(videoId: string): Promise<string | null> {
     try {
-      const file = join(CACHE_CONFIG.transcriptsBase, `${videoId}.txt`);
+      const file = this.fileFor(CACHE_CONFIG.transcriptsBase, videoId, 'txt');
       const stats = await stat(file);
       
       // Check TTL for transcripts too
@@ -50,14 +56,14 @@ class FileSystemCache implements CacheBackend {
   }
 
   async setTranscript(videoId: string, transcript: string): Promise<void> {
-    const file = join(CACHE_CONFIG.transcriptsBase, `${videoId}.txt`);
+    const file = this.fileFor(CACHE_CONFIG.transcriptsBase, videoId, 'txt');
     await this.ensureDir(dirname(file));
     await writeFile(file, transcript, "utf8");
   }
 
   async getAnalysis(videoId: string): Promise<any | null> {
     try {
-      const file = join(CACHE_CONFIG.analysisBase, `${videoId}.json`);
+      const file = this.fileFor(CACHE_CONFIG.analysisBase, videoId, 'json');
       console.log(`[CACHE] Looking for analysis file: ${file}`);
       const stats = await stat(file);
       console.log(`[CACHE] Found analysis file, age: ${Math.round((Date.now() - stats.mtime.getTime()) / 1000 / 60)} minutes`);
@@ -80,7 +86,7 @@ class FileSystemCache implements CacheBackend {
   }
 
   async setAnalysis(videoId: string, analysisData: any): Promise<void> {
-    const file = join(CACHE_CONFIG.analysisBase, `${videoId}.json`);
+    const file = this.fileFor(CACHE_CONFIG.analysisBase, videoId, 'json');
     await this.ensureDir(dirname(file));
     await writeFile(file, JSON.stringify({
       ...analysisData,
@@ -91,30 +97,12 @@ class FileSystemCache implements CacheBackend {
 
 // Redis Cache Backend (for production)
 class RedisCache implements CacheBackend {
-  private client: any = null;
-  
   private async getRedisClient() {
-    if (!this.client) {
-      // Dynamic import to avoid breaking local development
-      try {
-        // Use dynamic import with proper error handling
-        const redisModule = await (eval('import("redis")') as Promise<any>).catch(() => null);
-        if (!redisModule) {
-          console.warn('[CACHE] Redis module not available, falling back to file cache');
-          return null;
-        }
-        
-        this.client = redisModule.createClient({
-          url: process.env.REDIS_URL,
-        });
-        await this.client.connect();
-        console.log('[CACHE] Connected to Redis');
-      } catch (error) {
-        console.warn('[CACHE] Redis not available, falling back to file cache:', error instanceof Error ? error.message : String(error));
-        return null;
-      }
+    const client = await getRedisClient();
+    if (!client) {
+      console.warn('[CACHE] Redis not available, skipping cache');
     }
-    return this.client;
+    return client;
   }
 
   async getTranscript(videoId: string): Promise<string | null> {
@@ -0,0 +1,216 @@
+/**
+ * Video comparison
+ * Lines up several analyses field by field next to their engagement numbers,
+ * and asks the LLM what the best performers have in common
+ */
+
+import { z } from 'zod';
+import { llm } from './llm/manager';
+import { runAnalysisPipeline } from './analysis-pipeline';
+import { AnalysisOwner, getStoredAnalysis, recordAnalysis, StoredAnalysis } from './analysis-library';
+import type { User } from './accounts';
+import type { Platform, VideoMetadata } from './platforms/base';
+import { NotFoundError, toAppError, ValidationError } from './errors';
+
+const requiredText = z.string().trim().min(1, 'must not be empty');
+
+export const COMPARISON_SCHEMA = z.object({
+  summary: requiredText,
+  patterns: z.array(z.object({
+    aspect: requiredText,
+    pattern: requiredText,
+  })).min(1),
+  differences: z.array(requiredText).default([]),
+  recommendations: z.array(requiredText).min(1),
+});
+
+export type ComparisonSynthesis = z.infer<typeof COMPARISON_SCHEMA>;
+
+export interface ComparisonRow {
+  // Library entry the row came from; null when the analysis could not be saved
+  analysisId: string | null;
+  url: string;
+  platform: Platform;
+  title: string;
+  creator: string;
+  thumbnailUrl?: string;
+  publishedAt?: string;
+  views: number | null;
+  likes: number | null;
+  comments: number | null;
+  engagementRate: number | null;
+  hook: string;
+  entryStyle: string;
+  structure: string;
+  pace: string;
+  emotion: string;
+  lengthSeconds: number;
+  niche: string;
+  // 1 = most views
+  rank: number;
+  topPerformer: boolean;
+}
+
+export interface ComparisonResult {
+  rows: ComparisonRow[];
+  // Null when no LLM is configured for the comparison task
+  synthesis: ComparisonSynthesis | null;
+  // URLs that could not be analyzed; the comparison goes ahead with the rest
+  failed: Array<{ url: string; code: string; error: string }>;
+}
+
+export interface ComparisonInput {
+  analysisIds: string[];
+  urls: string[];
+}
+
+// Comparison configuration
+const COMPARISON_CONFIG = {
+  // Analyses run at once for URL inputs; uncached ones download audio and call the LLM
+  CONCURRENCY: 3,
+  MIN_VIDEOS: 2,
+};
+
+// (likes + comments) / views; null when any of them is unknown
+export function engagementRate(metadata: VideoMetadata): number | null {
+  const { viewCount, likeCount, commentCount } = metadata;
+  if (!viewCount || likeCount === undefined || commentCount === undefined) return null;
+  return (likeCount + commentCount) / viewCount;
+}
+
+type ComparedEntry = Pick<StoredAnalysis, 'url' | 'platform' | 'metadata' | 'analysis'>;
+
+function toRow(entry: ComparedEntry, analysisId: string | null): Omit<ComparisonRow, 'rank' | 'topPerformer'> {
+  const { metadata, analysis } = entry;
+  return {
+    analysisId,
+    url: entry.url,
+    platform: entry.platform,
+    title: metadata.title,
+    creator: metadata.creator,
+    thumbnailUrl: metadata.thumbnailUrl,
+    publishedAt: metadata.publishedAt,
+    views: metadata.viewCount ?? null,
+    likes: metadata.likeCount ?? null,
+    comments: metadata.commentCount ?? null,
+    engagementRate: engagementRate(metadata),
+    hook: analysis.hook,
+    entryStyle: analysis.entryStyle,
+    structure: analysis.structure,
+    pace: analysis.pace,
+    emotion: analysis.emotion,
+    lengthSeconds: analysis.lengthSeconds,
+    niche: analysis.niche,
+  };
+}
+
+// Ranks by views, then engagement; the top half count as top performers
+function rankRows(rows: Omit<ComparisonRow, 'rank' | 'topPerformer'>[]): ComparisonRow[] {
+  const sorted = [...rows].sort((a, b) =>
+    (b.views ?? -1) - (a.views ?? -1) || (b.engagementRate ?? -1) - (a.engagementRate ?? -1)
+  );
+  const topCount = Math.ceil(sorted.length / 2);
+  return sorted.map((row, index) => ({ ...row, rank: index + 1, topPerformer: index < topCount }));
+}
+
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Loads library entries and analyzes URLs, then builds the table and synthesis
+ * Library entries belonging to someone else are reported as missing, like GET /api/analyses/:id
+ */
+export async function compareVideos(input: ComparisonInput, user: User, owner: AnalysisOwner): Promise<ComparisonResult> {
+  const entries: Array<{ entry: ComparedEntry; analysisId: string | null }> = [];
+  const failed: ComparisonResult['failed'] = [];
+
+  for (const id of new Set(input.analysisIds)) {
+    const entry = await getStoredAnalysis(id);
+    if (!entry || (entry.userId !== user.id && user.role !== 'admin')) {
+      throw new NotFoundError(`Analysis ${id} not found`);
+    }
+    entries.push({ entry, analysisId: entry.id });
+  }
+
+  const analyzed = await mapWithConcurrency([...new Set(input.urls)], COMPARISON_CONFIG.CONCURRENCY, async url => {
+    try {
+      const result = await runAnalysisPipeline(url);
+      const saved = await recordAnalysis(url, result, owner);
+      return { entry: { ...result, url }, analysisId: saved?.id ?? null };
+    } catch (error) {
+      const appError = toAppError(error);
+      console.warn(`[COMPARE] ⚠️ Could not analyze ${url}: ${appError.message}`);
+      failed.push({ url, code: appError.code, error: appError.message });
+      return null;
+    }
+  });
+  for (const item of analyzed) {
+    if (item) entries.push({ entry: item.entry, analysisId: item.analysisId });
+  }
+
+  if (entries.length < COMPARISON_CONFIG.MIN_VIDEOS) {
+    throw new ValidationError('At least two videos must be analyzed to compare them', { failed });
+  }
+
+  const rows = rankRows(entries.map(({ entry, analysisId }) => toRow(entry, analysisId)));
+  const synthesis = llm.isTaskConfigured('comparison') ? await synthesizeComparison(rows) : null;
+  console.log(`[COMPARE] ✅ Compared ${rows.length} videos${synthesis ? ' with synthesis' : ''}`);
+
+  return { rows, synthesis, failed };
+}
+
+/**
+ * Asks the LLM configured for the "comparison" task what the top performers share
+ */
+async function synthesizeComparison(rows: ComparisonRow[]): Promise<ComparisonSynthesis> {
+  const table = rows.map(row => ({
+    rank: row.rank,
+    topPerformer: row.topPerformer,
+    title: row.title,
+    creator: row.creator,
+    views: row.views,
+    engagementRate: row.engagementRate === null ? null : Number(row.engagementRate.toFixed(4)),
+    hook: row.hook,
+    entryStyle: row.entryStyle,
+    structure: row.structure,
+    pace: row.pace,
+    emotion: row.emotion,
+    lengthSeconds: row.lengthSeconds,
+    niche: row.niche,
+  }));
+
+  const prompt = `You are a short-form video strategist comparing competitor videos.
+Each row is one analyzed video, ranked by views; rows with "topPerformer": true did best.
+
+Videos:
+${JSON.stringify(table, null, 2)}
+
+Identify what the top performers have in common that the others lack. Look at hook, entryStyle, structure, pace, emotion and length.
+Only claim a pattern the top performers actually share, citing them by rank; say so when there are too few videos to tell.
+
+Return JSON ONLY with:
+{
+  "summary": "2-3 sentences",
+  "patterns": [{"aspect": "hook | entryStyle | structure | pace | emotion | length", "pattern": "what the top performers share, with ranks"}],
+  "differences": ["how the lower-ranked videos differ"],
+  "recommendations": ["concrete advice for a new video in this niche"]
+}`;
+
+  const { data } = await llm.completeStructured('comparison', {
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.4,
+    maxTokens: 1500,
+  }, COMPARISON_SCHEMA);
+
+  return data;
+}
@@ -0,0 +1,337 @@
+/**
+ * Creator profiling
+ * Pulls a creator's newest uploads through the platform adapters, computes posting cadence and
+ * performance statistics, and analyzes a sample to name the formula behind their best videos
+ */
+
+import { z } from 'zod';
+import { llm } from './llm/manager';
+import { runAnalysisPipeline } from './analysis-pipeline';
+import { AnalysisOwner, recordAnalysis } from './analysis-library';
+import { engagementRate, mapWithConcurrency } from './comparison';
+import { platformManager } from './platforms/manager';
+import type { Platform, VideoMetadata } from './platforms/base';
+import { AppError, toAppError } from './errors';
+
+// Creator profile configuration
+const CREATOR_CONFIG = {
+  // A video at least this many times the creator's median views is an outlier
+  OUTLIER_MULTIPLE: 3,
+  // Sample analyses run at once; uncached ones download audio and call the LLM
+  CONCURRENCY: 2,
+  HOOK_EXAMPLES: 3,
+};
+
+const requiredText = z.string().trim().min(1, 'must not be empty');
+
+export const WINNING_FORMULA_SCHEMA = z.object({
+  name: requiredText,
+  summary: requiredText,
+  hooks: z.array(requiredText).min(1),
+  format: requiredText,
+  emotions: z.array(requiredText).min(1),
+});
+
+export type WinningFormula = z.infer<typeof WINNING_FORMULA_SCHEMA> & {
+  // 'heuristic' when no LLM is configured for the creator task
+  source: 'llm' | 'heuristic';
+};
+
+export type DurationBucket = 'under15' | '15to30' | '30to60' | 'over60';
+
+export interface CreatorVideo {
+  id: string;
+  url: string;
+  title: string;
+  publishedAt: string | null;
+  views: number | null;
+  engagementRate: number | null;
+  duration: number | null;
+  // Views divided by the creator's median views
+  multiple: number | null;
+  outlier: boolean;
+}
+
+export interface SampledVideo {
+  url: string;
+  title: string;
+  views: number | null;
+  outlier: boolean;
+  analysisId: string | null;
+  hook: string;
+  entryStyle: string;
+  structure: string;
+  pace: string;
+  emotion: string;
+  niche: string;
+}
+
+export interface CreatorProfile {
+  platform: Platform;
+  creatorId: string;
+  creator: string;
+  videoCount: number;
+  cadence: {
+    firstPublishedAt: string | null;
+    lastPublishedAt: string | null;
+    postsPerWeek: number | null;
+    medianDaysBetweenPosts: number | null;
+  };
+  medianViews: number | null;
+  medianEngagementRate: number | null;
+  duration: {
+    median: number | null;
+    // Upload counts per length bucket
+    distribution: Record<DurationBucket, number>;
+  };
+  videos: CreatorVideo[];
+  outliers: CreatorVideo[];
+  sample: SampledVideo[];
+  // How often each trait occurs in the sample; free-text values are lowercased
+  patterns: {
+    entryStyle: Record<string, number>;
+    emotion: Record<string, number>;
+    pace: Record<string, number>;
+    niche: Record<string, number>;
+  };
+  // Null when nothing could be analyzed
+  winningFormula: WinningFormula | null;
+  // Sampled URLs that could not be analyzed
+  failed: Array<{ url: string; code: string; error: string }>;
+  generatedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: Array<number | null | undefined>): number | null {
+  const known = values
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value))
+    .sort((a, b) => a - b);
+  if (known.length === 0) return null;
+  const middle = Math.floor(known.length / 2);
+  return known.length % 2 ? known[middle] : (known[middle - 1] + known[middle]) / 2;
+}
+
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) {
+    const key = value.trim().toLowerCase();
+    if (key) counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
+
+function mostCommon(counts: Record<string, number>, count = 1): string[] {
+  return Object.entries(counts).sort(([, a], [, b]) => b - a).slice(0, count).map(([value]) => value);
+}
+
+// yt-dlp reports upload dates as YYYYMMDD, the YouTube Data API as ISO timestamps
+function parsePublishedAt(value?: string): Date | null {
+  if (!value) return null;
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const date = compact ? new Date(`${compact[1]}-${compact[2]}-${compact[3]}T00:00:00Z`) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function durationBucket(seconds: number): DurationBucket {
+  if (seconds < 15) return 'under15';
+  if (seconds < 30) return '15to30';
+  if (seconds <= 60) return '30to60';
+  return 'over60';
+}
+
+function computeCadence(dates: Date[]): CreatorProfile['cadence'] {
+  const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+  if (sorted.length === 0) {
+    return { firstPublishedAt: null, lastPublishedAt: null, postsPerWeek: null, medianDaysBetweenPosts: null };
+  }
+
+  const gaps = sorted.slice(1).map((date, index) => (date.getTime() - sorted[index].getTime()) / DAY_MS);
+  const spanDays = (sorted[sorted.length - 1].getTime() - sorted[0].getTime()) / DAY_MS;
+  return {
+    firstPublishedAt: sorted[0].toISOString(),
+    lastPublishedAt: sorted[sorted.length - 1].toISOString(),
+    // Upload dates are day-granular, so a single day of uploads has no measurable rate
+    postsPerWeek: spanDays > 0 ? ((sorted.length - 1) / spanDays) * 7 : null,
+    medianDaysBetweenPosts: median(gaps),
+  };
+}
+
+function toCreatorVideo(metadata: VideoMetadata, medianViews: number | null): CreatorVideo {
+  const views = metadata.viewCount ?? null;
+  const multiple = views !== null && medianViews ? views / medianViews : null;
+  return {
+    id: metadata.id,
+    url: metadata.url,
+    title: metadata.title,
+    publishedAt: parsePublishedAt(metadata.publishedAt)?.toISOString() ?? null,
+    views,
+    engagementRate: engagementRate(metadata),
+    duration: metadata.duration ?? null,
+    multiple,
+    outlier: multiple !== null && multiple >= CREATOR_CONFIG.OUTLIER_MULTIPLE,
+  };
+}
+
+// Outliers first, as they carry the formula, then the newest uploads as a baseline
+function pickSample(videos: CreatorVideo[], size: number): CreatorVideo[] {
+  const outliers = videos.filter(video => video.outlier).sort((a, b) => (b.multiple ?? 0) - (a.multiple ?? 0));
+  const newest = videos.filter(video => !video.outlier)
+    .sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''));
+  return [...outliers, ...newest].slice(0, size);
+}
+
+/**
+ * Builds the profile for a creator; creatorId is VideoMetadata.creatorId or an @handle
+ */
+export async function buildCreatorProfile(
+  platform: Platform,
+  creatorId: string,
+  options: { limit: number; sample: number },
+  owner: AnalysisOwner
+): Promise<CreatorProfile> {
+  if (!platformManager.getAdapter(platform)?.getCreatorVideos) {
+    throw new AppError('UNSUPPORTED_PLATFORM', `Creator profiles are not available for ${platform}`);
+  }
+
+  const uploads = await platformManager.getCreatorVideos(platform, creatorId, { limit: options.limit });
+  if (uploads.length === 0) {
+    throw new AppError('VIDEO_NOT_FOUND', `No uploads found for creator ${creatorId}`);
+  }
+  console.log(`[CREATOR] 👤 Profiling ${platform}:${creatorId} from ${uploads.length} uploads`);
+
+  const medianViews = median(uploads.map(video => video.viewCount));
+  const videos = uploads.map(video => toCreatorVideo(video, medianViews));
+  const durations = videos.map(video => video.duration).filter((value): value is number => value !== null);
+  const distribution: Record<DurationBucket, number> = { under15: 0, '15to30': 0, '30to60': 0, over60: 0 };
+  for (const seconds of durations) {
+    distribution[durationBucket(seconds)]++;
+  }
+
+  const failed: CreatorProfile['failed'] = [];
+  const analyzed = await mapWithConcurrency(pickSample(videos, options.sample), CREATOR_CONFIG.CONCURRENCY, async (video): Promise<SampledVideo | null> => {
+    try {
+      const result = await runAnalysisPipeline(video.url);
+      const saved = await recordAnalysis(video.url, result, owner);
+      const { analysis } = result;
+      return {
+        url: video.url,
+        title: video.title,
+        views: video.views,
+        outlier: video.outlier,
+        analysisId: saved?.id ?? null,
+        hook: analysis.hook,
+        entryStyle: analysis.entryStyle,
+        structure: analysis.structure,
+        pace: analysis.pace,
+        emotion: analysis.emotion,
+        niche: analysis.niche,
+      };
+    } catch (error) {
+      const appError = toAppError(error);
+      console.warn(`[CREATOR] ⚠️ Could not analyze ${video.url}: ${appError.message}`);
+      failed.push({ url: video.url, code: appError.code, error: appError.message });
+      return null;
+    }
+  });
+  const sample = analyzed.filter((video): video is SampledVideo => video !== null);
+
+  const profile: CreatorProfile = {
+    platform,
+    creatorId,
+    creator: uploads.find(video => video.creator)?.creator || creatorId,
+    videoCount: videos.length,
+    cadence: computeCadence(videos.flatMap(video => video.publishedAt ? [new Date(video.publishedAt)] : [])),
+    medianViews,
+    medianEngagementRate: median(videos.map(video => video.engagementRate)),
+    duration: { median: median(durations), distribution },
+    videos,
+    outliers: videos.filter(video => video.outlier).sort((a, b) => (b.multiple ?? 0) - (a.multiple ?? 0)),
+    sample,
+    patterns: {
+      entryStyle: countBy(sample.map(video => video.entryStyle)),
+      emotion: countBy(sample.map(video => video.emotion)),
+      pace: countBy(sample.map(video => video.pace)),
+      niche: countBy(sample.map(video => video.niche)),
+    },
+    winningFormula: null,
+    failed,
+    generatedAt: new Date().toISOString(),
+  };
+
+  if (sample.length > 0) {
+    profile.winningFormula = llm.isTaskConfigured('creator')
+      ? { ...await synthesizeFormula(profile), source: 'llm' }
+      : heuristicFormula(profile);
+  }
+
+  console.log(`[CREATOR] ✅ Profiled ${platform}:${creatorId}: ${profile.outliers.length} outliers, ${sample.length} analyzed`);
+  return profile;
+}
+
+// Traits shared by the best-performing analyzed videos, used when no LLM is configured
+function heuristicFormula(profile: CreatorProfile): WinningFormula {
+  const best = [...profile.sample].sort((a, b) => (b.views ?? -1) - (a.views ?? -1));
+  const top = best.filter(video => video.outlier).length > 0
+    ? best.filter(video => video.outlier)
+    : best.slice(0, Math.ceil(best.length / 2));
+
+  const [entryStyle] = mostCommon(countBy(top.map(video => video.entryStyle)));
+  const [pace] = mostCommon(countBy(top.map(video => video.pace)));
+  const emotions = mostCommon(countBy(top.map(video => video.emotion)), 2);
+  const [structure] = mostCommon(countBy(top.map(video => video.structure)));
+  const length = profile.duration.median === null ? '' : `, around ${Math.round(profile.duration.median)}s`;
+
+  return {
+    name: `${entryStyle} / ${emotions[0]}`,
+    summary: `${profile.creator}'s best videos open with ${entryStyle}, run at a ${pace} pace and lean ${emotions.join(' and ')}${length}.`,
+    hooks: top.slice(0, CREATOR_CONFIG.HOOK_EXAMPLES).map(video => video.hook),
+    format: `${structure}, ${pace} pace${length}`,
+    emotions,
+    source: 'heuristic',
+  };
+}
+
+/**
+ * Asks the LLM configured for the "creator" task to name the formula behind the creator's best videos
+ */
+async function synthesizeFormula(profile: CreatorProfile): Promise<z.infer<typeof WINNING_FORMULA_SCHEMA>> {
+  const stats = {
+    creator: profile.creator,
+    platform: profile.platform,
+    uploads: profile.videoCount,
+    postsPerWeek: profile.cadence.postsPerWeek === null ? null : Number(profile.cadence.postsPerWeek.toFixed(1)),
+    medianViews: profile.medianViews,
+    medianDurationSeconds: profile.duration.median,
+    outliers: profile.outliers.map(video => ({ title: video.title, multiple: Number(video.multiple!.toFixed(1)) })),
+  };
+
+  const prompt = `You are a short-form video strategist profiling one creator.
+An "outlier" is an upload with at least ${CREATOR_CONFIG.OUTLIER_MULTIPLE}x the creator's median views.
+
+Channel statistics:
+${JSON.stringify(stats, null, 2)}
+
+Analyzed uploads:
+${JSON.stringify(profile.sample, null, 2)}
+
+Name the creator's winning formula: what their best uploads (outliers first, otherwise the most viewed) repeat in hook, format and emotion.
+Base it only on the analyzed uploads; say so in the summary when the sample is too small to tell.
+
+Return JSON ONLY with:
+{
+  "name": "short label for the formula",
+  "summary": "2-3 sentences",
+  "hooks": ["recurring hook patterns, with an example from the data"],
+  "format": "the recurring structure, pace and length",
+  "emotions": ["emotions the best uploads rely on"]
+}`;
+
+  const { data } = await llm.completeStructured('creator', {
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.4,
+    maxTokens: 1200,
+  }, WINNING_FORMULA_SCHEMA);
+
+  return data;
+}
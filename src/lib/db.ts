@@ -0,0 +1,234 @@
+/**
+ * Shared Postgres connection
+ * Lazily connects on first use and applies pending migrations, so the schema lives next to the code that uses it
+ */
+
+import { Pool, PoolConfig, QueryResultRow } from 'pg';
+import { AppError } from './errors';
+
+export interface Database {
+  query<Row extends QueryResultRow = Record<string, unknown>>(text: string, params?: unknown[]): Promise<{ rows: Row[]; rowCount: number | null }>;
+}
+
+// Applied in order, each exactly once; append new entries, never edit shipped ones
+const MIGRATIONS: { name: string; sql: string }[] = [
+  {
+    name: '001_users_and_sessions',
+    sql: `
+      CREATE TABLE users (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_login_at TIMESTAMPTZ
+      );
+      CREATE UNIQUE INDEX users_email_key ON users (lower(email));
+
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id UUID NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        ip TEXT,
+        user_agent TEXT
+      );
+      CREATE INDEX sessions_user_id_idx ON sessions (user_id);
+    `,
+  },
+  {
+    name: '002_api_keys',
+    sql: `
+      CREATE TABLE api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT[] NOT NULL,
+        rate_limit_burst INTEGER,
+        rate_limit_per_minute INTEGER,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_used_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ
+      );
+      CREATE INDEX api_keys_user_id_idx ON api_keys (user_id);
+    `,
+  },
+  {
+    name: '003_analyses',
+    sql: `
+      CREATE TABLE analyses (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users (id) ON DELETE SET NULL,
+        api_key_id UUID REFERENCES api_keys (id) ON DELETE SET NULL,
+        platform TEXT NOT NULL,
+        video_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        title TEXT NOT NULL,
+        creator TEXT NOT NULL,
+        creator_id TEXT,
+        niche TEXT NOT NULL,
+        emotion TEXT NOT NULL,
+        pace TEXT NOT NULL,
+        transcript TEXT NOT NULL,
+        transcript_source TEXT NOT NULL,
+        metadata JSONB NOT NULL,
+        analysis JSONB NOT NULL,
+        hook_analysis JSONB,
+        metrics JSONB NOT NULL,
+        segments JSONB NOT NULL,
+        ideas JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        analyzed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        search TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', title || ' ' || transcript)) STORED
+      );
+      CREATE UNIQUE INDEX analyses_user_video_key ON analyses (user_id, platform, video_id);
+      CREATE INDEX analyses_analyzed_at_idx ON analyses (analyzed_at DESC);
+      CREATE INDEX analyses_search_idx ON analyses USING GIN (search);
+    `,
+  },
+  {
+    name: '004_analysis_retention',
+    sql: `
+      ALTER TABLE analyses ADD COLUMN retention JSONB;
+    `,
+  },
+  {
+    name: '005_analysis_audio',
+    sql: `
+      ALTER TABLE analyses ADD COLUMN audio JSONB;
+    `,
+  },
+  {
+    name: '006_analysis_audio_profile',
+    sql: `
+      ALTER TABLE analyses ADD COLUMN audio_profile JSONB;
+    `,
+  },
+  {
+    name: '007_analysis_visual',
+    sql: `
+      ALTER TABLE analyses ADD COLUMN visual JSONB;
+    `,
+  },
+];
+
+let pool: Pool | null = null;
+let connecting: Promise<Pool | null> | null = null;
+
+// Database configuration
+const DB_CONFIG = {
+  MAX_CONNECTIONS: parseInt(process.env.DB_MAX_CONNECTIONS || '10'),
+  // Fail fast when Postgres is down instead of hanging every request that needs a session
+  CONNECT_TIMEOUT_MS: 5000,
+};
+
+function getPoolOptions(): PoolConfig | null {
+  const common = { max: DB_CONFIG.MAX_CONNECTIONS, connectionTimeoutMillis: DB_CONFIG.CONNECT_TIMEOUT_MS };
+  if (process.env.DATABASE_URL) {
+    return { connectionString: process.env.DATABASE_URL, ...common };
+  }
+  if (process.env.DB_HOST) {
+    return {
+      host: process.env.DB_HOST,
+      port: parseInt(process.env.DB_PORT || '5432'),
+      user: process.env.DB_USER,
+      password: process.env.DB_PASSWORD,
+      database: process.env.DB_NAME || 'shorts_analyzer',
+      ...common,
+    };
+  }
+  return null;
+}
+
+async function migrate(db: Pool): Promise<void> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+
+  const { rows } = await db.query<{ name: string }>('SELECT name FROM schema_migrations');
+  const applied = new Set(rows.map(row => row.name));
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.name)) continue;
+    // Replicas starting together serialize here; the loser sees the migration as applied and skips it
+    await db.query('BEGIN');
+    try {
+      await db.query('LOCK TABLE schema_migrations IN EXCLUSIVE MODE');
+      const { rowCount } = await db.query('SELECT 1 FROM schema_migrations WHERE name = $1', [migration.name]);
+      if (!rowCount) {
+        await db.query(migration.sql);
+        await db.query('INSERT INTO schema_migrations (name) VALUES ($1)', [migration.name]);
+        console.log(`[DB] Applied migration ${migration.name}`);
+      }
+      await db.query('COMMIT');
+    } catch (error) {
+      await db.query('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Returns the pool, or null when Postgres is not configured or unreachable
+ */
+export async function getDb(): Promise<Database | null> {
+  if (pool) return pool;
+  if (connecting) return connecting;
+
+  const options = getPoolOptions();
+  if (!options) return null;
+
+  connecting = (async () => {
+    // BEGIN/COMMIT must run on one connection; a single-connection pool is enough for migrations
+    const migrationPool = new Pool({ ...options, max: 1 });
+    try {
+      await migrate(migrationPool);
+      const instance = new Pool(options);
+      instance.on('error', (error) => console.warn('[DB] Idle client error:', error.message));
+      console.log('[DB] Connected to Postgres');
+      pool = instance;
+      return pool;
+    } catch (error) {
+      console.warn('[DB] Postgres not available:', error instanceof Error ? error.message : String(error));
+      return null;
+    } finally {
+      await migrationPool.end().catch(() => {});
+      connecting = null;
+    }
+  })();
+
+  return connecting;
+}
+
+// For features that cannot work without the database (accounts, sessions)
+export async function requireDb(): Promise<Database> {
+  const db = await getDb();
+  if (!db) {
+    throw new AppError('NOT_CONFIGURED', 'Database is not configured. Set DATABASE_URL or DB_HOST to enable accounts.');
+  }
+  return db;
+}
+
+/**
+ * Runs fn inside BEGIN/COMMIT on a single pooled connection, rolling back if it throws
+ */
+export async function withTransaction<T>(fn: (db: Database) => Promise<T>): Promise<T> {
+  await requireDb();
+  const client = await pool!.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
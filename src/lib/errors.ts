@@ -0,0 +1,193 @@
+/**
+ * Application error taxonomy
+ * Every failure a route can report has a stable code; routes map codes to HTTP statuses in one place
+ */
+
+import { z } from 'zod';
+import { LLMError, LLMValidationError } from './llm/base';
+import { YtDlpError, YtDlpErrorCode } from './ytdlp';
+
+export type ErrorCode =
+  | 'VALIDATION'
+  | 'UNSUPPORTED_PLATFORM'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'VIDEO_NOT_FOUND'
+  | 'VIDEO_UNAVAILABLE'
+  | 'NO_CAPTIONS'
+  | 'RATE_LIMITED'
+  | 'TRANSCRIPTION_FAILED'
+  | 'AI_INVALID_OUTPUT'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_QUOTA'
+  | 'NOT_CONFIGURED'
+  | 'CANCELLED'
+  | 'INTERNAL';
+
+export const HTTP_STATUS_BY_CODE: Record<ErrorCode, number> = {
+  VALIDATION: 400,
+  UNSUPPORTED_PLATFORM: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  VIDEO_NOT_FOUND: 404,
+  VIDEO_UNAVAILABLE: 422,
+  NO_CAPTIONS: 422,
+  RATE_LIMITED: 429,
+  // Client closed request (nginx convention); only ever logged, the client is gone
+  CANCELLED: 499,
+  INTERNAL: 500,
+  TRANSCRIPTION_FAILED: 502,
+  AI_INVALID_OUTPUT: 502,
+  UPSTREAM_ERROR: 502,
+  NOT_CONFIGURED: 503,
+  UPSTREAM_QUOTA: 503,
+  UPSTREAM_TIMEOUT: 504,
+};
+
+export class AppError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+
+  get status(): number {
+    return HTTP_STATUS_BY_CODE[this.code];
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super('VALIDATION', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super('NOT_FOUND', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Sign in to use this feature.') {
+    super('UNAUTHORIZED', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Access denied. Admin privileges required.', details?: unknown) {
+    super('FORBIDDEN', message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(
+    message: string,
+    // Seconds until the client may retry, sent as Retry-After
+    public readonly retryAfter?: number
+  ) {
+    super('RATE_LIMITED', message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// An upstream service (YouTube, RapidAPI, an LLM vendor) failed, ran out of quota or timed out
+export class UpstreamError extends AppError {
+  constructor(
+    message: string,
+    public readonly service: string,
+    code: Extract<ErrorCode, 'UPSTREAM_ERROR' | 'UPSTREAM_QUOTA' | 'UPSTREAM_TIMEOUT'> = 'UPSTREAM_ERROR',
+    details?: unknown
+  ) {
+    super(code, message, details);
+    this.name = 'UpstreamError';
+  }
+
+  // Maps an upstream HTTP status: 403/429 from YouTube, RapidAPI and LLM vendors mean quota or rate limits
+  static fromStatus(service: string, status: number, message: string): UpstreamError {
+    const code = status === 429 || status === 403 ? 'UPSTREAM_QUOTA' : status === 504 || status === 408 ? 'UPSTREAM_TIMEOUT' : 'UPSTREAM_ERROR';
+    return new UpstreamError(message, service, code, { status });
+  }
+}
+
+const YTDLP_ERROR_CODES: Record<YtDlpErrorCode, ErrorCode> = {
+  private_video: 'VIDEO_UNAVAILABLE',
+  geo_blocked: 'VIDEO_UNAVAILABLE',
+  age_restricted: 'VIDEO_UNAVAILABLE',
+  sign_in_required: 'VIDEO_UNAVAILABLE',
+  unavailable: 'VIDEO_NOT_FOUND',
+  extractor_error: 'UPSTREAM_ERROR',
+  rate_limited: 'UPSTREAM_QUOTA',
+  timeout: 'UPSTREAM_TIMEOUT',
+  not_installed: 'NOT_CONFIGURED',
+  unknown: 'UPSTREAM_ERROR',
+};
+
+export function errorCodeForYtDlp(code: YtDlpErrorCode): ErrorCode {
+  return YTDLP_ERROR_CODES[code];
+}
+
+function getStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+    return error.status;
+  }
+  return undefined;
+}
+
+/**
+ * Normalizes anything thrown inside a route into an AppError
+ * Errors from known libraries keep their meaning; everything else is INTERNAL
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof z.ZodError) {
+    return new ValidationError(error.errors[0]?.message || 'Invalid request data', error.flatten().fieldErrors);
+  }
+  if (error instanceof YtDlpError) {
+    return new AppError(errorCodeForYtDlp(error.code), error.message, { ytdlp: error.code });
+  }
+  if (error instanceof LLMValidationError) {
+    return new AppError('AI_INVALID_OUTPUT', `AI returned an invalid ${error.task} response`, error.issues);
+  }
+  if (error instanceof LLMError && error.status === undefined) {
+    return new UpstreamError(error.message, error.provider);
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new AppError('CANCELLED', 'Request was cancelled');
+  }
+
+  // Vendor SDK errors (OpenAI, LLMError with a status) carry the upstream HTTP status
+  const status = getStatus(error);
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (status !== undefined) {
+    return UpstreamError.fromStatus(error instanceof LLMError ? error.provider : 'upstream', status, message);
+  }
+  return new AppError('INTERNAL', message);
+}
+
+export interface ErrorEnvelope {
+  success: false;
+  code: ErrorCode;
+  error: string;
+  details?: unknown;
+}
+
+export function toErrorEnvelope(error: AppError): ErrorEnvelope {
+  return {
+    success: false,
+    code: error.code,
+    error: error.message,
+    ...(error.details !== undefined ? { details: error.details } : {}),
+  };
+}
@@ -0,0 +1,383 @@
+/**
+ * Analysis Job Queue
+ * Runs the analysis pipeline in the background with per-stage progress, partial results and cancellation
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  runAnalysisPipeline,
+  PIPELINE_STAGES,
+  PipelineStage,
+  StageStatus,
+  VideoAnalysisResult,
+  PipelineError,
+  PipelineCancelledError,
+} from './analysis-pipeline';
+import { AnalysisOwner, recordAnalysis } from './analysis-library';
+import { getRedisClient } from './redis';
+import { logError, logPerformance } from './monitoring';
+import { ErrorCode, toAppError } from './errors';
+
+// Job configuration
+const JOB_CONFIG = {
+  // Max pipelines running at once in this process
+  CONCURRENCY: parseInt(process.env.JOB_CONCURRENCY || '2'),
+  // Of those, how many may belong to bulk batches, so single analyses never wait behind a whole channel
+  BATCH_CONCURRENCY: Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || '1')),
+  TTL_MS: parseInt(process.env.JOB_TTL_HOURS || '24') * 60 * 60 * 1000,
+  // Expired jobs and batches nobody reads again are dropped from memory this often
+  CLEANUP_INTERVAL_MS: 10 * 60 * 1000,
+
+  // Shares the cache setting: Redis when caching is on Redis, memory otherwise
+  BACKEND: process.env.CACHE_BACKEND === 'redis' ? 'redis' : 'memory',
+};
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobStageState {
+  status: StageStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface AnalysisJobInput {
+  url: string;
+  transcript?: string | null;
+  refresh?: boolean;
+  video?: boolean;
+  vision?: boolean;
+}
+
+export interface AnalysisJob {
+  id: string;
+  input: AnalysisJobInput;
+  // Who queued the job; the finished analysis is saved to their library
+  owner: AnalysisOwner;
+  // Set for jobs fanned out from a bulk batch
+  batchId?: string;
+  status: JobStatus;
+  stages: Record<PipelineStage, JobStageState>;
+  result: Partial<VideoAnalysisResult>;
+  error?: {
+    stage?: PipelineStage;
+    code: ErrorCode;
+    message: string;
+    details?: unknown;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isJobFinished(job: AnalysisJob): boolean {
+  return TERMINAL_STATUSES.includes(job.status);
+}
+
+// Jobs and batches expire JOB_TTL_HOURS after they were created
+interface StoredRecord {
+  id: string;
+  createdAt: string;
+}
+
+export interface RecordStore<T extends StoredRecord> {
+  get(id: string): Promise<T | null>;
+  save(record: T): Promise<void>;
+}
+
+function isExpired(record: StoredRecord): boolean {
+  return Date.now() - new Date(record.createdAt).getTime() > JOB_CONFIG.TTL_MS;
+}
+
+// In-Memory Store (single instance / development)
+class MemoryRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private records = new Map<string, T>();
+
+  constructor() {
+    const timer = setInterval(() => this.cleanup(), JOB_CONFIG.CLEANUP_INTERVAL_MS);
+    timer.unref?.();
+  }
+
+  async get(id: string): Promise<T | null> {
+    const record = this.records.get(id);
+    if (!record) return null;
+
+    if (isExpired(record)) {
+      this.records.delete(id);
+      return null;
+    }
+
+    return structuredClone(record);
+  }
+
+  async save(record: T): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  private cleanup(): void {
+    for (const [id, record] of this.records.entries()) {
+      if (isExpired(record)) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
+
+// Redis Store (shared across replicas), falls back to memory if Redis is down
+class RedisRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private fallback = new MemoryRecordStore<T>();
+
+  constructor(private readonly prefix: string) {}
+
+  async get(id: string): Promise<T | null> {
+    const client = await getRedisClient();
+    if (!client) return this.fallback.get(id);
+    try {
+      const data = await client.get(`${this.prefix}:${id}`);
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return this.fallback.get(id);
+    }
+  }
+
+  async save(record: T): Promise<void> {
+    const client = await getRedisClient();
+    if (!client) return this.fallback.save(record);
+    try {
+      await client.setEx(`${this.prefix}:${record.id}`, Math.floor(JOB_CONFIG.TTL_MS / 1000), JSON.stringify(record));
+    } catch (error) {
+      console.warn(`[JOBS] Failed to save ${this.prefix} to Redis:`, error instanceof Error ? error.message : String(error));
+      await this.fallback.save(record);
+    }
+  }
+}
+
+// prefix namespaces the Redis keys, e.g. job:<id>
+export function createRecordStore<T extends StoredRecord>(prefix: string): RecordStore<T> {
+  switch (JOB_CONFIG.BACKEND) {
+    case 'redis':
+      return new RedisRecordStore<T>(prefix);
+    case 'memory':
+    default:
+      return new MemoryRecordStore<T>();
+  }
+}
+
+const store = createRecordStore<AnalysisJob>('job');
+
+async function updateJob(id: string, mutate: (job: AnalysisJob) => void): Promise<AnalysisJob | null> {
+  const job = await store.get(id);
+  if (!job) return null;
+  mutate(job);
+  job.updatedAt = new Date().toISOString();
+  await store.save(job);
+  return job;
+}
+
+// In-process worker: pulls queued job IDs and runs them with a concurrency limit
+class JobWorker {
+  private queue: Array<{ id: string; batch: boolean }> = [];
+  private active = new Map<string, { controller: AbortController; batch: boolean }>();
+
+  enqueue(id: string, batch = false): void {
+    this.queue.push({ id, batch });
+    this.drain();
+  }
+
+  cancel(id: string): void {
+    this.queue = this.queue.filter(queued => queued.id !== id);
+    // Aborting kills any running yt-dlp child process and in-flight Whisper request
+    this.active.get(id)?.controller.abort();
+  }
+
+  getStats() {
+    return {
+      backend: JOB_CONFIG.BACKEND,
+      concurrency: JOB_CONFIG.CONCURRENCY,
+      batchConcurrency: JOB_CONFIG.BATCH_CONCURRENCY,
+      queued: this.queue.length,
+      running: this.active.size,
+    };
+  }
+
+  // Batch jobs wait while their share of the slots is in use; single jobs can overtake them
+  private takeNext(): { id: string; batch: boolean } | undefined {
+    const runningBatch = Array.from(this.active.values()).filter(entry => entry.batch).length;
+    const index = runningBatch < JOB_CONFIG.BATCH_CONCURRENCY
+      ? 0
+      : this.queue.findIndex(queued => !queued.batch);
+    return index === -1 ? undefined : this.queue.splice(index, 1)[0];
+  }
+
+  private drain(): void {
+    while (this.active.size < JOB_CONFIG.CONCURRENCY && this.queue.length > 0) {
+      const next = this.takeNext();
+      if (!next) return;
+      const { id } = next;
+      const controller = new AbortController();
+      this.active.set(id, { controller, batch: next.batch });
+      this.run(id, controller)
+        .catch(error => console.error(`[JOBS] Worker crashed on job ${id}:`, error))
+        .finally(() => {
+          this.active.delete(id);
+          this.drain();
+        });
+    }
+  }
+
+  private async run(id: string, controller: AbortController): Promise<void> {
+    const startTime = Date.now();
+    const job = await updateJob(id, job => {
+      if (job.status === 'queued') job.status = 'running';
+    });
+    if (!job || job.status !== 'running') return;
+
+    let currentStage: PipelineStage | undefined;
+
+    try {
+      const result = await runAnalysisPipeline(job.input.url, {
+        providedTranscript: job.input.transcript,
+        refresh: job.input.refresh,
+        video: job.input.video,
+        vision: job.input.vision,
+        signal: controller.signal,
+        onStageUpdate: async (update) => {
+          currentStage = update.stage;
+          await updateJob(id, job => {
+            // A cancel may have come in through another replica
+            if (job.status === 'cancelled') {
+              controller.abort();
+              return;
+            }
+            const now = new Date().toISOString();
+            // Jobs queued before a stage was added have no entry for it
+            const stage = job.stages[update.stage] ??= { status: 'pending' };
+            stage.status = update.status;
+            if (update.status === 'running') stage.startedAt = now;
+            else stage.completedAt = now;
+            if (update.result) job.result = { ...job.result, ...update.result };
+          });
+        },
+      });
+
+      await recordAnalysis(job.input.url, result, job.owner);
+      await updateJob(id, job => {
+        if (job.status === 'cancelled') return;
+        job.status = 'completed';
+        job.result = result;
+      });
+
+      logPerformance({
+        endpoint: '/api/jobs',
+        method: 'WORKER',
+        duration: Date.now() - startTime,
+        success: true,
+        platform: result.platform,
+        cacheHit: result.cacheHit
+      });
+    } catch (error) {
+      const cancelled = error instanceof PipelineCancelledError || controller.signal.aborted;
+      const stage = error instanceof PipelineError ? error.stage : currentStage;
+      const appError = toAppError(error);
+      const message = appError.message;
+
+      await updateJob(id, job => {
+        // Jobs queued before a stage was added have no entry for it
+        const stageState = stage ? job.stages[stage] : undefined;
+        if (stageState?.status === 'running') {
+          stageState.status = cancelled ? 'cancelled' : 'failed';
+          stageState.completedAt = new Date().toISOString();
+          if (!cancelled) stageState.error = message;
+        }
+        if (cancelled) {
+          job.status = 'cancelled';
+          return;
+        }
+        job.status = 'failed';
+        job.error = {
+          stage,
+          code: appError.code,
+          message,
+          details: appError.details,
+        };
+      });
+
+      if (!cancelled) {
+        logError({
+          endpoint: '/api/jobs',
+          method: 'WORKER',
+          code: appError.code,
+          error: message,
+          stack: error instanceof Error ? error.stack : undefined,
+          metadata: { jobId: id, stage }
+        });
+      }
+
+      logPerformance({
+        endpoint: '/api/jobs',
+        method: 'WORKER',
+        duration: Date.now() - startTime,
+        success: false,
+        platform: job.result.platform
+      });
+    }
+  }
+}
+
+const worker = new JobWorker();
+
+export async function createAnalysisJob(
+  input: AnalysisJobInput,
+  owner: AnalysisOwner,
+  options: { batchId?: string } = {}
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString();
+  const stages = Object.fromEntries(
+    PIPELINE_STAGES.map(stage => [stage, { status: 'pending' as StageStatus }])
+  ) as Record<PipelineStage, JobStageState>;
+
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    input,
+    owner,
+    batchId: options.batchId,
+    status: 'queued',
+    stages,
+    result: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.save(job);
+  worker.enqueue(job.id, !!options.batchId);
+  console.log(`[JOBS] Queued job ${job.id} for ${input.url}${options.batchId ? ` (batch ${options.batchId})` : ''}`);
+  return job;
+}
+
+export async function getAnalysisJob(id: string): Promise<AnalysisJob | null> {
+  return store.get(id);
+}
+
+export async function cancelAnalysisJob(id: string): Promise<AnalysisJob | null> {
+  const job = await updateJob(id, job => {
+    if (isJobFinished(job)) return;
+    job.status = 'cancelled';
+    for (const stage of PIPELINE_STAGES) {
+      if (job.stages[stage]?.status === 'running') {
+        job.stages[stage].status = 'cancelled';
+        job.stages[stage].completedAt = new Date().toISOString();
+      }
+    }
+  });
+
+  if (job) {
+    worker.cancel(id);
+    console.log(`[JOBS] Cancelled job ${id}`);
+  }
+  return job;
+}
+
+export function getJobQueueStats() {
+  return worker.getStats();
+}
@@ -0,0 +1,150 @@
+/**
+ * Base LLM provider interface
+ * Vendors implement structured-JSON completion so any task can run on any provider
+ */
+
+export type LLMProviderName = 'openai' | 'gemini' | 'openai-compatible';
+
+export type LLMTask = 'analysis' | 'ideas' | 'script' | 'niche' | 'comparison' | 'creator';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface JSONSchemaSpec {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface JSONCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  // When set, providers that support it enforce the schema; others receive it in the prompt
+  schema?: JSONSchemaSpec;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface JSONCompletionResult {
+  // null when the output could not be parsed as JSON
+  data: unknown;
+  // Raw model output, kept for debugging unparseable responses
+  raw: string;
+  usage: TokenUsage;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  completeJSON(request: JSONCompletionRequest): Promise<JSONCompletionResult>;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMProviderName,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+// The model kept returning output that does not match the expected schema, even after repair attempts
+export class LLMValidationError extends LLMError {
+  constructor(
+    public readonly task: LLMTask,
+    public readonly issues: string[],
+    public readonly raw: string,
+    provider: LLMProviderName
+  ) {
+    super(`${task} response failed validation: ${issues.slice(0, 3).join('; ')}`, provider);
+    this.name = 'LLMValidationError';
+  }
+}
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Parses model output as JSON, tolerating code fences or prose around the object
+ * Returns null when no JSON can be recovered
+ */
+export function parseJSONContent(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {}
+
+  const match = content.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Appends the JSON schema to the system prompt for providers without native schema enforcement
+ */
+export function withSchemaInstructions(messages: LLMMessage[], schema?: JSONSchemaSpec): LLMMessage[] {
+  if (!schema) return messages;
+  const instructions = `Respond with a single JSON object matching this JSON Schema (${schema.name}):\n${JSON.stringify(schema.schema)}`;
+  const [first, ...rest] = messages;
+  if (first?.role === 'system') {
+    return [{ ...first, content: `${first.content}\n\n${instructions}` }, ...rest];
+  }
+  return [{ role: 'system', content: instructions }, ...messages];
+}
+
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+    return error.status;
+  }
+  return undefined;
+}
+
+// Rate limits, server errors and dropped connections are worth retrying; bad requests are not
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /429|ECONNRESET|ETIMEDOUT|socket hang up|fetch failed/i.test(message);
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Retries with exponential backoff and jitter
+ */
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions = {}): Promise<T> {
+  const retries = opts.retries ?? 3;
+  const base = opts.baseDelayMs ?? 500;
+  const isRetryable = opts.isRetryable ?? isRetryableError;
+  let lastErr: unknown;
+  for (let i = 0; i <= retries; i++) {
+    try {
+      return await fn();
+    } catch (e) {
+      lastErr = e;
+      if (i === retries || opts.signal?.aborted || !isRetryable(e)) break;
+      const delay = base * Math.pow(2, i) + Math.floor(Math.random() * 200);
+      await new Promise((r) => setTimeout(r, delay));
+    }
+  }
+  throw lastErr;
+}
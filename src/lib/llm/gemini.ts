@@ -0,0 +1,99 @@
+/**
+ * Gemini provider
+ * Uses the REST API directly; JSON mode is enforced with responseMimeType
+ */
+
+import {
+  LLMProvider,
+  LLMProviderName,
+  JSONCompletionRequest,
+  JSONCompletionResult,
+  LLMError,
+  EMPTY_USAGE,
+  parseJSONContent,
+  withSchemaInstructions,
+} from './base';
+import { externalFetch } from '../mock-external';
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+const SAFETY_SETTINGS = [
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT',
+].map(category => ({ category, threshold: 'BLOCK_MEDIUM_AND_ABOVE' }));
+
+export class GeminiProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'gemini';
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async completeJSON(request: JSONCompletionRequest): Promise<JSONCompletionResult> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new LLMError('Gemini API key not configured', this.name);
+    }
+
+    // Gemini's responseSchema is a restricted OpenAPI subset, so the JSON Schema goes in the prompt instead
+    const messages = withSchemaInstructions(request.messages, request.schema);
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent`;
+    const response = await externalFetch(`${endpoint}?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          responseMimeType: 'application/json',
+        },
+        safetySettings: SAFETY_SETTINGS,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError(`Gemini API error: ${response.status} - ${errorText}`, this.name, response.status);
+    }
+
+    const body = await response.json() as GeminiResponse;
+    const raw = body.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('') || '';
+    if (!raw) {
+      throw new LLMError('Invalid response format from Gemini API', this.name);
+    }
+
+    const usage = body.usageMetadata;
+    return {
+      data: parseJSONContent(raw),
+      raw,
+      usage: usage
+        ? {
+            promptTokens: usage.promptTokenCount ?? 0,
+            completionTokens: usage.candidatesTokenCount ?? 0,
+            totalTokens: usage.totalTokenCount ?? 0,
+          }
+        : EMPTY_USAGE,
+      provider: this.name,
+      model: request.model,
+    };
+  }
+}
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMTask,
+  JSONCompletionRequest,
+  JSONCompletionResult,
+  LLMError,
+  LLMMessage,
+  LLMValidationError,
+  RetryOptions,
+  withRetry,
+} from './base';
+import { OpenAIProvider, OpenAICompatibleProvider } from './openai';
+import { GeminiProvider } from './gemini';
+
+export interface LLMTaskConfig {
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMUsageRecord {
+  task: LLMTask;
+  provider: LLMProviderName;
+  model: string;
+  requests: number;
+  failures: number;
+  validationFailures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Where each task runs unless overridden by <TASK>_PROVIDER / <TASK>_MODEL or LLM_PROVIDER
+const DEFAULT_TASK_CONFIG: Record<LLMTask, LLMTaskConfig> = {
+  analysis: { provider: 'openai', model: 'gpt-4o-mini' },
+  ideas: { provider: 'openai', model: 'gpt-4o-mini' },
+  script: { provider: 'gemini', model: process.env.GEMINI_MODEL || 'gemini-1.5-flash' },
+  niche: { provider: 'gemini', model: process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp' },
+  comparison: { provider: 'openai', model: 'gpt-4o-mini' },
+  creator: { provider: 'openai', model: 'gpt-4o-mini' },
+};
+
+// Used when a task is moved to a provider other than its default
+const DEFAULT_PROVIDER_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  gemini: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
+  'openai-compatible': process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+};
+
+// Extra attempts, each with the validation errors fed back to the model
+const DEFAULT_REPAIR_ATTEMPTS = parseInt(process.env.LLM_REPAIR_ATTEMPTS || '2');
+
+export interface StructuredCompletionResult<T> extends Omit<JSONCompletionResult, 'data'> {
+  data: T;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+function createRepairMessages(raw: string, issues: string[]): LLMMessage[] {
+  return [
+    { role: 'assistant', content: raw },
+    {
+      role: 'user',
+      content: `Your previous response failed validation:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReturn the corrected JSON only, with every required field filled in.`,
+    },
+  ];
+}
+
+export class LLMManager {
+  private providers: Map<LLMProviderName, LLMProvider> = new Map();
+  private usage: Map<string, LLMUsageRecord> = new Map();
+
+  constructor() {
+    // Register all providers
+    this.registerProvider(new OpenAIProvider());
+    this.registerProvider(new GeminiProvider());
+    this.registerProvider(new OpenAICompatibleProvider());
+  }
+
+  private registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  public getProvider(name: LLMProviderName): LLMProvider | null {
+    return this.providers.get(name) || null;
+  }
+
+  public getTaskConfig(task: LLMTask): LLMTaskConfig {
+    const envPrefix = task.toUpperCase();
+    const defaults = DEFAULT_TASK_CONFIG[task];
+    const requested = process.env[`${envPrefix}_PROVIDER`] || process.env.LLM_PROVIDER;
+    const provider = requested && this.providers.has(requested as LLMProviderName)
+      ? requested as LLMProviderName
+      : defaults.provider;
+    const model = process.env[`${envPrefix}_MODEL`]
+      || (provider === defaults.provider ? defaults.model : DEFAULT_PROVIDER_MODELS[provider]);
+
+    return { provider, model };
+  }
+
+  public isTaskConfigured(task: LLMTask): boolean {
+    return this.getProvider(this.getTaskConfig(task).provider)?.isConfigured() ?? false;
+  }
+
+  /**
+   * Runs a structured-JSON completion on the provider and model configured for the task
+   */
+  public async completeJSON(
+    task: LLMTask,
+    request: Omit<JSONCompletionRequest, 'model'>,
+    retry: RetryOptions = {}
+  ): Promise<JSONCompletionResult> {
+    const { provider: providerName, model } = this.getTaskConfig(task);
+    const provider = this.getProvider(providerName);
+    if (!provider) {
+      throw new LLMError(`Unknown LLM provider: ${providerName}`, providerName);
+    }
+    if (!provider.isConfigured()) {
+      throw new LLMError(`LLM provider "${providerName}" for ${task} is not configured`, providerName);
+    }
+
+    const record = this.getUsageRecord(task, providerName, model);
+    record.requests++;
+    try {
+      const result = await withRetry(
+        () => provider.completeJSON({ ...request, model }),
+        { signal: request.signal, ...retry }
+      );
+      record.promptTokens += result.usage.promptTokens;
+      record.completionTokens += result.usage.completionTokens;
+      record.totalTokens += result.usage.totalTokens;
+      console.log(`[LLM] ${task} via ${providerName}/${model}: ${result.usage.totalTokens} tokens`);
+      return result;
+    } catch (error) {
+      record.failures++;
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a JSON completion and validates it against a zod schema
+   * Invalid output is sent back to the model with the validation errors; throws LLMValidationError if it never validates
+   */
+  public async completeStructured<T>(
+    task: LLMTask,
+    request: Omit<JSONCompletionRequest, 'model'>,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: { repairAttempts?: number; retry?: RetryOptions } = {}
+  ): Promise<StructuredCompletionResult<T>> {
+    const repairAttempts = options.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+    let messages = request.messages;
+    let issues: string[] = [];
+    let last: JSONCompletionResult | null = null;
+
+    for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+      // A cancelled caller gets no repair round
+      request.signal?.throwIfAborted();
+      last = await this.completeJSON(task, { ...request, messages }, options.retry);
+      const parsed = schema.safeParse(last.data);
+      if (parsed.success) {
+        return { ...last, data: parsed.data };
+      }
+
+      issues = last.data === null ? ['response was not valid JSON'] : formatIssues(parsed.error);
+      const { provider, model } = last;
+      this.getUsageRecord(task, provider, model).validationFailures++;
+      console.warn(`[LLM] ${task} output failed validation (attempt ${attempt + 1}/${repairAttempts + 1}):`, issues.join('; '));
+      messages = [...request.messages, ...createRepairMessages(last.raw, issues)];
+    }
+
+    const { provider } = this.getTaskConfig(task);
+    throw new LLMValidationError(task, issues, last?.raw ?? '', provider);
+  }
+
+  public getUsageStats(): { totalTokens: number; byTask: LLMUsageRecord[] } {
+    const byTask = Array.from(this.usage.values()).map(record => ({ ...record }));
+    return {
+      totalTokens: byTask.reduce((sum, record) => sum + record.totalTokens, 0),
+      byTask,
+    };
+  }
+
+  private getUsageRecord(task: LLMTask, provider: LLMProviderName, model: string): LLMUsageRecord {
+    const key = `${task}:${provider}:${model}`;
+    let record = this.usage.get(key);
+    if (!record) {
+      record = {
+        task,
+        provider,
+        model,
+        requests: 0,
+        failures: 0,
+        validationFailures: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      };
+      this.usage.set(key, record);
+    }
+    return record;
+  }
+}
+
+// Global LLM manager instance
+export const llm = new LLMManager();
@@ -0,0 +1,92 @@
+/**
+ * OpenAI provider
+ * Also serves OpenAI-compatible servers (Ollama, LM Studio, vLLM) through a custom base URL
+ */
+
+import OpenAI from 'openai';
+import { getOpenAI } from '../openai';
+import { getExternalFetch } from '../mock-external';
+import {
+  LLMProvider,
+  LLMProviderName,
+  JSONCompletionRequest,
+  JSONCompletionResult,
+  EMPTY_USAGE,
+  parseJSONContent,
+  withSchemaInstructions,
+} from './base';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  protected getClient(): OpenAI {
+    return getOpenAI();
+  }
+
+  // Strict json_schema is an OpenAI feature; compatible servers only promise json_object
+  protected supportsJSONSchema(): boolean {
+    return true;
+  }
+
+  async completeJSON(request: JSONCompletionRequest): Promise<JSONCompletionResult> {
+    const nativeSchema = request.schema && this.supportsJSONSchema();
+    const messages = nativeSchema ? request.messages : withSchemaInstructions(request.messages, request.schema);
+
+    const completion = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: nativeSchema && request.schema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: request.schema.name, strict: true, schema: request.schema.schema },
+          }
+        : { type: 'json_object' },
+    }, { signal: request.signal });
+
+    const raw = completion.choices[0]?.message?.content || '';
+    return {
+      data: parseJSONContent(raw),
+      raw,
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+          }
+        : EMPTY_USAGE,
+      provider: this.name,
+      model: request.model,
+    };
+  }
+}
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'openai-compatible';
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_COMPATIBLE_BASE_URL;
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseURL) {
+        throw new Error('OpenAI-compatible base URL not configured');
+      }
+      // Local servers such as Ollama ignore the key, but the SDK requires one
+      this.client = new OpenAI({ baseURL, apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed', fetch: getExternalFetch() });
+    }
+    return this.client;
+  }
+
+  protected supportsJSONSchema(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Recorded-fixture mode for external services
+ * MOCK_EXTERNAL=record passes outbound HTTP calls and yt-dlp runs through and saves them as fixtures;
+ * MOCK_EXTERNAL=replay serves those fixtures instead, so the app runs on a machine with no network or binaries
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile, readdir, copyFile, rm } from "node:fs/promises";
+import { basename, join } from "node:path";
+
+const execFileAsync = promisify(execFile);
+
+export type MockMode = 'record' | 'replay';
+
+const FIXTURES_DIR = process.env.MOCK_FIXTURES_DIR || join(process.cwd(), 'fixtures', 'external');
+
+// Query parameters that carry credentials; they are dropped from fixture keys and never written to disk
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token'];
+
+// Flags whose values vary per run (randomized user agents, cookie, proxy and ffmpeg paths) and must not affect the fixture key
+const VOLATILE_COMMAND_FLAGS = new Set(['--user-agent', '--add-header', '--cookies', '--proxy', '--ffmpeg-location']);
+
+const TEXT_CONTENT_TYPE = /json|text|xml|javascript|x-www-form-urlencoded/i;
+
+interface RecordedHttpResponse {
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  encoding: 'utf8' | 'base64';
+  body: string;
+}
+
+interface RecordedCommandResult {
+  stdout: string;
+  stderr: string;
+  // Set when the command failed; replay rethrows it
+  error?: string;
+  // Files the command wrote into its output directory, stored next to the fixture
+  files: string[];
+}
+
+interface Fixture<Request, Response> {
+  request: Request;
+  responses: Response[];
+}
+
+type HttpFixture = Fixture<{ method: string; url: string; body?: string }, RecordedHttpResponse | { error: string }>;
+type CommandFixture = Fixture<{ command: string; args: string[] }, RecordedCommandResult>;
+
+// Repeated identical calls (e.g. Whisper chunks, retries) replay their responses in recorded order
+const callCounts = new Map<string, number>();
+
+export function getMockMode(): MockMode | null {
+  const mode = process.env.MOCK_EXTERNAL;
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+function fixtureKey(request: unknown): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+}
+
+function fixturePath(service: string, key: string): string {
+  return join(FIXTURES_DIR, service.replace(/[^a-zA-Z0-9.-]/g, '_'), `${key}.json`);
+}
+
+function nextCallIndex(path: string): number {
+  const index = callCounts.get(path) ?? 0;
+  callCounts.set(path, index + 1);
+  return index;
+}
+
+async function readFixture<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+// The first call of a run replaces what was recorded before, later calls append
+async function appendResponse<Req, Res>(path: string, index: number, request: Req, response: Res): Promise<void> {
+  const existing = index > 0 ? await readFixture<Fixture<Req, Res>>(path) : null;
+  const fixture: Fixture<Req, Res> = { request, responses: [...(existing?.responses ?? []), response] };
+  await mkdir(join(path, '..'), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture, null, 2), 'utf8');
+}
+
+function pickResponse<T>(responses: T[], index: number): T {
+  return responses[Math.min(index, responses.length - 1)];
+}
+
+function missingFixtureError(description: string, path: string): Error {
+  return new Error(`[MOCK] No recorded fixture for ${description} (${path}). Run once with MOCK_EXTERNAL=record to create it.`);
+}
+
+function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('The operation was aborted');
+  }
+}
+
+function sanitizeUrl(raw: string): string {
+  const url = new URL(raw);
+  for (const param of SECRET_PARAMS) {
+    url.searchParams.delete(param);
+  }
+  return url.toString();
+}
+
+// Multipart uploads and streams are keyed by call order rather than content
+function describeBody(body: RequestInit['body']): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  return '[binary]';
+}
+
+/**
+ * Drop-in replacement for fetch; behaves exactly like fetch unless MOCK_EXTERNAL is set
+ */
+export async function externalFetch(input: string | URL | Request, init: RequestInit = {}): Promise<Response> {
+  const mode = getMockMode();
+  if (!mode) return fetch(input, init);
+
+  const rawUrl = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const request = { method, url: sanitizeUrl(rawUrl), body: describeBody(init.body) };
+  const path = fixturePath(new URL(rawUrl).hostname, fixtureKey(request));
+  const index = nextCallIndex(path);
+
+  if (mode === 'replay') {
+    throwIfAborted(init.signal);
+    const fixture = await readFixture<HttpFixture>(path);
+    if (!fixture || fixture.responses.length === 0) {
+      throw missingFixtureError(`${method} ${request.url}`, path);
+    }
+    const recorded = pickResponse(fixture.responses, index);
+    if ('error' in recorded) {
+      throw new Error(recorded.error);
+    }
+    console.log(`[MOCK] ▶️ Replaying ${method} ${request.url}`);
+    const body = recorded.encoding === 'base64' ? Buffer.from(recorded.body, 'base64') : recorded.body;
+    return new Response(recorded.status === 204 ? null : body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.contentType ? { 'content-type': recorded.contentType } : {},
+    });
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(input, init);
+  } catch (error) {
+    await appendResponse(path, index, request, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+
+  const contentType = response.headers.get('content-type');
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const encoding = contentType && TEXT_CONTENT_TYPE.test(contentType) ? 'utf8' : 'base64';
+  await appendResponse(path, index, request, {
+    status: response.status,
+    statusText: response.statusText,
+    contentType,
+    encoding,
+    body: buffer.toString(encoding),
+  });
+  console.log(`[MOCK] ⏺️ Recorded ${method} ${request.url} (${response.status})`);
+
+  return new Response(response.status === 204 ? null : buffer, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// For SDK clients that accept a custom fetch; undefined keeps the SDK's own fetch when mocking is off
+export function getExternalFetch(): typeof fetch | undefined {
+  return getMockMode() ? externalFetch : undefined;
+}
+
+function normalizeArgs(args: string[], outputDir?: string): string[] {
+  const normalized: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VOLATILE_COMMAND_FLAGS.has(args[i])) {
+      i++;
+      continue;
+    }
+    normalized.push(outputDir ? args[i].split(outputDir).join('<output>') : args[i]);
+  }
+  return normalized;
+}
+
+/**
+ * Runs an external command (yt-dlp), or replays a recorded run including the files it wrote to outputDir
+ */
+export async function runExternalCommand(
+  command: string,
+  args: string[],
+  options: { signal?: AbortSignal; outputDir?: string } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const mode = getMockMode();
+  if (!mode) return execFileAsync(command, args, { signal: options.signal });
+
+  const request = { command: basename(command), args: normalizeArgs(args, options.outputDir) };
+  const path = fixturePath(request.command, fixtureKey(request));
+  const index = nextCallIndex(path);
+  const filesDir = path.replace(/\.json$/, `.${index}.files`);
+
+  if (mode === 'replay') {
+    throwIfAborted(options.signal);
+    const fixture = await readFixture<CommandFixture>(path);
+    if (!fixture || fixture.responses.length === 0) {
+      throw missingFixtureError(`${request.command} ${request.args.join(' ')}`, path);
+    }
+    const responseIndex = Math.min(index, fixture.responses.length - 1);
+    const recorded = fixture.responses[responseIndex];
+    if (options.outputDir) {
+      const recordedFilesDir = path.replace(/\.json$/, `.${responseIndex}.files`);
+      for (const file of recorded.files) {
+        await copyFile(join(recordedFilesDir, file), join(options.outputDir, file));
+      }
+    }
+    if (recorded.error) {
+      throw Object.assign(new Error(recorded.error), { stdout: recorded.stdout, stderr: recorded.stderr });
+    }
+    console.log(`[MOCK] ▶️ Replaying ${request.command} (${recorded.files.length} files)`);
+    return { stdout: recorded.stdout, stderr: recorded.stderr };
+  }
+
+  let result: { stdout: string; stderr: string };
+  let failure: unknown = null;
+  try {
+    result = await execFileAsync(command, args, { signal: options.signal });
+  } catch (error) {
+    failure = error;
+    const output = error as { stdout?: string; stderr?: string };
+    result = { stdout: output.stdout ?? '', stderr: output.stderr ?? '' };
+  }
+
+  const files = options.outputDir
+    ? (await readdir(options.outputDir, { withFileTypes: true })).filter(entry => entry.isFile()).map(entry => entry.name)
+    : [];
+  await rm(filesDir, { recursive: true, force: true });
+  if (files.length > 0 && options.outputDir) {
+    await mkdir(filesDir, { recursive: true });
+    for (const file of files) {
+      await copyFile(join(options.outputDir, file), join(filesDir, file));
+    }
+  }
+  await appendResponse(path, index, request, {
+    ...result,
+    ...(failure ? { error: failure instanceof Error ? failure.message : String(failure) } : {}),
+    files,
+  });
+  console.log(`[MOCK] ⏺️ Recorded ${request.command} (${files.length} files)`);
+
+  if (failure) throw failure;
+  return result;
+}
@@ -10,6 +10,8 @@ export interface ErrorContext {
   ip?: string;
   userAgent?: string;
   timestamp: string;
+  // Stable ErrorCode from errors.ts when the failure was classified
+  code?: string;
   error: string;
   stack?: string;
   metadata?: Record<string, any>;
@@ -35,9 +37,33 @@ export interface APIMetrics {
   lastUpdated: string;
 }
 
+export interface ApiKeyUsageEvent {
+  apiKeyId: string;
+  name: string;
+  userId: string;
+  endpoint: string;
+  method: string;
+  status: number;
+  duration: number;
+  rateLimited: boolean;
+}
+
+export interface ApiKeyUsage {
+  name: string;
+  userId: string;
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  totalDuration: number;
+  lastUsedAt: string;
+  byEndpoint: Record<string, number>;
+}
+
 class MonitoringSystem {
   private errors: ErrorContext[] = [];
   private performance: PerformanceMetrics[] = [];
+  // Aggregated per key rather than logged per request; keyed by API key id
+  private apiKeyUsage = new Map<string, ApiKeyUsage>();
   private apiMetrics: APIMetrics = {
     totalRequests: 0,
     successfulRequests: 0,
@@ -105,6 +131,10 @@ class MonitoringSystem {
     // Update average response time
     const totalTime = this.performance.reduce((sum, p) => sum + p.duration, 0);
     this.apiMetrics.averageResponseTime = totalTime / this.performance.length;
+
+    if (metrics.cacheHit !== undefined) {
+      this.updateCacheHitRate();
+    }
     
     this.updateMetrics();
   }
@@ -124,6 +154,18 @@ class MonitoringSystem {
     }
   }
 
+  /**
+   * Recompute the cache hit rate across every request that reported a cacheHit
+   */
+  private updateCacheHitRate(): void {
+    const cacheMetrics = this.performance.filter(p => p.cacheHit !== undefined);
+
+    if (cacheMetrics.length > 0) {
+      const hits = cacheMetrics.filter(p => p.cacheHit).length;
+      this.apiMetrics.cacheHitRate = hits / cacheMetrics.length;
+    }
+  }
+
   /**
    * Log rate limit hit
    */
@@ -132,6 +174,52 @@ class MonitoringSystem {
     this.updateMetrics();
   }
 
+  /**
+   * Attribute a request made with an API key to that key
+   */
+  logApiKeyUsage(event: ApiKeyUsageEvent): void {
+    const usage = this.apiKeyUsage.get(event.apiKeyId) || {
+      name: event.name,
+      userId: event.userId,
+      requests: 0,
+      errors: 0,
+      rateLimited: 0,
+      totalDuration: 0,
+      lastUsedAt: '',
+      byEndpoint: {}
+    };
+
+    usage.name = event.name;
+    usage.requests++;
+    if (event.rateLimited) {
+      usage.rateLimited++;
+    } else if (event.status >= 400) {
+      usage.errors++;
+    }
+    usage.totalDuration += event.duration;
+    usage.lastUsedAt = new Date().toISOString();
+
+    const route = `${event.method} ${event.endpoint}`;
+    usage.byEndpoint[route] = (usage.byEndpoint[route] || 0) + 1;
+
+    this.apiKeyUsage.set(event.apiKeyId, usage);
+  }
+
+  /**
+   * Get per-key usage since the process started
+   */
+  getApiKeyUsage(): Record<string, ApiKeyUsage & { averageResponseTime: number }> {
+    const result: Record<string, ApiKeyUsage & { averageResponseTime: number }> = {};
+    this.apiKeyUsage.forEach((usage, id) => {
+      result[id] = {
+        ...usage,
+        byEndpoint: { ...usage.byEndpoint },
+        averageResponseTime: usage.requests > 0 ? usage.totalDuration / usage.requests : 0
+      };
+    });
+    return result;
+  }
+
   /**
    * Get error summary
    */
@@ -139,7 +227,7 @@ class MonitoringSystem {
     total: number;
     recent: number;
     byEndpoint: Record<string, number>;
-    byType: Record<string, number>;
+    byCode: Record<string, number>;
   } {
     const now = new Date();
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
@@ -149,27 +237,20 @@ class MonitoringSystem {
     );
 
     const byEndpoint: Record<string, number> = {};
-    const byType: Record<string, number> = {};
+    const byCode: Record<string, number> = {};
 
     this.errors.forEach(error => {
       byEndpoint[error.endpoint] = (byEndpoint[error.endpoint] || 0) + 1;
       
-      // Categorize errors by type
-      let errorType = 'unknown';
-      if (error.error.includes('rate limit')) errorType = 'rate_limit';
-      else if (error.error.includes('validation')) errorType = 'validation';
-      else if (error.error.includes('api')) errorType = 'api_error';
-      else if (error.error.includes('network')) errorType = 'network';
-      else if (error.error.includes('timeout')) errorType = 'timeout';
-      
-      byType[errorType] = (byType[errorType] || 0) + 1;
+      const code = error.code || 'UNKNOWN';
+      byCode[code] = (byCode[code] || 0) + 1;
     });
 
     return {
       total: this.errors.length,
       recent: recentErrors.length,
       byEndpoint,
-      byType
+      byCode
     };
   }
 
@@ -233,6 +314,7 @@ class MonitoringSystem {
     errors: ErrorContext[];
     performance: PerformanceMetrics[];
     apiMetrics: APIMetrics;
+    apiKeys: ReturnType<typeof MonitoringSystem.prototype.getApiKeyUsage>;
     summary: {
       errors: ReturnType<typeof MonitoringSystem.prototype.getErrorSummary>;
       performance: ReturnType<typeof MonitoringSystem.prototype.getPerformanceSummary>;
@@ -242,6 +324,7 @@ class MonitoringSystem {
       errors: [...this.errors],
       performance: [...this.performance],
       apiMetrics: this.getAPIMetrics(),
+      apiKeys: this.getApiKeyUsage(),
       summary: {
         errors: this.getErrorSummary(),
         performance: this.getPerformanceSummary()
@@ -309,6 +392,10 @@ export function logRateLimitHit(): void {
   monitoring.logRateLimitHit();
 }
 
+export function logApiKeyUsage(event: ApiKeyUsageEvent): void {
+  monitoring.logApiKeyUsage(event);
+}
+
 // Performance measurement decorator
 export function measurePerformance(endpoint: string, method: string) {
   return function (target: any, propertyName: string, descriptor: PropertyDescriptor) {
@@ -0,0 +1,261 @@
+/**
+ * On-screen text (OCR)
+ * Reads the captions and titles of text-overlay videos with a local tesseract, merges the same overlay
+ * across sampled frames and returns it as a timed "visual transcript" for videos without speech
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { TimedTranscript, TranscriptSegment } from './transcript';
+import { tokenizeWords } from './transcript-metrics';
+
+const execFileAsync = promisify(execFile);
+
+// OCR configuration
+const OCR_CONFIG = {
+  ENABLED: process.env.OCR !== 'off',
+  // Seconds between sampled frames; overlays rarely stay up for less
+  FRAME_INTERVAL_SECONDS: parseFloat(process.env.OCR_FRAME_INTERVAL || '1'),
+  // Long videos are sampled more sparsely rather than read frame by frame
+  MAX_FRAMES: 90,
+  LANGUAGE: process.env.OCR_LANGUAGE || 'eng',
+  // Frames are upscaled to this width; tesseract misses the small text of a 480p download
+  FRAME_WIDTH: 960,
+  // Tesseract word confidence (0-100) below which a word is treated as noise
+  MIN_WORD_CONFIDENCE: 60,
+  // Text read in one frame only must be this confident to count as an overlay
+  MIN_SINGLE_FRAME_CONFIDENCE: 80,
+  // Bigram similarity (0-1) at which two readings are the same overlay
+  SIMILARITY: 0.75,
+  // Frames an overlay may go unread (motion blur, a transition) and still continue
+  MAX_GAP_FRAMES: 1,
+  // Audio transcripts with fewer words are treated as no speech: Whisper invents a "Thank you." on silence
+  MIN_SPEECH_WORDS: 3,
+  TIMEOUT_MS: 300000,
+};
+
+// Platform watermarks and creator handles stamped over the whole video
+const WATERMARK_PATTERN = /^@[\w.]+$|^(tiktok|instagram|reels|youtube|shorts|capcut)$/i;
+
+export interface OcrLine {
+  text: string;
+  // Mean word confidence, 0-100
+  confidence: number;
+  // Top edge in pixels, to keep reading order between overlays shown together
+  top: number;
+}
+
+interface Overlay {
+  key: string;
+  text: string;
+  confidence: number;
+  top: number;
+  firstFrame: number;
+  lastFrame: number;
+  frames: number;
+}
+
+const tesseractBin = () => process.env.TESSERACT_PATH || 'tesseract';
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function overlayKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function bigrams(key: string): Map<string, number> {
+  const compact = key.replace(/ /g, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character bigrams; tolerant of the odd misread letter between frames
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const total = [...left.values(), ...right.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  let shared = 0;
+  for (const [pair, count] of left) shared += Math.min(count, right.get(pair) ?? 0);
+  return (2 * shared) / total;
+}
+
+// Captions revealed word by word grow between frames; the longer reading contains the shorter one
+function sameOverlay(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return similarity(a, b) >= OCR_CONFIG.SIMILARITY || (shorter.length >= 6 && longer.includes(shorter));
+}
+
+/**
+ * Parses tesseract TSV output into the text blocks of each page (one page per input image)
+ * Words of one paragraph form a single line of text, since an overlay often wraps over several rows
+ */
+export function parseTesseractTsv(tsv: string): Map<number, OcrLine[]> {
+  const paragraphs = new Map<string, { page: number; words: string[]; confidences: number[]; top: number }>();
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12 || columns[0] !== '5') continue;
+    const [, page, block, paragraph, , , , top, , , confidence, ...rest] = columns;
+    const word = rest.join('\t').trim();
+    const wordConfidence = parseFloat(confidence);
+    // Keep words with a letter or digit; bars, dashes and dots are edges read as text
+    if (!word || !/[\p{L}\p{N}]/u.test(word) || wordConfidence < OCR_CONFIG.MIN_WORD_CONFIDENCE) continue;
+
+    const id = `${page}:${block}:${paragraph}`;
+    const entry = paragraphs.get(id) ?? { page: parseInt(page), words: [], confidences: [], top: parseInt(top) };
+    entry.words.push(word);
+    entry.confidences.push(wordConfidence);
+    entry.top = Math.min(entry.top, parseInt(top));
+    paragraphs.set(id, entry);
+  }
+
+  const pages = new Map<number, OcrLine[]>();
+  for (const entry of paragraphs.values()) {
+    const text = entry.words.join(' ');
+    // A lone short token is almost always texture read as a letter
+    if (!entry.words.some(word => (word.match(/\p{L}/gu)?.length ?? 0) >= 2)) continue;
+    const lines = pages.get(entry.page) ?? [];
+    lines.push({
+      text,
+      confidence: entry.confidences.reduce((sum, value) => sum + value, 0) / entry.confidences.length,
+      top: entry.top,
+    });
+    pages.set(entry.page, lines);
+  }
+  return pages;
+}
+
+/**
+ * Merges the text read from evenly spaced frames into timed overlays
+ * An overlay lasts from the first to the last frame it was read in; the most confident reading is kept
+ */
+export function mergeOverlays(frames: OcrLine[][], intervalSeconds: number, durationSeconds?: number | null): TranscriptSegment[] {
+  const overlays: Overlay[] = [];
+  frames.forEach((lines, frame) => {
+    const matched = new Set<Overlay>();
+    for (const line of lines) {
+      const key = overlayKey(line.text);
+      if (!key) continue;
+      const overlay = overlays.find(candidate =>
+        !matched.has(candidate) &&
+        frame - candidate.lastFrame <= OCR_CONFIG.MAX_GAP_FRAMES + 1 &&
+        sameOverlay(candidate.key, key));
+      if (overlay) {
+        overlay.lastFrame = frame;
+        overlay.frames++;
+        if (key.length > overlay.key.length || (key.length === overlay.key.length && line.confidence > overlay.confidence)) {
+          overlay.key = key;
+          overlay.text = line.text;
+        }
+        overlay.confidence = Math.max(overlay.confidence, line.confidence);
+        matched.add(overlay);
+      } else {
+        const created: Overlay = { key, text: line.text, confidence: line.confidence, top: line.top, firstFrame: frame, lastFrame: frame, frames: 1 };
+        overlays.push(created);
+        matched.add(created);
+      }
+    }
+  });
+
+  const end = (frame: number) => {
+    const time = (frame + 1) * intervalSeconds;
+    return durationSeconds && durationSeconds > 0 ? Math.min(time, durationSeconds) : time;
+  };
+  return overlays
+    .filter(overlay => overlay.frames >= 2 || overlay.confidence >= OCR_CONFIG.MIN_SINGLE_FRAME_CONFIDENCE)
+    .filter(overlay => !WATERMARK_PATTERN.test(overlay.text.trim()))
+    .sort((a, b) => a.firstFrame - b.firstFrame || a.top - b.top)
+    .map(overlay => ({
+      start: round(overlay.firstFrame * intervalSeconds, 2),
+      end: round(end(overlay.lastFrame), 2),
+      text: overlay.text,
+      confidence: round(overlay.confidence / 100, 2),
+    }));
+}
+
+/**
+ * True when a transcript holds too few words to be real speech, so the on-screen text is worth reading
+ */
+export function needsOnScreenText(transcript: TimedTranscript | null): boolean {
+  return !transcript || tokenizeWords(transcript.text).length < OCR_CONFIG.MIN_SPEECH_WORDS;
+}
+
+export function isOcrEnabled(): boolean {
+  return OCR_CONFIG.ENABLED;
+}
+
+async function extractFrames(videoPath: string, dir: string, intervalSeconds: number, signal?: AbortSignal): Promise<string[]> {
+  const ffmpegBin = process.env.FFMPEG_PATH || 'ffmpeg';
+  await execFileAsync(ffmpegBin, [
+    '-hide_banner', '-v', 'error',
+    '-i', videoPath,
+    '-an',
+    '-vf', `fps=1/${intervalSeconds},scale=${OCR_CONFIG.FRAME_WIDTH}:-2,format=gray`,
+    '-frames:v', String(OCR_CONFIG.MAX_FRAMES),
+    join(dir, 'frame-%04d.png'),
+  ], { timeout: OCR_CONFIG.TIMEOUT_MS, signal });
+  return (await readdir(dir))
+    .filter(file => file.startsWith('frame-') && file.endsWith('.png'))
+    .sort()
+    .map(file => join(dir, file));
+}
+
+/**
+ * Reads the on-screen text of a downloaded video; null when nothing legible was found
+ * Throws when ffmpeg or tesseract is missing or fails, so the caller can say why
+ */
+export async function extractOnScreenText(
+  videoPath: string,
+  options: { signal?: AbortSignal; durationHint?: number | null } = {}
+): Promise<TimedTranscript | null> {
+  const duration = options.durationHint && options.durationHint > 0 ? options.durationHint : null;
+  // Spread the frame budget over long videos instead of reading only their start
+  const intervalSeconds = duration
+    ? Math.max(OCR_CONFIG.FRAME_INTERVAL_SECONDS, duration / OCR_CONFIG.MAX_FRAMES)
+    : OCR_CONFIG.FRAME_INTERVAL_SECONDS;
+  const dir = await mkdtemp(join(tmpdir(), 'shorts-analyzer-ocr-'));
+
+  try {
+    const framePaths = await extractFrames(videoPath, dir, intervalSeconds, options.signal);
+    if (framePaths.length === 0) return null;
+    console.log(`[OCR] 🖼️ Reading ${framePaths.length} frames (every ${round(intervalSeconds, 2)}s) with tesseract`);
+
+    // One tesseract run over a list of images; each image becomes a page of the TSV output
+    const listPath = join(dir, 'frames.txt');
+    await writeFile(listPath, framePaths.join('\n') + '\n');
+    let tsv: string;
+    try {
+      ({ stdout: tsv } = await execFileAsync(tesseractBin(), [listPath, 'stdout', '-l', OCR_CONFIG.LANGUAGE, '--psm', '11', 'tsv'], {
+        maxBuffer: 32 * 1024 * 1024,
+        timeout: OCR_CONFIG.TIMEOUT_MS,
+        signal: options.signal,
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`tesseract not found at "${tesseractBin()}" (set TESSERACT_PATH)`);
+      }
+      throw error;
+    }
+
+    const pages = parseTesseractTsv(tsv);
+    const frames = framePaths.map((_, index) => pages.get(index + 1) ?? []);
+    const segments = mergeOverlays(frames, intervalSeconds, duration);
+    if (segments.length === 0) return null;
+
+    console.log(`[OCR] ✅ Found ${segments.length} text overlays`);
+    return { text: segments.map(segment => segment.text).join(' '), segments };
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -23,6 +23,16 @@ export interface DownloadResult {
   cleanup: () => Promise<void>;
 }
 
+export interface VideoDownloadResult {
+  videoPath: string;
+  cleanup: () => Promise<void>;
+}
+
+export interface DownloadOptions {
+  // Aborting kills the underlying yt-dlp process
+  signal?: AbortSignal;
+}
+
 export interface PlatformAdapter {
   readonly platform: Platform;
   
@@ -30,11 +40,13 @@ export interface PlatformAdapter {
   canHandle(url: string): boolean;
   extractVideoId(url: string): string | null;
   getMetadata(url: string): Promise<VideoMetadata>;
-  downloadAudio(url: string): Promise<DownloadResult>;
+  downloadAudio(url: string, options?: DownloadOptions): Promise<DownloadResult>;
+  downloadVideo(url: string, options?: DownloadOptions): Promise<VideoDownloadResult>;
   
   // Platform-specific features
   getTrendingVideos?(options: TrendingOptions): Promise<VideoMetadata[]>;
   searchVideos?(query: string, options: SearchOptions): Promise<VideoMetadata[]>;
+  getCreatorVideos?(creatorId: string, options: CreatorVideosOptions): Promise<VideoMetadata[]>;
 }
 
 export interface TrendingOptions {
@@ -50,6 +62,11 @@ export interface SearchOptions {
   duration?: 'short' | 'medium' | 'long';
 }
 
+export interface CreatorVideosOptions {
+  // Newest uploads to return
+  limit: number;
+}
+
 // Platform detection utilities
 export function detectPlatform(url: string): Platform | null {
   const urlLower = url.toLowerCase();
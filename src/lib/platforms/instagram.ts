@@ -1,18 +1,14 @@
-import { execFile } from "node:child_process";
-import { promisify } from "util";
-import { mkdtemp, rm, access } from "node:fs/promises";
-import { tmpdir } from "os";
-import { join } from "path";
 import { 
   PlatformAdapter, 
   VideoMetadata, 
   DownloadResult, 
+  VideoDownloadResult,
+  DownloadOptions,
   TrendingOptions,
   SearchOptions,
   Platform 
 } from './base';
-
-const execFileAsync = promisify(execFile);
+import { ytdlp, YtDlpError } from '../ytdlp';
 
 export class InstagramAdapter implements PlatformAdapter {
   readonly platform: Platform = 'instagram';
@@ -43,13 +39,7 @@ export class InstagramAdapter implements PlatformAdapter {
 
     // Fallback to yt-dlp
     try {
-      const { stdout } = await execFileAsync('yt-dlp', [
-        '--dump-json',
-        '--no-playlist',
-        url
-      ]);
-
-      const data = JSON.parse(stdout);
+      const data = await ytdlp.getInfo(url);
       
       return {
         id: data.id || this.extractVideoId(url) || 'unknown',
@@ -69,36 +59,18 @@ export class InstagramAdapter implements PlatformAdapter {
       };
     } catch (error) {
       console.error('[Instagram] Failed to get metadata:', error instanceof Error ? error.message : String(error));
+      // Keep the classified yt-dlp error (private, geo-blocked, ...) so callers can report it
+      if (error instanceof YtDlpError) throw error;
       throw new Error(`Failed to get Instagram metadata: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async downloadAudio(url: string): Promise<DownloadResult> {
-    const tempDir = await mkdtemp(join(tmpdir(), 'instagram-'));
-    const outputPath = join(tempDir, 'audio.mp3');
-
-    try {
-      const { stdout } = await execFileAsync('yt-dlp', [
-        '--extract-audio',
-        '--audio-format', 'mp3',
-        '--audio-quality', '0',
-        '--output', outputPath,
-        '--no-playlist',
-        url
-      ]);
+  async downloadAudio(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    return ytdlp.downloadAudio(url, { signal: options.signal, format: 'mp3' });
+  }
 
-      // Verify file exists and has content
-      await access(outputPath);
-      
-      return {
-        audioPath: outputPath,
-        cleanup: () => rm(tempDir, { recursive: true, force: true })
-      };
-    } catch (error) {
-      // Cleanup on error
-      await rm(tempDir, { recursive: true, force: true });
-      throw new Error(`Failed to download Instagram audio: ${error instanceof Error ? error.message : String(error)}`);
-    }
+  async downloadVideo(url: string, options: DownloadOptions = {}): Promise<VideoDownloadResult> {
+    return ytdlp.downloadVideo(url, { signal: options.signal });
   }
 
   async getTrendingVideos(options: TrendingOptions = {}): Promise<VideoMetadata[]> {
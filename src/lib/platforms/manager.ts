@@ -2,9 +2,12 @@ import {
   PlatformAdapter, 
   VideoMetadata, 
   DownloadResult, 
+  VideoDownloadResult,
+  DownloadOptions,
   Platform,
   TrendingOptions,
   SearchOptions,
+  CreatorVideosOptions,
   detectPlatform,
   generateCacheKey
 } from './base';
@@ -56,13 +59,22 @@ export class PlatformManager {
     return await adapter.getMetadata(url);
   }
 
-  public async downloadAudio(url: string): Promise<DownloadResult> {
+  public async downloadAudio(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
     const adapter = this.getAdapterForUrl(url);
     if (!adapter) {
       throw new Error(`No adapter found for URL: ${url}`);
     }
 
-    return await adapter.downloadAudio(url);
+    return await adapter.downloadAudio(url, options);
+  }
+
+  public async downloadVideo(url: string, options: DownloadOptions = {}): Promise<VideoDownloadResult> {
+    const adapter = this.getAdapterForUrl(url);
+    if (!adapter) {
+      throw new Error(`No adapter found for URL: ${url}`);
+    }
+
+    return await adapter.downloadVideo(url, options);
   }
 
   public generateUnifiedCacheKey(url: string): string | null {
@@ -170,6 +182,16 @@ export class PlatformManager {
     return await adapter.searchVideos(query, options);
   }
 
+  // Newest uploads of one creator, identified by VideoMetadata.creatorId
+  public async getCreatorVideos(platform: Platform, creatorId: string, options: CreatorVideosOptions): Promise<VideoMetadata[]> {
+    const adapter = this.getAdapter(platform);
+    if (!adapter || !adapter.getCreatorVideos) {
+      throw new Error(`Platform ${platform} does not support creator profiles`);
+    }
+
+    return await adapter.getCreatorVideos(creatorId, options);
+  }
+
   // New: Get platform statistics
   public getPlatformStats(): Record<Platform, { supported: boolean; hasTrending: boolean; hasSearch: boolean }> {
     const stats: Record<Platform, { supported: boolean; hasTrending: boolean; hasSearch: boolean }> = {} as any;
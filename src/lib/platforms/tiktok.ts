@@ -1,18 +1,15 @@
-import { execFile } from "node:child_process";
-import { promisify } from "util";
-import { mkdtemp, rm, access } from "node:fs/promises";
-import { tmpdir } from "os";
-import { join } from "path";
 import { 
   PlatformAdapter, 
   VideoMetadata, 
   DownloadResult, 
+  VideoDownloadResult,
+  DownloadOptions,
   TrendingOptions,
   SearchOptions,
+  CreatorVideosOptions,
   Platform 
 } from './base';
-
-const execFileAsync = promisify(execFile);
+import { ytdlp, YtDlpInfo } from '../ytdlp';
 
 export class TikTokAdapter implements PlatformAdapter {
   readonly platform: Platform = 'tiktok';
@@ -39,77 +36,39 @@ export class TikTokAdapter implements PlatformAdapter {
   async getMetadata(url: string): Promise<VideoMetadata> {
     try {
       // TikTok metadata extraction using yt-dlp (supports TikTok)
-      const { stdout } = await execFileAsync("yt-dlp", ["-J", url]);
-      const json = JSON.parse(stdout);
-      
-      return {
-        id: json.id || this.extractVideoId(url) || '',
-        platform: 'tiktok',
-        title: json.title || json.description || 'TikTok Video',
-        creator: json.uploader || json.creator || '',
-        creatorId: json.uploader_id || json.channel_id,
-        viewCount: json.view_count,
-        likeCount: json.like_count,
-        commentCount: json.comment_count,
-        publishedAt: json.upload_date,
-        duration: json.duration,
-        description: json.description,
-        hashtags: this.extractHashtags(json.description || json.title || ''),
-        url: json.webpage_url || url,
-        thumbnailUrl: json.thumbnail,
-      };
+      const json = await ytdlp.getInfo(url);
+      return this.toMetadata(json, url);
     } catch (error) {
       console.warn('TikTok yt-dlp failed, using fallback:', error);
       return await this.getMetadataFallback(url);
     }
   }
 
-  async downloadAudio(url: string): Promise<DownloadResult> {
-    const tmp = await mkdtemp(join(tmpdir(), "shorts-analyzer-tiktok-"));
-    const outTemplate = join(tmp, "%(id)s.%(ext)s");
-    
-    try {
-      // TikTok audio extraction with yt-dlp
-      await execFileAsync("yt-dlp", [
-        url,
-        "-x",
-        "--audio-format",
-        "wav",
-        "-o",
-        outTemplate,
-        "--no-playlist",
-        "--quiet",
-        "--no-warnings",
-      ]);
-
-      // Find the downloaded wav file
-      const { stdout } = await execFileAsync("/bin/ls", [tmp]);
-      const wav = stdout
-        .split("\n")
-        .map((s) => s.trim())
-        .filter((s) => s.endsWith(".wav"))[0];
-        
-      if (!wav) throw new Error("No wav file found");
-      const audioPath = join(tmp, wav);
-
-      const cleanup = async () => {
-        try {
-          await access(tmp).then(async () => {
-            await rm(tmp, { recursive: true, force: true });
-          });
-        } catch {}
-      };
+  async downloadAudio(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    // TikTok audio extraction with yt-dlp
+    return ytdlp.downloadAudio(url, { signal: options.signal });
+  }
 
-      return { audioPath, cleanup };
-      
-    } catch (error) {
-      // Clean up temp directory on failure
+  async downloadVideo(url: string, options: DownloadOptions = {}): Promise<VideoDownloadResult> {
+    return ytdlp.downloadVideo(url, { signal: options.signal });
+  }
+
+  // creatorId is the profile handle, with or without the leading @
+  async getCreatorVideos(creatorId: string, options: CreatorVideosOptions): Promise<VideoMetadata[]> {
+    const handle = creatorId.replace(/^@/, '');
+    const entries = await ytdlp.listPlaylist(`https://www.tiktok.com/@${handle}`, { limit: options.limit });
+
+    const videos: VideoMetadata[] = [];
+    for (const entry of entries) {
       try {
-        await rm(tmp, { recursive: true, force: true });
-      } catch {}
-      
-      throw new Error(`TikTok audio download failed: ${error instanceof Error ? error.message : String(error)}`);
+        // Skip getMetadata's placeholder fallback; a profile needs real numbers
+        const url = `https://www.tiktok.com/@${handle}/video/${entry.id}`;
+        videos.push(this.toMetadata(await ytdlp.getInfo(url), url));
+      } catch (error) {
+        console.warn(`[TikTok] Skipping ${entry.id} in creator listing:`, error instanceof Error ? error.message : String(error));
+      }
     }
+    return videos;
   }
 
   // Enhanced TikTok trending with simulated data
@@ -228,6 +187,25 @@ export class TikTokAdapter implements PlatformAdapter {
     };
   }
 
+  private toMetadata(json: YtDlpInfo, url: string): VideoMetadata {
+    return {
+      id: json.id || this.extractVideoId(url) || '',
+      platform: 'tiktok',
+      title: json.title || json.description || 'TikTok Video',
+      creator: json.uploader || json.creator || '',
+      creatorId: json.uploader_id || json.channel_id,
+      viewCount: json.view_count,
+      likeCount: json.like_count,
+      commentCount: json.comment_count,
+      publishedAt: json.upload_date,
+      duration: json.duration,
+      description: json.description,
+      hashtags: this.extractHashtags(json.description || json.title || ''),
+      url: json.webpage_url || url,
+      thumbnailUrl: json.thumbnail,
+    };
+  }
+
   private extractHashtags(text: string): string[] {
     const hashtags = text.match(/#[a-zA-Z0-9_]+/g) || [];
     return hashtags.map(tag => tag.toLowerCase());
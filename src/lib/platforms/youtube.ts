@@ -1,18 +1,16 @@
-import { execFile } from "node:child_process";
-import { promisify } from "util";
-import { mkdtemp, rm, access } from "node:fs/promises";
-import { tmpdir } from "os";
-import { join } from "path";
 import { 
   PlatformAdapter, 
   VideoMetadata, 
   DownloadResult, 
+  VideoDownloadResult,
+  DownloadOptions,
   TrendingOptions, 
   SearchOptions,
+  CreatorVideosOptions,
   Platform 
 } from './base';
-
-const execFileAsync = promisify(execFile);
+import { getSimpleVideoData } from '../youtube-simple';
+import { ytdlp } from '../ytdlp';
 
 export class YouTubeAdapter implements PlatformAdapter {
   readonly platform: Platform = 'youtube';
@@ -26,6 +24,7 @@ export class YouTubeAdapter implements PlatformAdapter {
     // YouTube video ID extraction
     const patterns = [
       /(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/,
+      /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/,
       /youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/,
       /youtube\.com\/v\/([a-zA-Z0-9_-]{11})/
     ];
@@ -38,8 +37,19 @@ export class YouTubeAdapter implements PlatformAdapter {
   }
 
   async getMetadata(url: string): Promise<VideoMetadata> {
-    const { stdout } = await execFileAsync("yt-dlp", ["-J", url]);
-    const json = JSON.parse(stdout);
+    // Prefer the YouTube Data API (no binary dependency), fall back to yt-dlp
+    if (process.env.YOUTUBE_API_KEY) {
+      const videoId = this.extractVideoId(url);
+      if (videoId) {
+        try {
+          return await this.getMetadataFromAPI(videoId, url);
+        } catch (error) {
+          console.warn('[YouTube] Data API metadata failed, falling back to yt-dlp:', error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+
+    const json = await ytdlp.getInfo(url, { mobile: true });
     
     return {
       id: json.id,
@@ -59,42 +69,58 @@ export class YouTubeAdapter implements PlatformAdapter {
     };
   }
 
-  async downloadAudio(url: string): Promise<DownloadResult> {
-    const tmp = await mkdtemp(join(tmpdir(), "shorts-analyzer-youtube-"));
-    const outTemplate = join(tmp, "%(id)s.%(ext)s");
-    
-    // Extract best audio to wav using yt-dlp + ffmpeg
-    await execFileAsync("yt-dlp", [
-      url,
-      "-x",
-      "--audio-format",
-      "wav",
-      "-o",
-      outTemplate,
-      "--no-playlist",
-      "--quiet",
-      "--no-warnings",
-    ]);
-
-    // Find the downloaded wav file
-    const { stdout } = await execFileAsync("/bin/ls", [tmp]);
-    const wav = stdout
-      .split("\n")
-      .map((s) => s.trim())
-      .filter((s) => s.endsWith(".wav"))[0];
-      
-    if (!wav) throw new Error("Failed to locate downloaded wav file");
-    const audioPath = join(tmp, wav);
+  async downloadAudio(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    // YouTube flags desktop scrapers, so use the mobile profile (user-agent rotation, request pacing)
+    return ytdlp.downloadAudio(url, { signal: options.signal, mobile: true });
+  }
+
+  async downloadVideo(url: string, options: DownloadOptions = {}): Promise<VideoDownloadResult> {
+    return ytdlp.downloadVideo(url, { signal: options.signal, mobile: true });
+  }
 
-    const cleanup = async () => {
+  // creatorId is a channel ID (UC...) as found in VideoMetadata.creatorId, or an @handle
+  async getCreatorVideos(creatorId: string, options: CreatorVideosOptions): Promise<VideoMetadata[]> {
+    const channel = creatorId.startsWith('@')
+      ? `https://www.youtube.com/${creatorId}`
+      : `https://www.youtube.com/channel/${creatorId}`;
+    const entries = await ytdlp.listPlaylist(`${channel}/shorts`, { limit: options.limit, mobile: true });
+
+    // Flat listings carry no upload dates or like counts, so each upload is looked up (Data API first)
+    const videos: VideoMetadata[] = [];
+    for (const entry of entries) {
       try {
-        await access(tmp).then(async () => {
-          await rm(tmp, { recursive: true, force: true });
-        });
-      } catch {}
+        videos.push(await this.getMetadata(`https://www.youtube.com/shorts/${entry.id}`));
+      } catch (error) {
+        console.warn(`[YouTube] Skipping ${entry.id} in creator listing:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+    return videos;
+  }
+
+  private async getMetadataFromAPI(videoId: string, url: string): Promise<VideoMetadata> {
+    const video = await getSimpleVideoData(videoId);
+
+    return {
+      id: video.id,
+      platform: 'youtube',
+      title: video.title,
+      creator: video.channelTitle,
+      creatorId: video.channelId,
+      viewCount: parseInt(video.viewCount) || 0,
+      likeCount: parseInt(video.likeCount) || 0,
+      publishedAt: video.publishedAt,
+      duration: this.parseISODuration(video.duration),
+      description: video.description,
+      hashtags: this.extractHashtags(video.description || video.title || ''),
+      url,
     };
+  }
 
-    return { audioPath, cleanup };
+  // Parse ISO 8601 durations as returned by the Data API (e.g. PT1M13S)
+  private parseISODuration(duration: string): number {
+    const match = duration?.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+    if (!match) return 0;
+    return parseInt(match[1] || '0') * 3600 + parseInt(match[2] || '0') * 60 + parseInt(match[3] || '0');
   }
 
   // Trending functionality using dedicated YouTube trending API
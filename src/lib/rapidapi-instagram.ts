@@ -7,6 +7,7 @@
 
 import { InstagramTrendItem, InstagramTrendingOptions } from './instagram-trending';
 import { getAllValidAPIKeys, getFirstValidAPIKey } from './rapidapi-config';
+import { externalFetch } from './mock-external';
 
 export interface RapidAPIConfig {
   apiKey: string;
@@ -136,7 +137,7 @@ export class RapidAPIInstagramService {
         params.append('hashtag', options.niche);
       }
       
-      const response = await fetch(`https://${api.host}${api.endpoint}?${params}`, {
+      const response = await externalFetch(`https://${api.host}${api.endpoint}?${params}`, {
         method: 'GET',
         headers: {
           'X-RapidAPI-Key': this.config.apiKey,
@@ -0,0 +1,237 @@
+/**
+ * Token-bucket rate limiter
+ * Each client owns a bucket that refills continuously; routes spend tokens according to how expensive they are,
+ * so a client can burst up to the bucket capacity and then settles at the refill rate
+ */
+
+import { getRedisClient } from './redis';
+
+export interface RateLimitBudget {
+  // Burst size: tokens a full bucket holds
+  capacity: number;
+  refillPerMinute: number;
+}
+
+// Rate limit configuration
+const RATE_LIMIT_CONFIG = {
+  DEFAULT_BUDGET: {
+    capacity: parseInt(process.env.RATE_LIMIT_BURST || '20'),
+    refillPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '10'),
+  } satisfies RateLimitBudget,
+
+  // 'memory' | 'redis'; Redis shares buckets across replicas and survives restarts
+  BACKEND: process.env.RATE_LIMIT_BACKEND || (process.env.CACHE_BACKEND === 'redis' ? 'redis' : 'memory'),
+
+  // Idle full buckets are dropped from memory after this long
+  CLEANUP_INTERVAL_MS: 60 * 1000,
+};
+
+// Tokens each kind of request spends from the client's bucket
+export const RATE_LIMIT_COSTS = {
+  // yt-dlp, transcription and several LLM calls
+  analysis: 5,
+  // One LLM call
+  generation: 2,
+  // YouTube Data API quota
+  trending: 1,
+  // Up to 10 analyses (usually cached) and one LLM call
+  comparison: 10,
+  // Expands a playlist or CSV and queues up to 50 analyses
+  batch: 20,
+  // Metadata for up to 50 uploads, up to 10 analyses and one LLM call
+  creatorProfile: 15,
+};
+
+export interface RateLimitRule {
+  cost?: number;
+  // Routes sharing a bucket share one budget per client; everything uses 'api' unless it needs its own
+  bucket?: string;
+  budget?: Partial<RateLimitBudget>;
+}
+
+// Password guessing gets its own small bucket so it cannot be funded by, or starve, normal API use
+export const AUTH_RATE_LIMIT: RateLimitRule = {
+  bucket: 'auth',
+  budget: { capacity: 5, refillPerMinute: 5 },
+};
+
+// Who is being limited; a quota (e.g. an API key's plan) replaces the default budget on routes without their own
+export interface RateLimitSubject {
+  id: string;
+  quota?: Partial<RateLimitBudget>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  cost: number;
+  // Epoch ms at which the bucket is full again
+  resetTime: number;
+  // Wait before a request of the same cost would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface RateLimitStore {
+  readonly name: string;
+  // Refills the bucket, spends cost if there are enough tokens, and returns the tokens left
+  consume(key: string, cost: number, budget: RateLimitBudget): Promise<{ allowed: boolean; tokens: number; now: number }>;
+  size(): number | null;
+}
+
+function refillRatePerMs(budget: RateLimitBudget): number {
+  return budget.refillPerMinute / 60_000;
+}
+
+// In-Memory Store (single instance / development)
+class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, BucketState & { budget: RateLimitBudget }>();
+
+  constructor() {
+    const timer = setInterval(() => this.cleanup(), RATE_LIMIT_CONFIG.CLEANUP_INTERVAL_MS);
+    timer.unref?.();
+  }
+
+  async consume(key: string, cost: number, budget: RateLimitBudget) {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    let tokens = budget.capacity;
+    if (bucket) {
+      tokens = Math.min(budget.capacity, bucket.tokens + (now - bucket.updatedAt) * refillRatePerMs(budget));
+    }
+
+    const allowed = tokens >= cost;
+    if (allowed) tokens -= cost;
+    this.buckets.set(key, { tokens, updatedAt: now, budget });
+    return { allowed, tokens, now };
+  }
+
+  size(): number {
+    return this.buckets.size;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets.entries()) {
+      const tokens = bucket.tokens + (now - bucket.updatedAt) * refillRatePerMs(bucket.budget);
+      if (tokens >= bucket.budget.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Refill and spend atomically; Redis TIME keeps every replica on the same clock
+const CONSUME_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / rate) + 1000)
+return { allowed, tostring(tokens), tostring(now) }
+`;
+
+// Redis Store (shared across replicas), falls back to memory if Redis is down
+class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+  private fallback = new MemoryRateLimitStore();
+
+  async consume(key: string, cost: number, budget: RateLimitBudget) {
+    const client = await getRedisClient();
+    if (!client) return this.fallback.consume(key, cost, budget);
+    try {
+      const reply = await client.eval(CONSUME_SCRIPT, {
+        keys: [`ratelimit:${key}`],
+        arguments: [String(budget.capacity), String(refillRatePerMs(budget)), String(cost)],
+      }) as [number, string, string];
+      return { allowed: reply[0] === 1, tokens: parseFloat(reply[1]), now: parseInt(reply[2]) };
+    } catch (error) {
+      console.warn('[RATE_LIMIT] Redis unavailable, limiting in memory:', error instanceof Error ? error.message : String(error));
+      return this.fallback.consume(key, cost, budget);
+    }
+  }
+
+  size(): null {
+    // Buckets live in Redis with their own expiry
+    return null;
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  switch (RATE_LIMIT_CONFIG.BACKEND) {
+    case 'redis':
+      return new RedisRateLimitStore();
+    case 'memory':
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+const store = createRateLimitStore();
+
+// Per-process counters for the monitoring endpoint
+const counters = {
+  allowed: 0,
+  limited: 0,
+  limitedByBucket: {} as Record<string, number>,
+};
+
+/**
+ * Spends the rule's cost from the subject's bucket
+ */
+export async function consumeRateLimit(subject: RateLimitSubject, rule: RateLimitRule = {}): Promise<RateLimitResult> {
+  const bucket = rule.bucket || 'api';
+  const budget: RateLimitBudget = { ...RATE_LIMIT_CONFIG.DEFAULT_BUDGET, ...(rule.budget ?? subject.quota) };
+  // A request can never cost more than a full bucket, otherwise it could never succeed
+  const cost = Math.min(rule.cost ?? 1, budget.capacity);
+  const rate = refillRatePerMs(budget);
+
+  const { allowed, tokens, now } = await store.consume(`${bucket}:${subject.id}`, cost, budget);
+
+  if (allowed) {
+    counters.allowed++;
+  } else {
+    counters.limited++;
+    counters.limitedByBucket[bucket] = (counters.limitedByBucket[bucket] || 0) + 1;
+  }
+
+  return {
+    allowed,
+    limit: budget.capacity,
+    remaining: Math.floor(tokens),
+    cost,
+    resetTime: now + Math.ceil((budget.capacity - tokens) / rate),
+    retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / rate),
+  };
+}
+
+// Export rate limit info for monitoring
+export function getRateLimitStats() {
+  return {
+    backend: store.name,
+    // Only known for the memory backend
+    activeBuckets: store.size(),
+    defaultBudget: RATE_LIMIT_CONFIG.DEFAULT_BUDGET,
+    costs: RATE_LIMIT_COSTS,
+    allowed: counters.allowed,
+    limited: counters.limited,
+    limitedByBucket: { ...counters.limitedByBucket },
+  };
+}
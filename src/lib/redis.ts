@@ -0,0 +1,92 @@
+/**
+ * Shared Redis connection
+ * Lazily connects on first use, so local development without a Redis backend never needs a server
+ */
+
+export interface RedisClient {
+  connect(): Promise<unknown>;
+  on(event: string, listener: (...args: unknown[]) => void): unknown;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  setEx(key: string, seconds: number, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+}
+
+// Redis configuration
+const REDIS_CONFIG = {
+  URL: process.env.REDIS_URL,
+  CONNECT_TIMEOUT_MS: 5000,
+  // Reconnect attempts after a dropped connection before the client gives up and is replaced
+  MAX_RECONNECTS: 5,
+  // After a failed connect, callers use their fallback instead of retrying on every request
+  RETRY_AFTER_MS: parseInt(process.env.REDIS_RETRY_AFTER_MS || '30000'),
+};
+
+let client: RedisClient | null = null;
+let connecting: Promise<RedisClient | null> | null = null;
+let retryAt = 0;
+
+// A backend set to 'redis' depends on the client; everything else works without it
+export function isRedisRequired(): boolean {
+  return process.env.CACHE_BACKEND === 'redis' || process.env.RATE_LIMIT_BACKEND === 'redis';
+}
+
+/**
+ * Startup check: when a backend is set to 'redis' the client package must load, otherwise every
+ * replica would quietly fall back to its own in-memory rate limits and job store
+ */
+export async function assertRedisAvailable(): Promise<void> {
+  if (!isRedisRequired()) return;
+  try {
+    await import('redis');
+  } catch (error) {
+    throw new Error(`Redis is configured (CACHE_BACKEND/RATE_LIMIT_BACKEND=redis) but the redis package cannot be loaded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!REDIS_CONFIG.URL) {
+    console.warn('[REDIS] ⚠️ A backend is set to redis but REDIS_URL is not set; connecting to localhost');
+  }
+}
+
+export async function getRedisClient(): Promise<RedisClient | null> {
+  if (client) return client;
+  if (connecting) return connecting;
+  if (Date.now() < retryAt) return null;
+
+  connecting = (async () => {
+    try {
+      const { createClient } = await import('redis');
+      const instance = createClient({
+        url: REDIS_CONFIG.URL,
+        socket: {
+          connectTimeout: REDIS_CONFIG.CONNECT_TIMEOUT_MS,
+          // Give up after a few attempts so callers fall back instead of waiting on a dead server
+          reconnectStrategy: (retries: number) => retries >= REDIS_CONFIG.MAX_RECONNECTS
+            ? new Error('Redis reconnect attempts exhausted')
+            : Math.min(retries * 200, 2000),
+        },
+      }) as unknown as RedisClient;
+      // Without a listener a connection error is an unhandled 'error' event and kills the process
+      instance.on('error', (error) => console.warn('[REDIS] Connection error:', error instanceof Error ? error.message : String(error)));
+      instance.on('end', () => {
+        if (client === instance) {
+          console.warn('[REDIS] Connection closed; reconnecting on next use');
+          client = null;
+          retryAt = Date.now() + REDIS_CONFIG.RETRY_AFTER_MS;
+        }
+      });
+      await instance.connect();
+      console.log('[REDIS] Connected to Redis');
+      client = instance;
+      return client;
+    } catch (error) {
+      retryAt = Date.now() + REDIS_CONFIG.RETRY_AFTER_MS;
+      console.warn(`[REDIS] Redis not available, retrying in ${Math.round(REDIS_CONFIG.RETRY_AFTER_MS / 1000)}s:`, error instanceof Error ? error.message : String(error));
+      return null;
+    } finally {
+      connecting = null;
+    }
+  })();
+
+  return connecting;
+}
@@ -0,0 +1,264 @@
+/**
+ * Retention curve estimator
+ * Splits a timed transcript into beats and predicts the share of viewers still watching at each second
+ * from known short-form drop-off patterns. Pure heuristics: no model, no external service
+ */
+
+import type { TranscriptSegment } from './transcript';
+import type { HookAnalysis } from './analysis';
+import { tokenizeWords } from './transcript-metrics';
+
+export type BeatType = 'hook' | 'setup' | 'payoff' | 'cta';
+
+export interface RetentionBeat {
+  type: BeatType;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type RetentionRiskType = 'long_intro' | 'dead_air' | 'slow_section' | 'delayed_payoff' | 'early_cta';
+
+export interface RetentionRisk {
+  type: RetentionRiskType;
+  // Seconds from the start of the video
+  time: number;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+}
+
+export interface RetentionPoint {
+  time: number;
+  // Percent of viewers still watching, 0-100
+  retention: number;
+}
+
+export interface RetentionEstimate {
+  durationSeconds: number;
+  beats: RetentionBeat[];
+  points: RetentionPoint[];
+  risks: RetentionRisk[];
+  // Mean of the curve, i.e. the predicted average percentage viewed
+  averageRetention: number;
+  // Predicted share still watching at the last second
+  completionRate: number;
+}
+
+// Shape of the curve; percentages are of the viewers who started the video
+const RETENTION_CONFIG = {
+  HOOK_WINDOW_SECONDS: 3,
+  // Typical swipe-away during the first seconds of a short with an average hook
+  BASE_HOOK_DROP: 22,
+  // Steady loss per second after the hook
+  BASE_DECAY_PER_SECOND: 0.9,
+  // An opening beat longer than this reads as an intro rather than a hook
+  LONG_INTRO_SECONDS: 5,
+  // Silence between segments longer than this is dead air
+  DEAD_AIR_SECONDS: 1.2,
+  // Under this many words per second a stretch of speech drags
+  SLOW_WORDS_PER_SECOND: 1.6,
+  // The payoff should land before this share of the video
+  LATE_PAYOFF_RATIO: 0.6,
+  // A call to action before this share of the video signals the end early
+  EARLY_CTA_RATIO: 0.7,
+  MIN_RETENTION: 5,
+};
+
+const CTA_PATTERN = /\b(follow( me| for)?|subscribe|like (this|the video)|hit the like|comment (below|down)|let me know in the comments|link in (my )?bio|check out my|part (2|two)|save this|share this|turn on notifications)\b/i;
+
+// Phrases that usually introduce the answer, reveal or result the video has been building to
+const PAYOFF_PATTERN = /\b(so (here'?s|the answer|that'?s)|turns out|it turns out|the (answer|secret|trick|reason|result) (is|was)|that'?s why|that'?s how|here'?s (why|how|what)|and (then|finally)|the best part|which means|and it worked|guess what|plot twist|the result)\b/i;
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function beatText(segments: TranscriptSegment[], start: number, end: number): string {
+  return segments
+    .filter(segment => segment.start >= start && segment.start < end)
+    .map(segment => segment.text.trim())
+    .join(' ');
+}
+
+/**
+ * Splits the speech into hook, setup, payoff and (when one is spoken) CTA
+ * The payoff starts at the first payoff phrase after the setup began, else at 60% of the speech before the CTA
+ */
+export function segmentBeats(segments: TranscriptSegment[], durationSeconds: number, hookWindow: number): RetentionBeat[] {
+  if (segments.length === 0) return [];
+
+  const hookEnd = Math.min(durationSeconds, Math.max(hookWindow, segments[0].end));
+  const afterHook = segments.filter(segment => segment.start >= hookEnd);
+
+  // Only the final third counts: "follow" in the middle of a story is not a sign-off
+  const ctaSegment = afterHook.find(segment => segment.start >= durationSeconds * 0.66 && CTA_PATTERN.test(segment.text));
+  const ctaStart = ctaSegment?.start ?? durationSeconds;
+
+  const bodyEnd = ctaStart;
+  const setupFloor = hookEnd + (bodyEnd - hookEnd) * 0.2;
+  const payoffSegment = afterHook.find(segment => segment.start >= setupFloor && segment.start < bodyEnd && PAYOFF_PATTERN.test(segment.text));
+  const payoffStart = payoffSegment?.start ?? round(hookEnd + (bodyEnd - hookEnd) * 0.6, 2);
+
+  const beats: RetentionBeat[] = [{ type: 'hook', start: 0, end: hookEnd, text: beatText(segments, 0, hookEnd) }];
+  if (payoffStart > hookEnd) {
+    beats.push({ type: 'setup', start: hookEnd, end: payoffStart, text: beatText(segments, hookEnd, payoffStart) });
+  }
+  if (bodyEnd > payoffStart) {
+    beats.push({ type: 'payoff', start: payoffStart, end: bodyEnd, text: beatText(segments, payoffStart, bodyEnd) });
+  }
+  if (ctaSegment) {
+    beats.push({ type: 'cta', start: ctaStart, end: durationSeconds, text: beatText(segments, ctaStart, durationSeconds) });
+  }
+  return beats;
+}
+
+function findDeadAir(segments: TranscriptSegment[], durationSeconds: number): Array<{ start: number; end: number }> {
+  const gaps: Array<{ start: number; end: number }> = [];
+  for (let i = 1; i < segments.length; i++) {
+    const gap = segments[i].start - segments[i - 1].end;
+    if (gap > RETENTION_CONFIG.DEAD_AIR_SECONDS) {
+      gaps.push({ start: segments[i - 1].end, end: segments[i].start });
+    }
+  }
+  // Silence after the last word is a tail viewers will not wait through
+  const last = segments[segments.length - 1];
+  if (durationSeconds - last.end > RETENTION_CONFIG.DEAD_AIR_SECONDS * 2) {
+    gaps.push({ start: last.end, end: durationSeconds });
+  }
+  return gaps;
+}
+
+function findSlowSegments(segments: TranscriptSegment[], after: number): TranscriptSegment[] {
+  return segments.filter(segment => {
+    const length = segment.end - segment.start;
+    return segment.start >= after && length >= 2 &&
+      tokenizeWords(segment.text).length / length < RETENTION_CONFIG.SLOW_WORDS_PER_SECOND;
+  });
+}
+
+/**
+ * Predicts the retention curve of a video from its timed transcript
+ * Returns null without timing (e.g. a provided transcript) or a known length
+ */
+export function estimateRetention(
+  segments: TranscriptSegment[],
+  options: { durationSeconds?: number | null; hookAnalysis?: HookAnalysis | null } = {}
+): RetentionEstimate | null {
+  if (segments.length === 0) return null;
+
+  const lastEnd = segments[segments.length - 1].end;
+  const durationSeconds = options.durationSeconds && options.durationSeconds > 0
+    ? Math.max(options.durationSeconds, lastEnd)
+    : lastEnd;
+  if (!(durationSeconds > 0)) return null;
+
+  const hook = options.hookAnalysis ?? null;
+  const hookWindow = hook?.windowSeconds ?? RETENTION_CONFIG.HOOK_WINDOW_SECONDS;
+  const beats = segmentBeats(segments, durationSeconds, hookWindow);
+  const payoff = beats.find(beat => beat.type === 'payoff');
+  const cta = beats.find(beat => beat.type === 'cta');
+  const risks: RetentionRisk[] = [];
+
+  // Hook: a weak or late-starting opening loses more viewers up front
+  let hookDrop = RETENTION_CONFIG.BASE_HOOK_DROP;
+  if (hook) {
+    hookDrop += (50 - hook.score) * 0.25;
+  }
+  const firstSpeechAt = Math.max(0, segments[0].start);
+  const firstSentenceEnd = segments[0].end;
+  if (firstSpeechAt > 1 || firstSentenceEnd > RETENTION_CONFIG.LONG_INTRO_SECONDS) {
+    hookDrop += 8;
+    risks.push({
+      type: 'long_intro',
+      time: 0,
+      severity: firstSpeechAt > 2 || firstSentenceEnd > RETENTION_CONFIG.LONG_INTRO_SECONDS * 1.5 ? 'high' : 'medium',
+      message: firstSpeechAt > 1
+        ? `Nothing is said for the first ${firstSpeechAt.toFixed(1)}s`
+        : `The opening line runs ${firstSentenceEnd.toFixed(1)}s before the hook lands`,
+    });
+  }
+  hookDrop = Math.max(8, Math.min(45, hookDrop));
+
+  const deadAir = findDeadAir(segments, durationSeconds);
+  for (const gap of deadAir) {
+    const length = gap.end - gap.start;
+    risks.push({
+      type: 'dead_air',
+      time: round(gap.start),
+      severity: length > 3 ? 'high' : length > 2 ? 'medium' : 'low',
+      message: `${length.toFixed(1)}s of silence`,
+    });
+  }
+
+  const slow = findSlowSegments(segments, hookWindow);
+  for (const segment of slow) {
+    risks.push({
+      type: 'slow_section',
+      time: round(segment.start),
+      severity: 'low',
+      message: `Speech slows to ${(tokenizeWords(segment.text).length / (segment.end - segment.start)).toFixed(1)} words/s`,
+    });
+  }
+
+  const latePayoff = !!payoff && payoff.start > durationSeconds * RETENTION_CONFIG.LATE_PAYOFF_RATIO;
+  if (payoff && latePayoff) {
+    risks.push({
+      type: 'delayed_payoff',
+      time: round(payoff.start),
+      severity: payoff.start > durationSeconds * 0.8 ? 'high' : 'medium',
+      message: `The payoff arrives ${Math.round((payoff.start / durationSeconds) * 100)}% into the video`,
+    });
+  }
+
+  const earlyCta = !!cta && cta.start < durationSeconds * RETENTION_CONFIG.EARLY_CTA_RATIO;
+  if (cta && earlyCta) {
+    risks.push({
+      type: 'early_cta',
+      time: round(cta.start),
+      severity: 'medium',
+      message: `The call to action starts at ${cta.start.toFixed(1)}s and signals the end early`,
+    });
+  }
+
+  // Walk the video in fixed steps, compounding the per-step loss
+  const step = durationSeconds <= 30 ? 0.5 : 1;
+  const points: RetentionPoint[] = [{ time: 0, retention: 100 }];
+  let retention = 100;
+
+  for (let time = step; time <= durationSeconds + 1e-9; time += step) {
+    const from = time - step;
+    let loss: number;
+
+    if (from < hookWindow) {
+      // Spread the swipe-away over the hook window
+      loss = (hookDrop / hookWindow) * Math.min(step, hookWindow - from);
+      loss += RETENTION_CONFIG.BASE_DECAY_PER_SECOND * Math.max(0, time - hookWindow);
+    } else {
+      let rate = RETENTION_CONFIG.BASE_DECAY_PER_SECOND;
+      if (deadAir.some(gap => from < gap.end && time > gap.start)) rate *= 3;
+      if (slow.some(segment => from < segment.end && time > segment.start)) rate *= 1.4;
+      // Viewers who have waited past the usual payoff point keep leaving until it arrives
+      if (latePayoff && payoff && from >= durationSeconds * 0.5 && from < payoff.start) rate *= 1.5;
+      // The payoff itself holds viewers
+      if (payoff && from >= payoff.start && (!cta || from < cta.start)) rate *= 0.7;
+      if (cta && from >= cta.start) rate *= earlyCta ? 2 : 1.5;
+      loss = rate * step;
+    }
+
+    // Losses are relative to the viewers still watching
+    retention = Math.max(RETENTION_CONFIG.MIN_RETENTION, retention - loss * (retention / 100));
+    points.push({ time: round(Math.min(time, durationSeconds), 2), retention: round(retention) });
+  }
+
+  const averageRetention = points.reduce((sum, point) => sum + point.retention, 0) / points.length;
+
+  return {
+    durationSeconds: round(durationSeconds),
+    beats: beats.map(beat => ({ ...beat, start: round(beat.start, 2), end: round(beat.end, 2) })),
+    points,
+    risks: risks.sort((a, b) => a.time - b.time),
+    averageRetention: round(averageRetention),
+    completionRate: points[points.length - 1].retention,
+  };
+}
@@ -1,88 +1,183 @@
 /**
  * Security Module for Shorts Analyzer
- * Provides rate limiting, input validation, and security headers
+ * Provides client identification, input validation, and security headers
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { API_KEY_SCOPES } from './api-keys';
 
-// Rate limiting configuration
-const RATE_LIMIT_CONFIG = {
-  WINDOW_MS: 60 * 1000, // 1 minute
-  MAX_REQUESTS: 10, // Max requests per window
-  BURST_LIMIT: 20, // Burst limit for short periods
-};
+// Free text typed by users (niches, topics, interests): letters in any script, digits and ordinary punctuation
+const FREE_TEXT = /^[\p{L}\p{N}\s\-_.,!?'’"&:;()#/+]+$/u;
 
-// In-memory rate limit store (use Redis in production)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+// Hosts video URLs may come from; subdomains (www., m., vm.) match, look-alikes such as youtube.com.example.net do not
+const ALLOWED_VIDEO_DOMAINS = ['youtube.com', 'youtu.be', 'instagram.com', 'tiktok.com'];
+
+export function isHostOf(hostname: string, domain: string): boolean {
+  const host = hostname.toLowerCase();
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function isAllowedVideoHost(hostname: string): boolean {
+  return ALLOWED_VIDEO_DOMAINS.some(domain => isHostOf(hostname, domain));
+}
 
 // Input validation schemas
 export const URL_SCHEMA = z.object({
-  url: z.string()
+  url: z.string({ required_error: 'Video URL is required' })
+    .trim()
     .url('Invalid URL format')
     .refine((url) => {
-      const allowedDomains = [
-        'youtube.com', 'youtu.be', 'instagram.com', 'tiktok.com'
-      ];
       try {
-        const domain = new URL(url).hostname.toLowerCase();
-        return allowedDomains.some(allowed => domain.includes(allowed));
+        return isAllowedVideoHost(new URL(url).hostname);
       } catch {
         return false;
       }
     }, 'URL must be from YouTube, Instagram, or TikTok')
     .refine((url) => url.length < 500, 'URL too long')
+    .transform((url, ctx) => {
+      const result = validateAndSanitizeURL(url);
+      if (!result.valid || !result.sanitized) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error || 'Invalid URL format' });
+        return z.NEVER;
+      }
+      return result.sanitized;
+    })
+});
+
+// Query flags arrive as strings, JSON bodies send real booleans
+const BOOLEAN_FLAG = z.union([z.boolean(), z.enum(['true', 'false'])])
+  .optional()
+  .transform((value) => value === true || value === 'true');
+
+export const ANALYZE_REQUEST_SCHEMA = URL_SCHEMA.extend({
+  transcript: z.string().max(50000, 'Transcript too long').optional(),
+  refresh: BOOLEAN_FLAG,
+  // Video mode: download the video for cut and composition metrics; vision also describes keyframes
+  video: BOOLEAN_FLAG,
+  vision: BOOLEAN_FLAG
 });
 
 export const SCRIPT_REQUEST_SCHEMA = z.object({
-  niche: z.string()
+  niche: z.string({ required_error: 'Niche is required' })
+    .trim()
     .min(1, 'Niche is required')
     .max(100, 'Niche too long')
-    .regex(/^[a-zA-Z0-9\s\-_]+$/, 'Invalid niche format'),
-  topic: z.string()
+    .regex(FREE_TEXT, 'Invalid niche format'),
+  topic: z.string({ required_error: 'Topic is required' })
+    .trim()
     .min(1, 'Topic is required')
     .max(200, 'Topic too long')
-    .regex(/^[a-zA-Z0-9\s\-_.,!?]+$/, 'Invalid topic format')
+    .regex(FREE_TEXT, 'Invalid topic format'),
+  style: z.string().max(50).optional()
+});
+
+export const NICHE_REQUEST_SCHEMA = z.object({
+  interests: z.string({ required_error: 'Interests are required' })
+    .max(500, 'Interests too long')
+    .transform((value) => value.split(',').map((interest) => interest.trim()).filter(Boolean))
+    .pipe(z.array(z.string().max(100).regex(FREE_TEXT, 'Invalid interest format')).min(1, 'Interests are required')),
+  goals: z.string().max(200, 'Goals too long').optional(),
+  audience: z.string().max(200, 'Audience too long').optional()
 });
 
 export const TRENDING_REQUEST_SCHEMA = z.object({
-  platform: z.enum(['youtube', 'instagram', 'tiktok']).optional(),
-  country: z.string().length(2).optional(),
-  duration: z.enum(['short', 'medium', 'long']).optional(),
-  limit: z.number().min(1).max(50).optional()
+  platform: z.enum(['youtube', 'instagram', 'tiktok']).default('youtube'),
+  country: z.string().length(2, 'Country must be a 2-letter code').transform((country) => country.toUpperCase()).default('US'),
+  duration: z.enum(['short', 'medium', 'long']).default('short'),
+  // Query parameters are strings
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  category: z.string().max(100, 'Category too long').regex(FREE_TEXT, 'Invalid category format').optional()
 });
 
-// Rate limiting middleware
-export function rateLimit(identifier: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const key = identifier;
-  const record = rateLimitStore.get(key);
-
-  if (!record || now > record.resetTime) {
-    // Reset or create new record
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_CONFIG.WINDOW_MS
-    });
-    return { allowed: true, remaining: RATE_LIMIT_CONFIG.MAX_REQUESTS - 1, resetTime: now + RATE_LIMIT_CONFIG.WINDOW_MS };
+export const COMPARE_REQUEST_SCHEMA = z.object({
+  // Library entries from GET /api/analyses
+  analysisIds: z.array(z.string().uuid('Invalid analysis ID')).default([]),
+  // Analyzed on the fly (cached analyses are reused) and added to the library
+  urls: z.array(URL_SCHEMA.shape.url).default([])
+}).superRefine(({ analysisIds, urls }, ctx) => {
+  const count = new Set(analysisIds).size + new Set(urls).size;
+  if (count < 2 || count > 10) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Compare between 2 and 10 videos' });
   }
+});
 
-  if (record.count >= RATE_LIMIT_CONFIG.MAX_REQUESTS) {
-    return { allowed: false, remaining: 0, resetTime: record.resetTime };
-  }
+// Playlist, channel and profile URLs are expanded with yt-dlp; a CSV may list URLs in any column
+export const BATCH_REQUEST_SCHEMA = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum(['playlist', 'channel', 'tiktok']),
+    url: URL_SCHEMA.shape.url,
+    limit: z.coerce.number().int().min(1).max(50).default(20)
+  }),
+  z.object({
+    type: z.literal('csv'),
+    csv: z.string({ required_error: 'CSV content is required' }).min(1, 'CSV content is required').max(200000, 'CSV too large')
+  })
+]);
 
-  // Increment count
-  record.count++;
-  rateLimitStore.set(key, record);
-  
-  return { 
-    allowed: true, 
-    remaining: RATE_LIMIT_CONFIG.MAX_REQUESTS - record.count, 
-    resetTime: record.resetTime 
-  };
-}
+// Path segments of /api/creators/:platform/:id
+export const CREATOR_PARAMS_SCHEMA = z.object({
+  platform: z.enum(['youtube', 'tiktok'], { errorMap: () => ({ message: 'Creator profiles support YouTube and TikTok' }) }),
+  // YouTube channel ID or @handle; TikTok @handle
+  id: z.string().trim().min(2).max(100).regex(/^@?[\w.-]+$/, 'Invalid creator ID')
+});
 
-// Get client identifier for rate limiting
+export const CREATOR_QUERY_SCHEMA = z.object({
+  // Newest uploads the statistics are computed from
+  limit: z.coerce.number().int().min(5).max(50).default(30),
+  // How many of them run through the full analysis for hook, format and emotion patterns
+  sample: z.coerce.number().int().min(0).max(10).default(5)
+});
+
+// Optional free-text filter; blank query parameters count as absent
+const FILTER_TEXT = z.string().trim().max(100, 'Filter too long').regex(FREE_TEXT, 'Invalid filter format').optional()
+  .or(z.literal('').transform(() => undefined));
+
+export const ANALYSES_QUERY_SCHEMA = z.object({
+  platform: z.enum(['youtube', 'instagram', 'tiktok']).optional(),
+  niche: FILTER_TEXT,
+  creator: FILTER_TEXT,
+  emotion: FILTER_TEXT,
+  pace: z.enum(['slow', 'moderate', 'fast']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().max(200, 'Search too long').optional(),
+  // Admins only; members always see their own analyses
+  userId: z.string().uuid('Invalid user ID').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const EMAIL = z.string({ required_error: 'Email is required' }).trim().email('Invalid email address').max(254);
+
+export const LOGIN_SCHEMA = z.object({
+  email: EMAIL,
+  password: z.string({ required_error: 'Password is required' }).min(1, 'Password is required').max(200)
+});
+
+export const REGISTER_SCHEMA = z.object({
+  email: EMAIL,
+  password: z.string({ required_error: 'Password is required' })
+    .min(10, 'Password must be at least 10 characters')
+    .max(200, 'Password too long'),
+  role: z.enum(['admin', 'member']).optional()
+});
+
+export const USER_UPDATE_SCHEMA = z.object({
+  role: z.enum(['admin', 'member'])
+});
+
+export const API_KEY_CREATE_SCHEMA = z.object({
+  name: z.string({ required_error: 'Name is required' }).trim().min(1, 'Name is required').max(100, 'Name too long').regex(FREE_TEXT, 'Invalid name format'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Choose at least one scope'),
+  // Admin-only; replaces the default rate-limit budget for this key
+  quota: z.object({
+    capacity: z.number().int().min(1).max(10000).optional(),
+    refillPerMinute: z.number().int().min(1).max(10000).optional()
+  }).optional()
+});
+
+// Get client identifier for rate limiting (anonymous requests are limited per IP)
 export function getClientIdentifier(req: NextRequest): string {
   // Try to get real IP from various headers
   const forwarded = req.headers.get('x-forwarded-for');
@@ -157,10 +252,7 @@ export function validateAndSanitizeURL(url: string): { valid: boolean; sanitized
     }
     
     // Check domain
-    const hostname = urlObj.hostname.toLowerCase();
-    const allowedDomains = ['youtube.com', 'youtu.be', 'instagram.com', 'tiktok.com'];
-    
-    if (!allowedDomains.some(domain => hostname.includes(domain))) {
+    if (!isAllowedVideoHost(urlObj.hostname)) {
       return { valid: false, error: 'Domain not allowed' };
     }
     
@@ -208,23 +300,3 @@ export async function validateRequest<T>(
     return { success: false, error: 'Invalid request data' };
   }
 }
-
-// Clean up rate limit store periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, record] of rateLimitStore.entries()) {
-    if (now > record.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, RATE_LIMIT_CONFIG.WINDOW_MS);
-
-// Export rate limit info for monitoring
-export function getRateLimitStats() {
-  return {
-    activeConnections: rateLimitStore.size,
-    windowMs: RATE_LIMIT_CONFIG.WINDOW_MS,
-    maxRequests: RATE_LIMIT_CONFIG.MAX_REQUESTS,
-    burstLimit: RATE_LIMIT_CONFIG.BURST_LIMIT
-  };
-}
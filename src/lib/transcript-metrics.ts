@@ -0,0 +1,146 @@
+/**
+ * Transcript metrics
+ * Pure, deterministic measurements of a transcript that the LLM should not have to guess
+ */
+
+import type { TranscriptSegment } from './transcript';
+
+export type Pace = 'slow' | 'moderate' | 'fast';
+
+export interface TranscriptMetrics {
+  wordCount: number;
+  // From video metadata, else the end of the last timed segment
+  durationSeconds: number | null;
+  wordsPerMinute: number | null;
+  pace: Pace | null;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  fillerWordCount: number;
+  fillerWordRatio: number;
+  questionCount: number;
+  // Share of words addressing the viewer ("you", "your", ...)
+  secondPersonRatio: number;
+  // Flesch-Kincaid grade level
+  readabilityGrade: number;
+  // Share of content words (not function words)
+  lexicalDensity: number;
+}
+
+export function computePaceFromWpm(wpm: number): Pace {
+  if (wpm < 110) return 'slow';
+  if (wpm < 160) return 'moderate';
+  return 'fast';
+}
+
+const FILLER_WORDS = new Set(['um', 'uh', 'uhm', 'umm', 'erm', 'er', 'ah', 'hmm', 'like', 'basically', 'literally', 'actually']);
+const FILLER_PHRASES = ['you know', 'i mean', 'kind of', 'sort of'];
+
+const SECOND_PERSON_WORDS = new Set(['you', 'your', 'yours', 'yourself', 'yourselves', "you're", "you'll", "you've", "you'd", 'ya', 'y\'all']);
+
+// Function words: articles, pronouns, prepositions, conjunctions, auxiliaries
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'so', 'yet', 'if', 'then', 'than', 'because', 'as', 'while',
+  'of', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from', 'up', 'down', 'out', 'off', 'over', 'under',
+  'into', 'onto', 'about', 'after', 'before', 'through', 'between', 'against', 'during', 'without', 'within',
+  'i', 'me', 'my', 'mine', 'myself', 'we', 'us', 'our', 'ours', 'you', 'your', 'yours', 'he', 'him', 'his',
+  'she', 'her', 'hers', 'it', 'its', 'they', 'them', 'their', 'theirs', 'this', 'that', 'these', 'those',
+  'who', 'whom', 'whose', 'which', 'what', 'there', 'here',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'being', 'do', 'does', 'did', 'have', 'has', 'had',
+  'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must',
+  "i'm", "it's", "that's", "don't", "doesn't", "didn't", "can't", "won't", "isn't", "aren't", "you're",
+  "we're", "they're", "i've", "i'll", "you'll", 'not', 'no', 'just', 'very', 'too', 'also', 'all', 'some',
+]);
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Splits on terminal punctuation; auto-captions often have none, in which case caption cues stand in for sentences
+ */
+export function splitSentences(text: string, segments: TranscriptSegment[] = []): string[] {
+  const sentences = text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => tokenizeWords(sentence).length > 0);
+
+  const hasPunctuation = /[.!?]/.test(text);
+  if (!hasPunctuation && segments.length > 1) {
+    return segments.map(segment => segment.text.trim()).filter(Boolean);
+  }
+  return sentences;
+}
+
+export function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!cleaned) return 0;
+  if (cleaned.length <= 3) return 1;
+
+  const trimmed = cleaned
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function countFillers(words: string[]): number {
+  const singles = words.filter(word => FILLER_WORDS.has(word)).length;
+  const joined = ` ${words.join(' ')} `;
+  const phrases = FILLER_PHRASES.reduce(
+    (count, phrase) => count + (joined.split(` ${phrase} `).length - 1),
+    0
+  );
+  return singles + phrases;
+}
+
+export function computeTranscriptMetrics(
+  transcript: string,
+  options: { durationSeconds?: number | null; segments?: TranscriptSegment[] } = {}
+): TranscriptMetrics {
+  const segments = options.segments ?? [];
+  const words = tokenizeWords(transcript);
+  const wordCount = words.length;
+  const sentences = splitSentences(transcript, segments);
+  const sentenceCount = sentences.length;
+
+  const lastSegmentEnd = segments.length > 0 ? segments[segments.length - 1].end : null;
+  const durationSeconds = options.durationSeconds && options.durationSeconds > 0
+    ? options.durationSeconds
+    : lastSegmentEnd;
+  const wordsPerMinute = durationSeconds && wordCount > 0
+    ? Math.round(wordCount / (durationSeconds / 60))
+    : null;
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const readabilityGrade = wordCount > 0 && sentenceCount > 0
+    ? Math.max(0, 0.39 * (wordCount / sentenceCount) + 11.8 * (syllables / wordCount) - 15.59)
+    : 0;
+
+  const fillerWordCount = countFillers(words);
+  const ratio = (count: number) => (wordCount > 0 ? round(count / wordCount, 3) : 0);
+
+  return {
+    wordCount,
+    durationSeconds: durationSeconds ? round(durationSeconds, 1) : null,
+    wordsPerMinute,
+    pace: wordsPerMinute !== null ? computePaceFromWpm(wordsPerMinute) : null,
+    sentenceCount,
+    averageSentenceLength: sentenceCount > 0 ? round(wordCount / sentenceCount, 1) : 0,
+    fillerWordCount,
+    fillerWordRatio: ratio(fillerWordCount),
+    questionCount: (transcript.match(/\?+/g) || []).length,
+    secondPersonRatio: ratio(words.filter(word => SECOND_PERSON_WORDS.has(word)).length),
+    readabilityGrade: round(readabilityGrade, 1),
+    lexicalDensity: ratio(words.filter(word => !FUNCTION_WORDS.has(word) && !/^\d+$/.test(word)).length),
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Time-coded transcripts
+ * Parsers that keep cue timing from VTT/SRT subtitles, YouTube timedtext XML and Whisper verbose_json
+ */
+
+export interface TranscriptSegment {
+  // Seconds from the start of the video
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  // 0-1, only reported by speech-to-text and OCR
+  confidence?: number;
+}
+
+export interface SoundAnnotation {
+  start: number;
+  end: number;
+  // Lowercased caption tag such as "applause"; [Music], [Song] and ♪ lyric lines are all "music"
+  label: string;
+}
+
+export interface TimedTranscript {
+  text: string;
+  // Empty when the source had no timing (e.g. a user-provided transcript)
+  segments: TranscriptSegment[];
+  // Non-speech cues the captions or Whisper marked, e.g. [Music]; absent when there were none
+  annotations?: SoundAnnotation[];
+}
+
+// Subset of Whisper's verbose_json response that we use
+export interface WhisperVerboseResponse {
+  text: string;
+  duration?: number;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+    avg_logprob?: number;
+  }>;
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ');
+}
+
+/**
+ * Parses "01:02:03.456", "02:03.456" or the SRT form "01:02:03,456" into seconds
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return roundTime(
+    parseInt(hours || '0') * 3600 +
+    parseInt(minutes) * 60 +
+    parseInt(seconds) +
+    parseInt(fraction.padEnd(3, '0')) / 1000
+  );
+}
+
+const MUSIC_NOTES = /[♪♫♬]/;
+const MUSIC_LABEL = /music|song|singing|instrumental|melody|beat/i;
+
+// Tags in a cue line, e.g. "[Music]" → ["music"]; lyric lines wrapped in ♪ count as music
+function cueAnnotations(line: string): string[] {
+  const labels = [...line.replace(/<[^>]*>/g, '').matchAll(/\[([^\]]+)\]/g)]
+    .map(match => match[1].trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(label => label.length > 0)
+    .map(label => MUSIC_LABEL.test(label) ? 'music' : label);
+  if (MUSIC_NOTES.test(line)) labels.push('music');
+  return [...new Set(labels)];
+}
+
+// Extends the previous annotation with the same label when the cues touch, so repeated tags become one span
+function addAnnotation(annotations: SoundAnnotation[], annotation: SoundAnnotation): void {
+  const previous = annotations.findLast(existing => existing.label === annotation.label);
+  if (previous && annotation.start <= previous.end + 1) {
+    previous.end = Math.max(previous.end, annotation.end);
+    return;
+  }
+  annotations.push(annotation);
+}
+
+function cleanCueText(line: string): string {
+  return decodeEntities(line
+    .replace(/<[^>]*>/g, '') // Remove HTML and inline timing tags
+    .replace(/\[.*?\]/g, '') // Remove [music], [applause] etc
+    .replace(/\{.*?\}/g, '') // Remove {style} tags
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parses WebVTT or SRT content into segments
+ * YouTube auto-captions repeat the previous line in each cue, so lines already shown in the previous cue are dropped
+ */
+export function parseSubtitleSegments(content: string): TranscriptSegment[] {
+  return parseSubtitleCues(content).segments;
+}
+
+function parseSubtitleCues(content: string): { segments: TranscriptSegment[]; annotations: SoundAnnotation[] } {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const segments: TranscriptSegment[] = [];
+  const annotations: SoundAnnotation[] = [];
+  let previousLines: string[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE or SRT noise
+
+    const [rawStart, rawEnd] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(rawStart);
+    // VTT cue settings ("align:start position:0%") follow the end time
+    const end = parseTimestamp(rawEnd.trim().split(/\s+/)[0]);
+    if (start === null || end === null) continue;
+
+    const cueLines = lines.slice(timingIndex + 1);
+    for (const label of cueLines.flatMap(cueAnnotations)) {
+      addAnnotation(annotations, { start, end, label });
+    }
+    const speaker = cueLines.join(' ').match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/)?.[1]?.trim();
+    const textLines = cueLines
+      .map(cleanCueText)
+      .filter(line => line.length > 0);
+    const newLines = textLines.filter(line => !previousLines.includes(line));
+    previousLines = textLines;
+
+    if (newLines.length === 0) continue;
+    segments.push({
+      start,
+      end,
+      text: newLines.join(' '),
+      ...(speaker ? { speaker } : {}),
+    });
+  }
+
+  return { segments, annotations };
+}
+
+/**
+ * Parses YouTube timedtext XML, either <text start="1.2" dur="3.4"> or srv3 <p t="1200" d="3400">
+ */
+export function parseTimedTextSegments(xml: string): TranscriptSegment[] {
+  return parseTimedTextCues(xml).segments;
+}
+
+function parseTimedTextCues(xml: string): { segments: TranscriptSegment[]; annotations: SoundAnnotation[] } {
+  const cues: Array<{ start: number; end: number; raw: string }> = [];
+
+  for (const match of xml.matchAll(/<text\s+([^>]*)>([\s\S]*?)<\/text>/g)) {
+    const start = parseFloat(match[1].match(/start="([\d.]+)"/)?.[1] ?? '');
+    const duration = parseFloat(match[1].match(/dur="([\d.]+)"/)?.[1] ?? '0');
+    if (isNaN(start)) continue;
+    cues.push({ start: roundTime(start), end: roundTime(start + duration), raw: decodeEntities(match[2]) });
+  }
+
+  if (cues.length === 0) {
+    for (const match of xml.matchAll(/<p\s+([^>]*)>([\s\S]*?)<\/p>/g)) {
+      const startMs = parseInt(match[1].match(/\bt="(\d+)"/)?.[1] ?? '');
+      const durationMs = parseInt(match[1].match(/\bd="(\d+)"/)?.[1] ?? '0');
+      if (isNaN(startMs)) continue;
+      cues.push({ start: roundTime(startMs / 1000), end: roundTime((startMs + durationMs) / 1000), raw: decodeEntities(match[2]) });
+    }
+  }
+
+  const segments: TranscriptSegment[] = [];
+  const annotations: SoundAnnotation[] = [];
+  for (const { start, end, raw } of cues) {
+    for (const label of cueAnnotations(raw)) {
+      addAnnotation(annotations, { start, end, label });
+    }
+    const text = cleanCueText(raw);
+    if (text) segments.push({ start, end, text });
+  }
+  return { segments, annotations };
+}
+
+/**
+ * Parses any caption format we receive from YouTube or yt-dlp
+ * Content without recognisable cues is returned as plain text with no segments;
+ * captions that only tag sounds have no text, so callers treat them as no transcript
+ */
+export function parseCaptionContent(content: string): TimedTranscript {
+  const { segments, annotations } = content.includes('-->')
+    ? parseSubtitleCues(content)
+    : parseTimedTextCues(content);
+
+  if (segments.length > 0) {
+    return { text: segmentsToText(segments), segments, ...(annotations.length > 0 ? { annotations } : {}) };
+  }
+
+  // Captions that only tag sounds (a music-only video) say nothing, but still say where the music is
+  if (annotations.length > 0) {
+    return { text: '', segments: [], annotations };
+  }
+
+  const text = decodeEntities(content.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+  return { text, segments: [] };
+}
+
+/**
+ * Whisper writes music as "[Music]" or "♪" segments; those become annotations rather than speech
+ */
+export function fromWhisperVerbose(response: WhisperVerboseResponse): TimedTranscript {
+  const annotations: SoundAnnotation[] = [];
+  const segments = (response.segments || [])
+    .filter(segment => {
+      const labels = cueAnnotations(segment.text);
+      if (labels.length === 0 || cleanCueText(segment.text.replace(/[♪♫♬]/g, '')).length > 0) return true;
+      for (const label of labels) {
+        addAnnotation(annotations, { start: roundTime(segment.start), end: roundTime(segment.end), label });
+      }
+      return false;
+    })
+    .map(segment => ({
+      start: roundTime(segment.start),
+      end: roundTime(segment.end),
+      text: segment.text.trim(),
+      ...(segment.avg_logprob !== undefined
+        ? { confidence: Math.round(Math.min(1, Math.exp(segment.avg_logprob)) * 1000) / 1000 }
+        : {}),
+    }))
+    .filter(segment => segment.text.length > 0);
+
+  if (annotations.length === 0) {
+    return { text: response.text.trim(), segments };
+  }
+  return { text: segmentsToText(segments), segments, annotations };
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map(segment => segment.text).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Shifts annotations by a fixed offset, used when audio is transcribed in chunks
+ */
+export function offsetAnnotations(annotations: SoundAnnotation[], offsetSeconds: number): SoundAnnotation[] {
+  return annotations.map(annotation => ({
+    ...annotation,
+    start: roundTime(annotation.start + offsetSeconds),
+    end: roundTime(annotation.end + offsetSeconds),
+  }));
+}
+
+/**
+ * Shifts segments by a fixed offset, used when audio is transcribed in chunks
+ */
+export function offsetSegments(segments: TranscriptSegment[], offsetSeconds: number): TranscriptSegment[] {
+  return segments.map(segment => ({
+    ...segment,
+    start: roundTime(segment.start + offsetSeconds),
+    end: roundTime(segment.end + offsetSeconds),
+  }));
+}
@@ -0,0 +1,386 @@
+/**
+ * Visual analysis
+ * Measures cuts, shot lengths and first-frame composition from a downloaded video with ffmpeg alone,
+ * and optionally has a vision model describe sampled keyframes (on-screen text, visual hook, face on camera)
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { getOpenAI, MODELS } from './openai';
+
+const execFileAsync = promisify(execFile);
+
+// Visual analysis configuration
+const VISUAL_CONFIG = {
+  // ffmpeg scene score (0-1) above which a frame starts a new shot
+  SCENE_THRESHOLD: parseFloat(process.env.VISUAL_SCENE_THRESHOLD || '0.3'),
+  // Cuts closer together than this are one transition detected twice (flashes, fades)
+  MIN_SHOT_SECONDS: 0.25,
+  // Keyframes sent to the vision model
+  MAX_KEYFRAMES: parseInt(process.env.VISUAL_MAX_KEYFRAMES || '6'),
+  KEYFRAME_WIDTH: 512,
+  // The first frame is scaled to this square for composition stats
+  COMPOSITION_SIZE: 64,
+  // Luma gradient above which a pixel counts as an edge
+  EDGE_THRESHOLD: 40,
+  FFMPEG_TIMEOUT_MS: 120000,
+};
+
+export type ShotLengthBucket = '<1s' | '1-2s' | '2-4s' | '4-8s' | '8s+';
+
+export type FrameRegion =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'middle-left' | 'center' | 'middle-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export interface FirstFrameComposition {
+  // Mean luma, 0 (black) to 1 (white)
+  brightness: number;
+  // Luma standard deviation, 0-1
+  contrast: number;
+  // Hasler-Süsstrunk colorfulness: under 15 is nearly grey, over 80 very colorful
+  colorfulness: number;
+  // Share of pixels on an edge; busy frames (text, detail) score high
+  edgeDensity: number;
+  // Where the detail is concentrated, 0-1 from the top-left corner
+  focus: { x: number; y: number };
+  focusRegion: FrameRegion;
+}
+
+export interface VisionDescription {
+  model: string;
+  // Captions, titles and stickers readable in the keyframes
+  onScreenText: Array<{ time: number; text: string }>;
+  visualHook: string;
+  faceOnCamera: boolean;
+  keyframes: Array<{ time: number; description: string }>;
+}
+
+export interface VisualAnalysis {
+  durationSeconds: number;
+  width: number | null;
+  height: number | null;
+  orientation: 'vertical' | 'horizontal' | 'square' | null;
+  // Seconds at which a new shot starts
+  cuts: number[];
+  cutCount: number;
+  cutsPer10Seconds: number;
+  shots: {
+    count: number;
+    averageSeconds: number;
+    medianSeconds: number;
+    shortestSeconds: number;
+    longestSeconds: number;
+    distribution: Record<ShotLengthBucket, number>;
+  };
+  firstFrame: FirstFrameComposition | null;
+  // Only when the vision model was asked and answered
+  vision: VisionDescription | null;
+}
+
+const VISION_SYSTEM_PROMPT = `You analyze keyframes from a short-form video. Each image is labelled with its timestamp.
+Return STRICT JSON that matches the provided JSON Schema. Transcribe on-screen text exactly as shown; do not invent text that is not visible.`;
+
+const VISION_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    onScreenText: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: { time: { type: 'number' }, text: { type: 'string' } },
+        required: ['time', 'text'],
+      },
+    },
+    visualHook: { type: 'string' },
+    faceOnCamera: { type: 'boolean' },
+    keyframes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: { time: { type: 'number' }, description: { type: 'string' } },
+        required: ['time', 'description'],
+      },
+    },
+  },
+  required: ['onScreenText', 'visualHook', 'faceOnCamera', 'keyframes'],
+};
+
+const VISION_SCHEMA = z.object({
+  onScreenText: z.array(z.object({ time: z.number(), text: z.string() })),
+  visualHook: z.string(),
+  faceOnCamera: z.boolean(),
+  keyframes: z.array(z.object({ time: z.number(), description: z.string() })),
+});
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+const ffmpegBin = () => process.env.FFMPEG_PATH || 'ffmpeg';
+
+// Runs ffmpeg for its log, which is where filters like showinfo report
+async function ffmpegLog(args: string[], signal?: AbortSignal): Promise<string> {
+  const { stderr } = await execFileAsync(ffmpegBin(), ['-hide_banner', ...args], {
+    maxBuffer: 32 * 1024 * 1024,
+    timeout: VISUAL_CONFIG.FFMPEG_TIMEOUT_MS,
+    signal,
+  });
+  return stderr;
+}
+
+// Runs ffmpeg for the bytes it writes to stdout
+async function ffmpegOutput(args: string[], signal?: AbortSignal): Promise<Buffer> {
+  const { stdout } = await execFileAsync(ffmpegBin(), ['-hide_banner', '-v', 'error', ...args], {
+    encoding: 'buffer',
+    maxBuffer: 32 * 1024 * 1024,
+    timeout: VISUAL_CONFIG.FFMPEG_TIMEOUT_MS,
+    signal,
+  });
+  return stdout;
+}
+
+/**
+ * Finds shot boundaries with ffmpeg's scene score; also reads the duration and frame size from the log
+ */
+async function detectCuts(videoPath: string, signal?: AbortSignal): Promise<{ cuts: number[]; durationSeconds: number; width: number | null; height: number | null }> {
+  // Scoring a 160 px wide copy is much faster and finds the same cuts
+  const log = await ffmpegLog([
+    '-i', videoPath,
+    '-an',
+    '-vf', `scale=160:-2,select='gt(scene,${VISUAL_CONFIG.SCENE_THRESHOLD})',showinfo`,
+    '-f', 'null', '-',
+  ], signal);
+
+  const durationMatch = log.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  const durationSeconds = durationMatch
+    ? parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3])
+    : 0;
+  const sizeMatch = log.match(/Stream #\d+:\d+.*?Video:.*?\b(\d{2,5})x(\d{2,5})\b/);
+
+  const cuts: number[] = [];
+  for (const match of log.matchAll(/showinfo.*?pts_time:\s*([\d.]+)/g)) {
+    const time = parseFloat(match[1]);
+    const previous = cuts[cuts.length - 1] ?? 0;
+    if (time - previous >= VISUAL_CONFIG.MIN_SHOT_SECONDS && (!durationSeconds || durationSeconds - time >= VISUAL_CONFIG.MIN_SHOT_SECONDS)) {
+      cuts.push(round(time, 2));
+    }
+  }
+
+  return {
+    cuts,
+    durationSeconds,
+    width: sizeMatch ? parseInt(sizeMatch[1]) : null,
+    height: sizeMatch ? parseInt(sizeMatch[2]) : null,
+  };
+}
+
+function bucketFor(seconds: number): ShotLengthBucket {
+  if (seconds < 1) return '<1s';
+  if (seconds < 2) return '1-2s';
+  if (seconds < 4) return '2-4s';
+  if (seconds < 8) return '4-8s';
+  return '8s+';
+}
+
+export function summarizeShots(cuts: number[], durationSeconds: number): VisualAnalysis['shots'] {
+  const bounds = [0, ...cuts, durationSeconds];
+  const lengths = bounds.slice(1).map((end, index) => end - bounds[index]).filter(length => length > 0);
+  const sorted = [...lengths].sort((a, b) => a - b);
+  const distribution: Record<ShotLengthBucket, number> = { '<1s': 0, '1-2s': 0, '2-4s': 0, '4-8s': 0, '8s+': 0 };
+  for (const length of lengths) distribution[bucketFor(length)]++;
+
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length === 0 ? 0 : sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return {
+    count: lengths.length,
+    averageSeconds: lengths.length ? round(durationSeconds / lengths.length, 2) : 0,
+    medianSeconds: round(median, 2),
+    shortestSeconds: round(sorted[0] ?? 0, 2),
+    longestSeconds: round(sorted[sorted.length - 1] ?? 0, 2),
+    distribution,
+  };
+}
+
+/**
+ * Composition stats of an RGB24 frame: exposure, contrast, colorfulness and where the detail sits
+ */
+export function analyzeComposition(rgb: Buffer, width: number, height: number): FirstFrameComposition {
+  const pixels = width * height;
+  const luma = new Float32Array(pixels);
+  let lumaSum = 0;
+  let rgSum = 0, ybSum = 0, rgSquares = 0, ybSquares = 0;
+
+  for (let i = 0; i < pixels; i++) {
+    const r = rgb[i * 3], g = rgb[i * 3 + 1], b = rgb[i * 3 + 2];
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    lumaSum += luma[i];
+    const rg = r - g;
+    const yb = 0.5 * (r + g) - b;
+    rgSum += rg; ybSum += yb;
+    rgSquares += rg * rg; ybSquares += yb * yb;
+  }
+
+  const lumaMean = lumaSum / pixels;
+  const lumaVariance = luma.reduce((sum, value) => sum + (value - lumaMean) ** 2, 0) / pixels;
+  const rgMean = rgSum / pixels, ybMean = ybSum / pixels;
+  const rgStd = Math.sqrt(Math.max(0, rgSquares / pixels - rgMean ** 2));
+  const ybStd = Math.sqrt(Math.max(0, ybSquares / pixels - ybMean ** 2));
+  const colorfulness = Math.sqrt(rgStd ** 2 + ybStd ** 2) + 0.3 * Math.sqrt(rgMean ** 2 + ybMean ** 2);
+
+  // Central-difference gradient; its magnitude both counts edges and weights the focus point
+  let edges = 0, weight = 0, weightedX = 0, weightedY = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const gx = luma[index + 1] - luma[index - 1];
+      const gy = luma[index + width] - luma[index - width];
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      if (magnitude > VISUAL_CONFIG.EDGE_THRESHOLD) edges++;
+      weight += magnitude;
+      weightedX += magnitude * x;
+      weightedY += magnitude * y;
+    }
+  }
+  const focus = weight > 0
+    ? { x: round(weightedX / weight / (width - 1), 2), y: round(weightedY / weight / (height - 1), 2) }
+    : { x: 0.5, y: 0.5 };
+  const third = (value: number) => value < 1 / 3 ? 0 : value < 2 / 3 ? 1 : 2;
+  const regions: FrameRegion[][] = [
+    ['top-left', 'top-center', 'top-right'],
+    ['middle-left', 'center', 'middle-right'],
+    ['bottom-left', 'bottom-center', 'bottom-right'],
+  ];
+
+  return {
+    brightness: round(lumaMean / 255, 2),
+    contrast: round(Math.min(1, Math.sqrt(lumaVariance) / 128), 2),
+    colorfulness: round(colorfulness),
+    edgeDensity: round(edges / Math.max(1, (width - 2) * (height - 2)), 3),
+    focus,
+    focusRegion: regions[third(focus.y)][third(focus.x)],
+  };
+}
+
+async function firstFrameComposition(videoPath: string, signal?: AbortSignal): Promise<FirstFrameComposition | null> {
+  const size = VISUAL_CONFIG.COMPOSITION_SIZE;
+  const frame = await ffmpegOutput([
+    '-i', videoPath,
+    '-frames:v', '1', '-vf', `scale=${size}:${size}`,
+    '-pix_fmt', 'rgb24', '-f', 'rawvideo', 'pipe:1',
+  ], signal);
+  return frame.length >= size * size * 3 ? analyzeComposition(frame, size, size) : null;
+}
+
+// The opening frame plus the middle of evenly spread shots, so each keyframe shows a different scene
+export function pickKeyframeTimes(cuts: number[], durationSeconds: number, max: number): number[] {
+  const bounds = [0, ...cuts, durationSeconds];
+  const middles = bounds.slice(1).map((end, index) => round((bounds[index] + end) / 2, 2)).slice(1);
+  const picks = [0];
+  const wanted = Math.min(middles.length, max - 1);
+  for (let i = 0; i < wanted; i++) {
+    picks.push(middles[Math.floor((i * middles.length) / wanted)]);
+  }
+  // Without cuts the opening shot is all there is; sample across it instead
+  if (middles.length === 0 && durationSeconds > 0) {
+    for (let i = 1; i < max; i++) picks.push(round((durationSeconds * i) / max, 2));
+  }
+  return picks;
+}
+
+async function extractKeyframe(videoPath: string, time: number, signal?: AbortSignal): Promise<string> {
+  const jpeg = await ffmpegOutput([
+    '-ss', String(time), '-i', videoPath,
+    '-frames:v', '1', '-vf', `scale=${VISUAL_CONFIG.KEYFRAME_WIDTH}:-2`,
+    '-q:v', '5', '-f', 'image2pipe', '-vcodec', 'mjpeg', 'pipe:1',
+  ], signal);
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+}
+
+async function describeKeyframes(
+  videoPath: string,
+  times: number[],
+  signal?: AbortSignal
+): Promise<VisionDescription> {
+  const frames: Array<{ time: number; url: string }> = [];
+  for (const time of times) {
+    frames.push({ time, url: await extractKeyframe(videoPath, time, signal) });
+  }
+
+  const completion = await getOpenAI().chat.completions.create({
+    model: MODELS.VISION,
+    temperature: 0.2,
+    messages: [
+      { role: 'system', content: VISION_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe these keyframes: list on-screen text with its timestamp, the visual hook of the opening frame, whether a face talks to camera, and one line per keyframe.' },
+          ...frames.flatMap(frame => [
+            { type: 'text' as const, text: `Keyframe at ${frame.time}s` },
+            { type: 'image_url' as const, image_url: { url: frame.url, detail: 'low' as const } },
+          ]),
+        ],
+      },
+    ],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'keyframe_description', strict: true, schema: VISION_JSON_SCHEMA },
+    },
+  }, { signal });
+
+  const parsed = VISION_SCHEMA.parse(JSON.parse(completion.choices[0]?.message?.content || '{}'));
+  return { model: MODELS.VISION, ...parsed };
+}
+
+/**
+ * Analyzes a downloaded video; cut and composition metrics need only ffmpeg
+ * The vision description is best effort: without OPENAI_API_KEY or on a model error it is left null
+ */
+export async function analyzeVideoFile(
+  videoPath: string,
+  options: { vision?: boolean; signal?: AbortSignal; durationHint?: number | null } = {}
+): Promise<VisualAnalysis> {
+  const detected = await detectCuts(videoPath, options.signal);
+  const durationSeconds = round(detected.durationSeconds || options.durationHint || (detected.cuts[detected.cuts.length - 1] ?? 0), 2);
+  const cuts = detected.cuts.filter(cut => !durationSeconds || cut < durationSeconds);
+  const { width, height } = detected;
+
+  const firstFrame = await firstFrameComposition(videoPath, options.signal).catch(error => {
+    if (options.signal?.aborted) throw error;
+    console.warn('[VISUAL] ⚠️ First-frame composition failed:', error instanceof Error ? error.message : String(error));
+    return null;
+  });
+
+  let vision: VisionDescription | null = null;
+  if (options.vision) {
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn('[VISUAL] ⏭️ Keyframe descriptions need OPENAI_API_KEY, skipping');
+    } else {
+      const times = pickKeyframeTimes(cuts, durationSeconds, VISUAL_CONFIG.MAX_KEYFRAMES);
+      vision = await describeKeyframes(videoPath, times, options.signal).catch(error => {
+        if (options.signal?.aborted) throw error;
+        console.warn('[VISUAL] ⚠️ Keyframe description failed:', error instanceof Error ? error.message : String(error));
+        return null;
+      });
+    }
+  }
+
+  return {
+    durationSeconds,
+    width,
+    height,
+    orientation: width && height ? (height > width ? 'vertical' : width > height ? 'horizontal' : 'square') : null,
+    cuts,
+    cutCount: cuts.length,
+    cutsPer10Seconds: durationSeconds > 0 ? round((cuts.length / durationSeconds) * 10, 2) : 0,
+    shots: summarizeShots(cuts, durationSeconds),
+    firstFrame,
+    vision,
+  };
+}
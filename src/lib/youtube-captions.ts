@@ -3,9 +3,12 @@
  * This replaces the problematic youtube-transcript package
  */
 
+import { parseCaptionContent, TimedTranscript } from './transcript';
+import { externalFetch } from './mock-external';
+
 const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
 
-export async function getYouTubeCaptions(videoId: string): Promise<string | null> {
+export async function getYouTubeCaptions(videoId: string): Promise<TimedTranscript | null> {
   if (!YOUTUBE_API_KEY) {
     console.warn('[YOUTUBE-CAPTIONS] API key not configured');
     return null;
@@ -17,7 +20,7 @@ export async function getYouTubeCaptions(videoId: string): Promise<string | null
     // First, get available caption tracks
     const captionsListUrl = `https://www.googleapis.com/youtube/v3/captions?part=snippet&videoId=${videoId}&key=${YOUTUBE_API_KEY}`;
     
-    const listResponse = await fetch(captionsListUrl);
+    const listResponse = await externalFetch(captionsListUrl);
     if (!listResponse.ok) {
       console.error(`[YOUTUBE-CAPTIONS] Failed to get captions list: ${listResponse.status}`);
       return null;
@@ -55,7 +58,7 @@ export async function getYouTubeCaptions(videoId: string): Promise<string | null
     // Download the caption content
     const captionUrl = `https://www.googleapis.com/youtube/v3/captions/${captionId}?key=${YOUTUBE_API_KEY}`;
     
-    const captionResponse = await fetch(captionUrl, {
+    const captionResponse = await externalFetch(captionUrl, {
       headers: {
         'Authorization': `Bearer ${YOUTUBE_API_KEY}`,
         'Accept': 'application/json'
@@ -69,12 +72,18 @@ export async function getYouTubeCaptions(videoId: string): Promise<string | null
     
     const captionData = await captionResponse.json();
     
-    // Parse caption content (YouTube returns XML-like format)
-    const captionText = parseCaptionContent(captionData.snippet?.text || '');
+    // Parse caption content (YouTube returns timedtext XML), keeping cue timing
+    const captions = parseCaptionContent(captionData.snippet?.text || '');
     
-    if (captionText) {
-      console.log(`[YOUTUBE-CAPTIONS] Successfully extracted ${captionText.length} characters`);
-      return captionText;
+    if (captions.text) {
+      console.log(`[YOUTUBE-CAPTIONS] Successfully extracted ${captions.text.length} characters in ${captions.segments.length} segments`);
+      return captions;
+    }
+
+    // No speech, only sound tags such as [Music]; returned without text so callers fall through to audio
+    if (captions.annotations?.length) {
+      console.log(`[YOUTUBE-CAPTIONS] Captions only tag sounds (${captions.annotations.length} spans)`);
+      return captions;
     }
     
     return null;
@@ -84,19 +93,3 @@ export async function getYouTubeCaptions(videoId: string): Promise<string | null
     return null;
   }
 }
-
-function parseCaptionContent(captionXml: string): string {
-  // Simple XML parsing to extract text content
-  // Remove XML tags and decode HTML entities
-  let text = captionXml
-    .replace(/<[^>]*>/g, ' ') // Remove XML tags
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim();
-  
-  return text;
-}
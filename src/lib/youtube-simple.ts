@@ -1,6 +1,8 @@
 // Simple YouTube API without binary dependencies for Vercel
 import { VideoMetadata } from './platforms/base';
 import { getYouTubeCaptions } from './youtube-captions';
+import { TimedTranscript } from './transcript';
+import { externalFetch } from './mock-external';
 
 export interface SimpleVideoData {
   id: string;
@@ -38,7 +40,7 @@ export async function getSimpleVideoData(videoId: string): Promise<SimpleVideoDa
   // If we have YouTube API key, use it
   if (process.env.YOUTUBE_API_KEY) {
     try {
-      const response = await fetch(
+      const response = await externalFetch(
         `https://www.googleapis.com/youtube/v3/videos?id=${videoId}&key=${process.env.YOUTUBE_API_KEY}&part=snippet,statistics,contentDetails`
       );
       
@@ -70,15 +72,19 @@ export async function getSimpleVideoData(videoId: string): Promise<SimpleVideoDa
   throw new Error('YouTube API failed and no fallback data is available. Please check your YouTube API key.');
 }
 
-export async function getSimpleTranscript(videoId: string): Promise<string | null> {
+export async function getSimpleTranscript(videoId: string): Promise<TimedTranscript | null> {
   console.log(`[TRANSCRIPT] Attempting to fetch transcript for video: ${videoId}`);
   
   try {
     // Use YouTube Data API v3 for captions
     const transcript = await getYouTubeCaptions(videoId);
     
-    if (transcript && transcript.length > 0) {
-      console.log(`[TRANSCRIPT] Successfully extracted transcript: ${transcript.length} characters`);
+    if (transcript && transcript.text.length > 0) {
+      console.log(`[TRANSCRIPT] Successfully extracted transcript: ${transcript.text.length} characters`);
+      return transcript;
+    } else if (transcript?.annotations?.length) {
+      // Empty text: the caller still needs a transcript, but can keep where the captions mark sounds
+      console.warn(`[TRANSCRIPT] Captions for video ${videoId} only tag sounds, no speech`);
       return transcript;
     } else {
       console.warn(`[TRANSCRIPT] No transcript found for video ${videoId}`);
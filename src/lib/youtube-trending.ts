@@ -3,6 +3,9 @@
  * This replaces the problematic youtube-dl-exec implementation
  */
 
+import { externalFetch } from './mock-external';
+import { AppError, UpstreamError } from './errors';
+
 const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
 
 export interface TrendingVideo {
@@ -28,7 +31,7 @@ export async function getYouTubeTrending(opts: {
   const { niche, duration, max, country } = opts;
   
   if (!YOUTUBE_API_KEY) {
-    throw new Error('YouTube API key not configured');
+    throw new AppError('NOT_CONFIGURED', 'YouTube API key not configured');
   }
 
   try {
@@ -60,9 +63,10 @@ export async function getYouTubeTrending(opts: {
     console.log(`[YOUTUBE-TRENDING] Search URL: ${searchUrl.replace(YOUTUBE_API_KEY, '***')}`);
     
     // Get search results
-    const searchResponse = await fetch(searchUrl);
+    const searchResponse = await externalFetch(searchUrl);
     if (!searchResponse.ok) {
-      throw new Error(`YouTube search failed: ${searchResponse.status}`);
+      // 403 from the Data API is almost always quotaExceeded
+      throw UpstreamError.fromStatus('youtube', searchResponse.status, `YouTube search failed: ${searchResponse.status}`);
     }
     
     const searchData = await searchResponse.json();
@@ -83,9 +87,9 @@ export async function getYouTubeTrending(opts: {
       key: YOUTUBE_API_KEY
     });
     
-    const detailsResponse = await fetch(`${detailsUrl}?${detailsParams.toString()}`);
+    const detailsResponse = await externalFetch(`${detailsUrl}?${detailsParams.toString()}`);
     if (!detailsResponse.ok) {
-      throw new Error(`YouTube details failed: ${detailsResponse.status}`);
+      throw UpstreamError.fromStatus('youtube', detailsResponse.status, `YouTube details failed: ${detailsResponse.status}`);
     }
     
     const detailsData = await detailsResponse.json();
@@ -1,10 +1,15 @@
-import { execFile } from "node:child_process";
-import { promisify } from "node:util";
-import { mkdtemp, rm, access, open } from "node:fs/promises";
+/**
+ * yt-dlp runner
+ * The single place that shells out to yt-dlp: binary discovery, cookies, proxy, timeouts,
+ * concurrency limits, stderr classification and temp-dir cleanup
+ */
+
+import { existsSync, rmSync } from "node:fs";
+import { mkdtemp, rm, readdir, readFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-
-const execFileAsync = promisify(execFile);
+import { parseCaptionContent, TimedTranscript } from "./transcript";
+import { runExternalCommand } from "./mock-external";
 
 // Mobile user agents are less scrutinized than desktop ones
 const MOBILE_USER_AGENTS = [
@@ -12,12 +17,12 @@ const MOBILE_USER_AGENTS = [
   "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
   "Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1",
   "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
-  
+
   // Android Chrome (very common)
   "Mozilla/5.0 (Linux; Android 13; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
   "Mozilla/5.0 (Linux; Android 13; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
   "Mozilla/5.0 (Linux; Android 12; SM-G991B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
-  
+
   // Android Samsung Internet
   "Mozilla/5.0 (Linux; Android 13; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/23.0 Mobile Safari/537.36"
 ];
@@ -32,280 +37,363 @@ const MOBILE_HEADERS = [
   "Upgrade-Insecure-Requests: 1"
 ];
 
-function getRandomMobileUserAgent(): string {
-  return MOBILE_USER_AGENTS[Math.floor(Math.random() * MOBILE_USER_AGENTS.length)];
+// Checked in order when YTDLP_PATH is not set; falls back to whatever is on PATH
+const BINARY_CANDIDATES = ["/usr/local/bin/yt-dlp", "/usr/bin/yt-dlp", "/opt/homebrew/bin/yt-dlp"];
+
+const COOKIE_CANDIDATES = [join(process.cwd(), "youtube-cookies.txt"), "/app/youtube-cookies.txt"];
+
+export type YtDlpErrorCode =
+  | 'private_video'
+  | 'geo_blocked'
+  | 'age_restricted'
+  | 'sign_in_required'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'extractor_error'
+  | 'timeout'
+  | 'not_installed'
+  | 'unknown';
+
+// Order matters: "Sign in to confirm your age" is an age gate, not a generic sign-in wall
+const ERROR_PATTERNS: Array<{ code: YtDlpErrorCode; pattern: RegExp; message: string }> = [
+  { code: 'private_video', pattern: /private video|video is private/i, message: 'This video is private' },
+  { code: 'age_restricted', pattern: /confirm your age|age[- ]restricted|inappropriate for some users/i, message: 'This video is age-restricted' },
+  { code: 'geo_blocked', pattern: /not available in your country|geo[- ]?restrict|not available (?:from|in) your location|blocked it in your country/i, message: 'This video is not available in the server\'s region' },
+  { code: 'sign_in_required', pattern: /sign in to confirm|login required|requires? (?:a )?login|use --cookies|log ?in to/i, message: 'The platform requires a signed-in session to download this video' },
+  { code: 'rate_limited', pattern: /HTTP Error 429|too many requests|rate[- ]?limit/i, message: 'The platform is rate-limiting downloads; try again later' },
+  { code: 'unavailable', pattern: /video unavailable|has been removed|no longer available|does not exist|HTTP Error 404/i, message: 'This video is unavailable' },
+  // The extractor no longer understands the page: a yt-dlp bug or a platform change, not a missing video
+  { code: 'extractor_error', pattern: /unable to extract/i, message: 'yt-dlp could not read this page; the platform may have changed, so try again later or update yt-dlp' },
+];
+
+export class YtDlpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: YtDlpErrorCode,
+    public readonly stderr: string = ''
+  ) {
+    super(message);
+    this.name = 'YtDlpError';
+  }
+
+  // The video itself cannot be fetched, so retrying or falling back to another download path will not help
+  get isPermanent(): boolean {
+    return this.code === 'private_video' || this.code === 'geo_blocked' || this.code === 'age_restricted' || this.code === 'unavailable';
+  }
 }
 
-function getRandomMobileHeaders(): string[] {
-  // Randomly select 3-4 headers to vary the request pattern
-  const shuffled = [...MOBILE_HEADERS].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, 3 + Math.floor(Math.random() * 2));
+export function classifyYtDlpError(stderr: string): YtDlpErrorCode {
+  return ERROR_PATTERNS.find(({ pattern }) => pattern.test(stderr))?.code ?? 'unknown';
 }
 
-// More realistic rate limiting for mobile users
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 3000 + Math.random() * 2000; // 3-5 seconds between requests
-
-async function mobileRateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    const waitTime = MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-    console.log(`[MOBILE_RATE_LIMIT] Waiting ${waitTime}ms to mimic human mobile user`);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-  }
-  
-  lastRequestTime = Date.now();
+export interface YtDlpConfig {
+  binary: string;
+  ffmpegPath?: string;
+  cookiesPath?: string;
+  proxyUrl?: string;
+  timeoutMs: number;
+  maxConcurrent: number;
+  // Gap between requests made with the mobile profile: the minimum plus up to the jitter, drawn per request
+  mobileIntervalMs: number;
+  mobileJitterMs: number;
+}
+
+export function getYtDlpConfig(): YtDlpConfig {
+  return {
+    binary: process.env.YTDLP_PATH || BINARY_CANDIDATES.find(path => existsSync(path)) || "yt-dlp",
+    ffmpegPath: process.env.FFMPEG_PATH,
+    cookiesPath: [process.env.YTDLP_COOKIES_PATH, ...COOKIE_CANDIDATES].find(path => path && existsSync(path)),
+    proxyUrl: process.env.YTDLP_PROXY,
+    timeoutMs: parseInt(process.env.YTDLP_TIMEOUT_MS || '120000'),
+    maxConcurrent: Math.max(1, parseInt(process.env.YTDLP_MAX_CONCURRENT || '2')),
+    // 3-5 seconds between requests
+    mobileIntervalMs: 3000,
+    mobileJitterMs: 2000,
+  };
 }
 
-export type VideoMetadata = {
+export interface YtDlpRunOptions {
+  signal?: AbortSignal;
+  // Directory the command writes into; recorded and replayed in mock mode
+  outputDir?: string;
+  // Rotate mobile user agents and headers and pace requests, for platforms that flag desktop scrapers (YouTube)
+  mobile?: boolean;
+}
+
+// The subset of `yt-dlp -J` output the adapters read
+export interface YtDlpInfo {
   id: string;
-  title: string;
-  channel: string;
+  title?: string;
+  description?: string;
+  channel?: string;
+  channel_id?: string;
   uploader?: string;
+  uploader_id?: string;
+  creator?: string;
   view_count?: number;
+  like_count?: number;
+  comment_count?: number;
   upload_date?: string;
   duration?: number;
-};
-
-export async function getVideoInfo(url: string): Promise<VideoMetadata> {
-  await mobileRateLimit();
-  
-  const userAgent = getRandomMobileUserAgent();
-  const headers = getRandomMobileHeaders();
-  
-  const args = ["-J", url, "--user-agent", userAgent, "--cookies", "youtube-cookies.txt"];
-  
-  // Add mobile headers
-  headers.forEach(header => {
-    args.push("--add-header", header);
-  });
-  
-  console.log(`[MOBILE_ANTI_BOT] Using mobile user-agent: ${userAgent.substring(0, 60)}...`);
-  console.log(`[MOBILE_ANTI_BOT] Added ${headers.length} mobile headers`);
-  
-  const { stdout } = await execFileAsync("yt-dlp", args);
-  const json = JSON.parse(stdout);
-  const md: VideoMetadata = {
-    id: json.id,
-    title: json.title,
-    channel: json.channel || json.uploader || json.uploader_id || "",
-    uploader: json.uploader,
-    view_count: json.view_count,
-    upload_date: json.upload_date,
-    duration: json.duration,
-  };
-  return md;
+  tags?: string[];
+  thumbnail?: string;
+  webpage_url?: string;
 }
 
-export async function extractSubtitles(url: string): Promise<string | null> {
-  await mobileRateLimit();
-  
-  let tmp: string | null = null;
-  let cleanup: (() => Promise<void>) | null = null;
-  
+// One entry of `yt-dlp --flat-playlist -J` output; only IDs and basic fields, nothing is downloaded
+export interface YtDlpPlaylistEntry {
+  id: string;
+  url?: string;
+  title?: string;
+  duration?: number;
+  view_count?: number;
+}
+
+export interface YtDlpAudioResult {
+  audioPath: string;
+  cleanup: () => Promise<void>;
+}
+
+export interface YtDlpVideoResult {
+  videoPath: string;
+  cleanup: () => Promise<void>;
+}
+
+// Temp dirs still on disk; removed synchronously if the process exits before their owners clean up
+const liveTempDirs = new Set<string>();
+process.once("exit", () => {
+  for (const dir of liveTempDirs) {
+    try {
+      rmSync(dir, { recursive: true, force: true });
+    } catch {}
+  }
+});
+
+async function createTempDir(prefix: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), prefix));
+  liveTempDirs.add(dir);
+  return dir;
+}
+
+async function removeTempDir(dir: string): Promise<void> {
   try {
-    tmp = await mkdtemp(join(tmpdir(), "shorts-analyzer-subs-"));
-    cleanup = async () => {
-      if (tmp) {
-        try {
-          await access(tmp);
-          await rm(tmp, { recursive: true, force: true });
-        } catch (error) {
-          console.log(`[CLEANUP] Failed to remove subtitle temp dir ${tmp}:`, error);
-        }
-        tmp = null;
-      }
-    };
-
-    const userAgent = getRandomMobileUserAgent();
-    const headers = getRandomMobileHeaders();
-    
-    console.log(`[MOBILE_ANTI_BOT] Using mobile user-agent: ${userAgent.substring(0, 60)}...`);
-
-    // Try to extract subtitles in multiple languages with priority order
-    // Priority: auto-generated > manual > any available
-    const subtitleArgs = [
-      url,
-      "--write-subs",
-      "--write-auto-subs", 
-      "--sub-langs", "en.*,auto,live_chat,-live_chat", // English preference, then auto
-      "--skip-download",
-      "--no-playlist",
-      "-o", join(tmp, "%(title)s.%(ext)s"),
-      "--quiet",
-      "--no-warnings",
-      "--user-agent", userAgent, "--cookies", "youtube-cookies.txt"
-    ];
-    
-    // Add mobile headers
-    headers.forEach(header => {
-      subtitleArgs.push("--add-header", header);
-    });
-    
-    await execFileAsync("yt-dlp", subtitleArgs);
-    
-    // List files to find subtitle files
-    const { stdout } = await execFileAsync("/bin/ls", ["-la", tmp]);
-    const lines = stdout.split("\n").filter(line => line.includes(".vtt") || line.includes(".srt"));
-    
-    if (lines.length > 0) {
-      // Find the best subtitle file (prefer .en.vtt or .en.srt)
-      const files = lines.map(line => {
-        const parts = line.trim().split(/\s+/);
-        return parts[parts.length - 1]; // filename is last part
-      }).filter(f => f.endsWith('.vtt') || f.endsWith('.srt'));
-      
-      // Prefer English subtitles, then auto-generated, then any
-      const preferredFile = files.find(f => f.includes('.en.')) || 
-                           files.find(f => f.includes('auto')) ||
-                           files[0];
-      
-      if (preferredFile) {
-        const { readFile } = await import("node:fs/promises");
-        const subtitlePath = join(tmp, preferredFile);
-        const content = await readFile(subtitlePath, "utf-8");
-        
-        // Parse VTT or SRT content to extract text only
-        const cleanedContent = parseSubtitleContent(content);
-        console.log(`[SUBTITLES] Successfully extracted subtitles from ${preferredFile}`);
-        
-        await cleanup();
-        return cleanedContent;
-      }
-    }
-    
-    await cleanup();
-    return null;
+    await rm(dir, { recursive: true, force: true });
   } catch (error) {
-    if (cleanup) await cleanup();
-    console.log(`[SUBTITLES] Failed to extract subtitles:`, error);
-    return null;
+    console.log(`[YTDLP] Failed to remove temp dir ${dir}:`, error);
   }
+  liveTempDirs.delete(dir);
 }
 
-function parseSubtitleContent(content: string): string {
-  // Remove VTT/SRT formatting and extract plain text
-  let lines = content.split('\n');
-  
-  // Filter out metadata, timestamps, and formatting
-  const textLines = lines
-    .filter(line => {
-      const trimmed = line.trim();
-      // Skip empty lines
-      if (!trimmed) return false;
-      // Skip VTT headers
-      if (trimmed.startsWith('WEBVTT') || trimmed.startsWith('NOTE')) return false;
-      // Skip SRT numbering
-      if (/^\d+$/.test(trimmed)) return false;
-      // Skip timestamp lines
-      if (/\d{2}:\d{2}:\d{2}/.test(trimmed)) return false;
-      // Skip style tags
-      if (trimmed.startsWith('<') && trimmed.endsWith('>')) return false;
-      return true;
-    })
-    .map(line => {
-      // Clean up HTML tags and formatting
-      return line
-        .replace(/<[^>]*>/g, '') // Remove HTML tags
-        .replace(/\[.*?\]/g, '') // Remove [music], [applause] etc
-        .replace(/\{.*?\}/g, '') // Remove {style} tags
-        .trim();
-    })
-    .filter(line => line.length > 0);
-  
-  return textLines.join(' ');
+function pickRandom<T>(items: T[], count: number): T[] {
+  return [...items].sort(() => 0.5 - Math.random()).slice(0, count);
 }
 
-export async function downloadAudioAsWav(url: string): Promise<{ wavPath: string; cleanup: () => Promise<void> }> {
-  await mobileRateLimit();
-  
-  let tmp: string | null = null;
-  let wavPath: string | null = null;
-  
-  const cleanup = async () => {
-    if (tmp) {
+export class YtDlpRunner {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private lastMobileRequest = 0;
+
+  constructor(private readonly config: YtDlpConfig = getYtDlpConfig()) {}
+
+  async getInfo(url: string, options: YtDlpRunOptions = {}): Promise<YtDlpInfo> {
+    const { stdout } = await this.run(["-J", "--no-playlist", url], options);
+    return JSON.parse(stdout) as YtDlpInfo;
+  }
+
+  /**
+   * Lists the newest entries of a playlist, channel tab or profile without visiting each video
+   */
+  async listPlaylist(url: string, options: YtDlpRunOptions & { limit: number }): Promise<YtDlpPlaylistEntry[]> {
+    const { stdout } = await this.run(["-J", "--flat-playlist", "--playlist-end", String(options.limit), url], options);
+    const info = JSON.parse(stdout) as { entries?: Array<YtDlpPlaylistEntry | null> };
+    return (info.entries ?? []).filter((entry): entry is YtDlpPlaylistEntry => !!entry?.id).slice(0, options.limit);
+  }
+
+  /**
+   * Extracts the best audio track; the caller owns the returned cleanup
+   */
+  async downloadAudio(
+    url: string,
+    options: YtDlpRunOptions & { format?: 'wav' | 'mp3' } = {}
+  ): Promise<YtDlpAudioResult> {
+    const format = options.format ?? 'wav';
+    const dir = await createTempDir("shorts-analyzer-audio-");
+    try {
+      await this.run([
+        url,
+        "-x",
+        "--audio-format", format,
+        "--audio-quality", "0",
+        "-o", join(dir, "%(id)s.%(ext)s"),
+        "--no-playlist",
+      ], { ...options, outputDir: dir });
+
+      const file = (await readdir(dir)).find(name => name.endsWith(`.${format}`));
+      if (!file) {
+        throw new YtDlpError(`yt-dlp did not produce a .${format} file`, 'unknown');
+      }
+      return { audioPath: join(dir, file), cleanup: () => removeTempDir(dir) };
+    } catch (error) {
+      await removeTempDir(dir);
+      throw error;
+    }
+  }
+
+  /**
+   * Downloads a small rendition of the video for frame analysis; the caller owns the returned cleanup
+   * Cuts and composition do not need more than 480p, so prefer it to keep downloads short
+   */
+  async downloadVideo(url: string, options: YtDlpRunOptions = {}): Promise<YtDlpVideoResult> {
+    const dir = await createTempDir("shorts-analyzer-video-");
+    try {
+      await this.run([
+        url,
+        "-f", "bv*[height<=480]/b[height<=480]/wv*/w",
+        "-o", join(dir, "%(id)s.%(ext)s"),
+        "--no-playlist",
+        "--no-part",
+      ], { ...options, outputDir: dir });
+
+      const file = (await readdir(dir)).find(name => /\.(mp4|webm|mkv|mov)$/.test(name));
+      if (!file) {
+        throw new YtDlpError("yt-dlp did not produce a video file", 'unknown');
+      }
+      return { videoPath: join(dir, file), cleanup: () => removeTempDir(dir) };
+    } catch (error) {
+      await removeTempDir(dir);
+      throw error;
+    }
+  }
+
+  /**
+   * Downloads subtitles without the video, preferring English, then auto-generated, then anything
+   */
+  async downloadSubtitles(url: string, options: YtDlpRunOptions = {}): Promise<TimedTranscript | null> {
+    const dir = await createTempDir("shorts-analyzer-subs-");
+    try {
+      await this.run([
+        url,
+        "--write-subs",
+        "--write-auto-subs",
+        "--sub-langs", "en.*,auto,live_chat,-live_chat",
+        "--skip-download",
+        "--no-playlist",
+        "-o", join(dir, "%(title)s.%(ext)s"),
+      ], { ...options, outputDir: dir });
+
+      const files = (await readdir(dir)).filter(name => name.endsWith(".vtt") || name.endsWith(".srt"));
+      const preferred = files.find(name => name.includes(".en.")) || files.find(name => name.includes("auto")) || files[0];
+      if (!preferred) return null;
+
+      console.log(`[YTDLP] Extracted subtitles from ${preferred}`);
+      return parseCaptionContent(await readFile(join(dir, preferred), "utf-8"));
+    } finally {
+      await removeTempDir(dir);
+    }
+  }
+
+  async run(args: string[], options: YtDlpRunOptions = {}): Promise<{ stdout: string; stderr: string }> {
+    await this.acquire(options.signal);
+    try {
+      if (options.mobile) {
+        await this.paceMobileRequests();
+      }
+
+      const timeout = AbortSignal.timeout(this.config.timeoutMs);
+      const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
       try {
-        // Force close any open file handles
-        try {
-          await access(tmp);
-          // Try to remove the directory and all contents
-          await rm(tmp, { recursive: true, force: true });
-        } catch (error) {
-          console.log(`[CLEANUP] Failed to remove audio temp dir ${tmp}:`, error);
-          // If rm fails, try to close any open file descriptors
-          try {
-            const { readdir } = await import("node:fs/promises");
-            const files = await readdir(tmp);
-            for (const file of files) {
-              try {
-                const filePath = join(tmp, file);
-                const fd = await open(filePath, 'r');
-                await fd.close();
-              } catch {}
-            }
-          } catch {}
-        }
+        return await runExternalCommand(this.config.binary, [...this.baseArgs(options), ...args], {
+          signal,
+          outputDir: options.outputDir,
+        });
       } catch (error) {
-        console.log(`[CLEANUP] Audio cleanup failed for ${tmp}:`, error);
+        // Cancellation by the caller is not a yt-dlp failure; let callers see the abort as-is
+        if (options.signal?.aborted) throw error;
+        throw this.toYtDlpError(error, timeout.aborted);
       }
-      tmp = null;
+    } finally {
+      this.release();
     }
-  };
+  }
 
-  try {
-    tmp = await mkdtemp(join(tmpdir(), "shorts-analyzer-"));
-    const outTemplate = join(tmp, "%(id)s.%(ext)s");
-    
-    const userAgent = getRandomMobileUserAgent();
-    const headers = getRandomMobileHeaders();
-    
-    console.log(`[MOBILE_ANTI_BOT] Using mobile user-agent: ${userAgent.substring(0, 60)}...`);
-    
-    // Extract best audio to wav using yt-dlp + ffmpeg (ffmpeg is used internally by yt-dlp)
-    const audioArgs = [
-      url,
-      "-x",
-      "--audio-format",
-      "wav",
-      "-o",
-      outTemplate,
-      "--no-playlist",
-      "--quiet",
-      "--no-warnings",
-      "--user-agent", userAgent, "--cookies", "youtube-cookies.txt"
-    ];
-    
-    // Add mobile headers
-    headers.forEach(header => {
-      audioArgs.push("--add-header", header);
-    });
-    
-    await execFileAsync("yt-dlp", audioArgs);
-
-    // We don't know the id yet reliably here; list directory and find .wav
-    const { stdout } = await execFileAsync("/bin/ls", [tmp]);
-    const wav = stdout
-      .split("\n")
-      .map((s) => s.trim())
-      .filter((s) => s.endsWith(".wav"))[0];
-      
-    if (!wav) {
-      await cleanup();
-      throw new Error("Failed to locate downloaded wav file");
+  private baseArgs(options: YtDlpRunOptions): string[] {
+    const args = ["--quiet", "--no-warnings"];
+    if (this.config.cookiesPath) args.push("--cookies", this.config.cookiesPath);
+    if (this.config.proxyUrl) args.push("--proxy", this.config.proxyUrl);
+    if (this.config.ffmpegPath) args.push("--ffmpeg-location", this.config.ffmpegPath);
+    if (options.mobile) {
+      const userAgent = MOBILE_USER_AGENTS[Math.floor(Math.random() * MOBILE_USER_AGENTS.length)];
+      console.log(`[MOBILE_ANTI_BOT] Using mobile user-agent: ${userAgent.substring(0, 60)}...`);
+      args.push("--user-agent", userAgent);
+      // Randomly select 3-4 headers to vary the request pattern
+      for (const header of pickRandom(MOBILE_HEADERS, 3 + Math.floor(Math.random() * 2))) {
+        args.push("--add-header", header);
+      }
     }
-    
-    wavPath = join(tmp, wav);
+    return args;
+  }
 
-    return { 
-      wavPath, 
-      cleanup: async () => {
-        await cleanup();
-      }
-    };
-  } catch (error) {
-    await cleanup();
-    throw error;
+  private toYtDlpError(error: unknown, timedOut: boolean): YtDlpError {
+    if (timedOut) {
+      return new YtDlpError(`yt-dlp timed out after ${Math.round(this.config.timeoutMs / 1000)}s`, 'timeout');
+    }
+    if ((error as { code?: unknown }).code === 'ENOENT') {
+      return new YtDlpError(`yt-dlp not found at "${this.config.binary}". Install it or set YTDLP_PATH.`, 'not_installed');
+    }
+
+    const stderr = (error as { stderr?: string }).stderr || (error instanceof Error ? error.message : String(error));
+    const code = classifyYtDlpError(stderr);
+    const known = ERROR_PATTERNS.find(entry => entry.code === code);
+    const lastError = stderr.split("\n").reverse().find(line => line.startsWith("ERROR:"))?.trim();
+    return new YtDlpError(known?.message || lastError || "yt-dlp failed", code, stderr);
+  }
+
+  // More realistic rate limiting for mobile users
+  private async paceMobileRequests(): Promise<void> {
+    // Reserve the next slot before waiting, so concurrent callers queue behind each other instead of firing together
+    const now = Date.now();
+    const interval = this.config.mobileIntervalMs + Math.random() * this.config.mobileJitterMs;
+    const slot = Math.max(now, this.lastMobileRequest + interval);
+    this.lastMobileRequest = slot;
+
+    const waitTime = slot - now;
+    if (waitTime > 0) {
+      console.log(`[MOBILE_RATE_LIMIT] Waiting ${Math.round(waitTime)}ms to mimic human mobile user`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.config.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The releasing run hands its slot straight to the next waiter; a cancelled waiter leaves the queue
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiting.indexOf(waiter);
+        if (index >= 0) this.waiting.splice(index, 1);
+        reject(signal!.reason);
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
   }
 }
+
+// Global yt-dlp runner instance
+export const ytdlp = new YtDlpRunner();